@@ -6,20 +6,30 @@
 
 import { getOpenAIService } from '../ai/openai-service'
 import { getX402Service, type PaymentRequest } from '../x402/payment-service'
-import type { Agent } from '../../types/agent'
+import { resolveScoreScale, toNativeScore, validateScoreScale } from '../scoring/score-scale'
+import type { Agent, Rubric, PairwisePreference, ReviewContext, NativeScore, ScoreScale } from '../../types/agent'
 import type { PaymentPayload, PaymentRequirements } from 'a2a-x402'
 
 export interface AgentChatRequest {
   content: string
   criteria?: string[]
+  rubric?: Rubric
+  comparison?: { candidateA: string; candidateB: string } // Pairwise mode - content is the task prompt
+  review?: ReviewContext // Sequential and hierarchical workflows
+  labels?: string[] // Verdict mode: label set the agent picks its verdict from
+  scale?: ScoreScale // Scale to score on, defaults to 0-10; review scores are still on 0-10
   metadata?: Record<string, any>
 }
 
 export interface AgentChatResponse {
-  score: number
+  score: NativeScore // On the request's scale; pairwise mode: preference for A on 0-10 (5 = tie)
   reasoning: string
   confidence: number
-  aspects?: Record<string, number>
+  aspects?: Record<string, NativeScore>
+  strengths?: string[]
+  improvements?: string[]
+  preference?: PairwisePreference
+  label?: string // Verdict mode
   paymentTx?: string
 }
 
@@ -74,18 +84,49 @@ export class AgentEndpointService {
       throw new Error(`Payment settlement failed: ${settlement.error}`)
     }
 
-    // Process evaluation
+    // Pairwise comparison
+    if (request.comparison) {
+      const comparison = await this.openAIService.comparePair(
+        agent,
+        request.content,
+        request.comparison.candidateA,
+        request.comparison.candidateB,
+        request.criteria || ['Quality', 'Accuracy', 'Completeness']
+      )
+      const direction = comparison.winner === 'A' ? 1 : comparison.winner === 'B' ? -1 : 0
+
+      return {
+        score: 5 + 5 * direction * comparison.margin,
+        reasoning: comparison.reasoning,
+        confidence: comparison.confidence,
+        preference: { winner: comparison.winner, margin: comparison.margin },
+        paymentTx: settlement.transactionId
+      }
+    }
+
+    // Process evaluation - the OpenAI service works on 0-10, the caller gets its own scale back
+    const scale = resolveScoreScale(request.scale)
     const evaluation = await this.openAIService.evaluateContent(
       agent,
       request.content,
-      request.criteria || ['Quality', 'Accuracy', 'Completeness']
+      request.criteria || ['Quality', 'Accuracy', 'Completeness'],
+      request.rubric,
+      undefined,
+      request.review,
+      request.labels,
+      scale
     )
 
     return {
-      score: evaluation.score,
+      score: toNativeScore(scale, evaluation.score),
       reasoning: evaluation.reasoning,
       confidence: evaluation.confidence,
-      aspects: evaluation.aspects,
+      aspects: Object.fromEntries(
+        Object.entries(evaluation.aspects).map(([criterion, score]) => [criterion, toNativeScore(scale, score)])
+      ),
+      strengths: evaluation.strengths,
+      improvements: evaluation.improvements,
+      label: evaluation.label,
       paymentTx: settlement.transactionId
     }
   }
@@ -149,6 +190,15 @@ export class AgentEndpointService {
       return { valid: false, error: 'Content too long (max 50000 characters)' }
     }
 
+    if (request.comparison && (!request.comparison.candidateA?.trim() || !request.comparison.candidateB?.trim())) {
+      return { valid: false, error: 'Comparison needs both candidateA and candidateB' }
+    }
+
+    const scaleError = request.scale !== undefined ? validateScoreScale(request.scale) : undefined
+    if (scaleError) {
+      return { valid: false, error: scaleError }
+    }
+
     return { valid: true }
   }
 }
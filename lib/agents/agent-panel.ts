@@ -0,0 +1,90 @@
+/**
+ * Agent Panel
+ * Loads evaluation panels from the agents table
+ */
+
+import type { Agent as DbAgent } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import type { Agent } from '../../types/agent'
+
+/**
+ * Map a database agent row to the Agent shape used by the orchestrator
+ */
+export function toPanelAgent(agent: DbAgent): Agent {
+  return {
+    id: agent.id.toString(),
+    name: agent.name,
+    title: agent.name,
+    tagline: agent.bio || '',
+    bio: agent.bio || '',
+    avatar: agent.avatar || '',
+    color: (agent.color || 'purple') as 'purple' | 'cyan' | 'gold',
+    hederaAccount: {
+      accountId: agent.accountId,
+      publicKey: '',
+      balance: 0
+    },
+    paymentConfig: {
+      enabled: true,
+      acceptedTokens: ['HBAR'],
+      pricePerJudgment: agent.fee,
+      paymentAddress: agent.payToAddress,
+      minimumPayment: agent.fee
+    },
+    identity: {
+      registryId: '',
+      agentId: agent.id.toString(),
+      verified: false,
+      registeredAt: agent.createdAt.getTime()
+    },
+    reputation: {
+      totalReviews: 0,
+      averageRating: agent.reputation,
+      completedJudgments: 0,
+      successRate: 1.0,
+      lastUpdated: Date.now()
+    },
+    capabilities: {
+      specialties: JSON.parse(agent.specialties || '[]'),
+      languages: ['en'],
+      modelProvider: 'openai' as const,
+      modelName: 'gpt-4',
+      systemPrompt: agent.bio || '',
+      temperature: 0.7,
+      maxTokens: 2000
+    },
+    createdBy: '',
+    createdAt: agent.createdAt.getTime(),
+    updatedAt: agent.updatedAt.getTime(),
+    isActive: true,
+    trending: agent.trending || false
+  }
+}
+
+/**
+ * Load a panel by agent ids, in the given order
+ * missing lists the ids that are not valid agents
+ */
+export async function loadPanel(agentIds: Array<string | number>): Promise<{ agents: Agent[]; missing: string[] }> {
+  const ids = agentIds.map((id) => parseInt(String(id), 10))
+  const rows = await getDatabase().agent.findMany({
+    where: { id: { in: ids.filter((id) => !isNaN(id)) } }
+  })
+  const byId = new Map(rows.map((row) => [row.id, row]))
+
+  return {
+    agents: ids.flatMap((id) => {
+      const row = byId.get(id)
+      return row ? [toPanelAgent(row)] : []
+    }),
+    missing: agentIds.filter((_, index) => !byId.has(ids[index])).map(String),
+  }
+}
+
+/**
+ * Cost of one evaluation in HBAR - each agent, the chief judge included, is paid once
+ * Retries stop once a payment is made, so this is also the most an evaluation can spend
+ */
+export function estimatePanelCost(agents: Agent[]): number {
+  return agents.reduce((sum, agent) => sum + agent.paymentConfig.pricePerJudgment, 0)
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Agent, OrchestratorConfig } from '../../types/agent'
+
+const { db } = vi.hoisted(() => ({
+  db: { userQuota: { findUnique: vi.fn() } },
+}))
+
+vi.mock('../database.js', () => ({ getDatabase: () => db }))
+vi.mock('../hedera/orchestrator-service', () => ({ getOrchestratorService: () => ({}) }))
+
+const { estimateEvaluationCost } = await import('./cost-estimate')
+
+function agent(id: string, price: number): Agent {
+  return { id, name: id, paymentConfig: { pricePerJudgment: price } } as Agent
+}
+
+const REQUEST = { content: 'An essay', selectedAgents: [agent('a', 4), agent('b', 4)] }
+const CONFIG = { workflow: 'parallel', maxRetries: 2, enableDiscussion: false, outlierDetection: false } as OrchestratorConfig
+
+describe('estimateEvaluationCost', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('counts one paid call per agent whatever the retries', async () => {
+    const estimate = await estimateEvaluationCost(REQUEST, CONFIG)
+
+    expect(estimate.paidCalls).toEqual({ expected: 2, worstCase: 2 })
+    expect(estimate.agents.map((cost) => [cost.maxCalls, cost.maxCost])).toEqual([[1, 4], [1, 4]])
+  })
+
+  it('checks the HBAR worst case against the quota in USD', async () => {
+    // $1 left: the ~8.2 HBAR worst case is ~$0.41 at the default rate of $0.05
+    db.userQuota.findUnique.mockResolvedValue({ monthlyCap: 100, currentUsage: 99, lastResetDate: new Date() })
+    const estimate = await estimateEvaluationCost(REQUEST, CONFIG, { userAddress: '0.0.1234' })
+
+    expect(estimate.worstCaseTotal).toBeGreaterThan(1)
+    expect(estimate.quota!.worstCaseUsd).toBeCloseTo(estimate.worstCaseTotal * 0.05)
+    expect(estimate.quota!.covered).toBe(true)
+    expect(estimate.covered).toBe(true)
+  })
+
+  it('is not covered when the USD worst case exceeds the remaining quota', async () => {
+    db.userQuota.findUnique.mockResolvedValue({ monthlyCap: 100, currentUsage: 99.7, lastResetDate: new Date() })
+    const estimate = await estimateEvaluationCost(REQUEST, CONFIG, { userAddress: '0.0.1234' })
+
+    expect(estimate.quota!.covered).toBe(false)
+    expect(estimate.covered).toBe(false)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Cost Estimate
+ * Dry-run cost of an evaluation: agent payments, LLM tokens and HCS fees,
+ * checked against the caller's quota and AA wallet balance
+ */
+
+import { getDatabase } from '../database.js'
+import { MonthlyQuotaService, HBAR_USD_RATE, hbarToUsd } from '../quota/monthly-quota-service'
+import { getOrchestratorService } from '../hedera/orchestrator-service'
+import type { EvaluationCostEstimate, JudgmentRequest, OrchestratorConfig } from '../../types/agent'
+
+// Hedera fees are fixed in USD (topic create $0.01, message submit + record query $0.0002)
+const HCS_TOPIC_FEE_USD = 0.01
+const HCS_MESSAGE_FEE_USD = 0.0002
+
+// Rough token counts: ~4 characters per token plus the prompt template and the answer
+const CHARS_PER_TOKEN = 4
+const SCORING_PROMPT_TOKENS = 600
+const SCORING_COMPLETION_TOKENS = 500
+const DISCUSSION_PROMPT_TOKENS = 400
+const DISCUSSION_COMPLETION_TOKENS = 300
+const TOKENS_PER_PEER = 150 // Each peer score or review shown in a prompt
+
+export interface EstimateOptions {
+  userAddress?: string // Checked against the monthly quota
+  orchestratorId?: string // AA wallet checked against the worst case
+}
+
+/**
+ * Estimate what an evaluation will cost without creating a topic or paying anyone
+ * Config must have its defaults filled in (withConfigDefaults)
+ */
+export async function estimateEvaluationCost(
+  request: Pick<JudgmentRequest, 'content' | 'selectedAgents'>,
+  config: OrchestratorConfig,
+  options: EstimateOptions = {}
+): Promise<EvaluationCostEstimate> {
+  const agents = request.selectedAgents
+  const hierarchical = config.workflow === 'hierarchical'
+  const panelSize = hierarchical ? agents.length - 1 : agents.length
+
+  // Retries stop once an agent is paid, so each agent is paid at most once
+  const agentCosts = agents.map((agent) => {
+    const price = agent.paymentConfig.pricePerJudgment
+    return {
+      agentId: agent.id,
+      agentName: agent.name,
+      pricePerJudgment: price,
+      expectedCalls: 1,
+      maxCalls: 1,
+      maxCost: price,
+    }
+  })
+  const expectedPayments = agentCosts.reduce((sum, agent) => sum + agent.pricePerJudgment, 0)
+  const worstCasePayments = agentCosts.reduce((sum, agent) => sum + agent.maxCost, 0)
+
+  const discussionRounds = (config.enableDiscussion && panelSize > 1 ? config.maxDiscussionRounds : 0) +
+    (config.outlierDetection && config.outlierStrategy === 'extra_round' ? 1 : 0)
+
+  const contentTokens = Math.ceil(request.content.length / CHARS_PER_TOKEN)
+  // Sequential judges and the chief judge also read the reviews of the panel
+  const reviewTokens = config.workflow === 'sequential'
+    ? panelSize * (panelSize - 1) / 2 * TOKENS_PER_PEER
+    : hierarchical ? panelSize * TOKENS_PER_PEER : 0
+  const scoringTokens = agents.length * (SCORING_PROMPT_TOKENS + contentTokens + SCORING_COMPLETION_TOKENS) + reviewTokens
+  const discussionTokens = discussionRounds * panelSize *
+    (DISCUSSION_PROMPT_TOKENS + contentTokens + (panelSize - 1) * TOKENS_PER_PEER + DISCUSSION_COMPLETION_TOKENS)
+
+  // Scores, then a discussion and an adjustment per speaker and round, outliers, chief verdict and final result
+  const expectedMessages = agents.length + 1
+  const maxMessages = agents.length + discussionRounds * panelSize * 2 +
+    (config.outlierDetection ? 1 : 0) + 1
+  const topicFee = HCS_TOPIC_FEE_USD / HBAR_USD_RATE
+  const messageFees = maxMessages * HCS_MESSAGE_FEE_USD / HBAR_USD_RATE
+
+  const expectedTotal = expectedPayments + topicFee + expectedMessages * HCS_MESSAGE_FEE_USD / HBAR_USD_RATE
+  const worstCaseTotal = worstCasePayments + topicFee + messageFees
+
+  const estimate: EvaluationCostEstimate = {
+    agents: agentCosts,
+    paidCalls: { expected: agents.length, worstCase: agents.length },
+    discussionRounds,
+    llmTokens: {
+      scoring: Math.ceil(scoringTokens),
+      discussion: Math.ceil(discussionTokens),
+      total: Math.ceil(scoringTokens + discussionTokens),
+    },
+    hcs: { messages: maxMessages, topicFee, messageFees, total: topicFee + messageFees },
+    expectedTotal,
+    worstCaseTotal,
+    covered: true,
+  }
+
+  if (options.userAddress) {
+    // The quota is in USD, the estimate in HBAR
+    const quota = await new MonthlyQuotaService(getDatabase()).getQuotaStatus(options.userAddress)
+    const worstCaseUsd = hbarToUsd(worstCaseTotal)
+    estimate.quota = {
+      userAddress: options.userAddress,
+      monthlyCap: quota.monthlyCap,
+      remainingQuota: quota.remainingQuota,
+      worstCaseUsd,
+      covered: worstCaseUsd <= quota.remainingQuota,
+    }
+  }
+
+  if (options.orchestratorId) {
+    try {
+      const { balance, accountId } = await getOrchestratorService().getWalletBalance(options.orchestratorId)
+      const hbar = parseFloat(balance.hbar)
+      estimate.wallet = {
+        orchestratorId: options.orchestratorId,
+        accountId,
+        balance: hbar,
+        covered: worstCaseTotal <= hbar,
+      }
+    } catch (error) {
+      estimate.wallet = {
+        orchestratorId: options.orchestratorId,
+        covered: false,
+        error: error instanceof Error ? error.message : 'Failed to get wallet balance',
+      }
+    }
+  }
+
+  estimate.covered = (estimate.quota?.covered ?? true) && (estimate.wallet?.covered ?? true)
+  return estimate
+}
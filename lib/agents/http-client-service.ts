@@ -6,23 +6,39 @@
 
 import { Wallet } from 'ethers'
 import { processPayment, x402Utils, type PaymentPayload, type PaymentRequirements } from 'a2a-x402'
-import type { Agent } from '../../types/agent'
+import type { Agent, Rubric, PairwisePreference, ReviewContext, NativeScore, ScoreScale } from '../../types/agent'
 import { normalizeToEvmAddress } from '../hedera/address-utils'
 
 export interface AgentHTTPRequest {
   content: string
   criteria?: string[]
+  rubric?: Rubric
+  comparison?: { candidateA: string; candidateB: string } // Pairwise mode - content is the task prompt
+  review?: ReviewContext // Sequential and hierarchical workflows
+  labels?: string[] // Verdict mode: label set the agent picks its verdict from
+  scale?: ScoreScale // Scale to score on, defaults to 0-10; review scores are still on 0-10
   metadata?: Record<string, any>
 }
 
 export interface AgentHTTPResponse {
-  score: number
+  score: NativeScore // On the request's scale
   reasoning: string
   confidence: number
-  aspects?: Record<string, number>
+  aspects?: Record<string, NativeScore>
+  strengths?: string[]
+  improvements?: string[]
+  preference?: PairwisePreference // Pairwise mode only
+  label?: string // Verdict mode only
   paymentTx?: string
 }
 
+// Account that signs x402 payments (defaults to the ORCHESTRATOR_* credentials)
+export interface AgentPaymentSigner {
+  accountId: string
+  evmAddress: string
+  privateKey: string
+}
+
 export interface X402PaymentRequired {
   error: string
   paymentRequired: {
@@ -35,6 +51,28 @@ export interface X402PaymentRequired {
   }
 }
 
+/**
+ * Thrown when an agent call is aborted (e.g. the evaluation was cancelled)
+ * paymentSubmitted tells whether a signed payment had already been sent to the agent
+ */
+export class AgentCallAbortedError extends Error {
+  constructor(message: string, public paymentSubmitted: boolean) {
+    super(message)
+    this.name = 'AgentCallAbortedError'
+  }
+}
+
+/**
+ * Thrown when an agent call fails
+ * paymentSubmitted tells whether a signed payment had already been sent - retrying would pay again
+ */
+export class AgentCallFailedError extends Error {
+  constructor(message: string, public paymentSubmitted: boolean) {
+    super(message)
+    this.name = 'AgentCallFailedError'
+  }
+}
+
 export class AgentHTTPClient {
   private utils: x402Utils
   private orchestratorPrivateKey: string
@@ -59,18 +97,23 @@ export class AgentHTTPClient {
   /**
    * Call agent with automatic X402 payment handling
    * Follows the client-side pattern from a2a-x402
+   * Aborting the signal cancels the request and prevents any new payment from being signed
+   * Payments are signed by the given signer, e.g. an orchestrator's AA wallet
    */
   async callAgent(
     agent: Agent,
-    request: AgentHTTPRequest
+    request: AgentHTTPRequest,
+    signal?: AbortSignal,
+    signer?: AgentPaymentSigner
   ): Promise<AgentHTTPResponse> {
     const agentUrl = `${this.baseUrl}/api/agents/${agent.id}/chat`
+    let paymentSubmitted = false
 
     console.log(`🤖 Calling agent ${agent.name} at ${agentUrl}`)
 
     // Step 1: Try request without payment
     try {
-      const response = await this.makeRequest(agentUrl, request)
+      const response = await this.makeRequest(agentUrl, request, undefined, signal)
 
       // If successful without payment, return response
       if (response.ok) {
@@ -84,12 +127,16 @@ export class AgentHTTPClient {
         console.log(`💳 Payment required for agent ${agent.name}`)
         const paymentRequiredData: X402PaymentRequired = await response.json()
 
+        // Never sign a payment for a call that has already been aborted
+        signal?.throwIfAborted()
+
         // Step 2: Process payment using x402 protocol
-        const paymentPayload = await this.processX402Payment(paymentRequiredData)
+        const paymentPayload = await this.processX402Payment(paymentRequiredData, signer)
 
         // Step 3: Retry request with payment
         console.log(`🔄 Retrying request with payment...`)
-        const paidResponse = await this.makeRequest(agentUrl, request, paymentPayload)
+        paymentSubmitted = true
+        const paidResponse = await this.makeRequest(agentUrl, request, paymentPayload, signal)
 
         if (paidResponse.ok) {
           const data = await paidResponse.json()
@@ -106,8 +153,15 @@ export class AgentHTTPClient {
       throw new Error(`Agent request failed: ${response.status} - ${errorText}`)
 
     } catch (error) {
+      if (signal?.aborted) {
+        console.log(`🛑 Agent ${agent.name} call aborted${paymentSubmitted ? ' (payment already submitted)' : ''}`)
+        throw new AgentCallAbortedError(`Call to agent ${agent.name} was aborted`, paymentSubmitted)
+      }
       console.error(`❌ Agent ${agent.name} call failed:`, error)
-      throw error
+      throw new AgentCallFailedError(
+        error instanceof Error ? error.message : 'Unknown error',
+        paymentSubmitted
+      )
     }
   }
 
@@ -115,19 +169,25 @@ export class AgentHTTPClient {
    * Process X402 payment following the client-side pattern
    */
   private async processX402Payment(
-    paymentRequired: X402PaymentRequired
+    paymentRequired: X402PaymentRequired,
+    signer?: AgentPaymentSigner
   ): Promise<PaymentPayload> {
     try {
       // Use EVM addresses from environment variables
       const toEvmAddress = paymentRequired.paymentRequired.payToAddress
+      const from = signer || {
+        accountId: this.orchestratorAccountId,
+        evmAddress: this.orchestratorEvmAddress,
+        privateKey: this.orchestratorPrivateKey,
+      }
 
-      console.log('🔑 Signing payment with ORCHESTRATOR_EVM_ADDRESS...')
-      console.log(`   From: ${this.orchestratorAccountId} (${this.orchestratorEvmAddress})`)
+      console.log(`🔑 Signing payment with ${signer ? 'orchestrator AA wallet' : 'ORCHESTRATOR_EVM_ADDRESS'}...`)
+      console.log(`   From: ${from.accountId} (${from.evmAddress})`)
       console.log(`   To: ${toEvmAddress}`)
       console.log(`   Amount: ${paymentRequired.paymentRequired.price}`)
 
       // Create ethers wallet from private key (required by a2a-x402)
-      const wallet = new Wallet(this.orchestratorPrivateKey)
+      const wallet = new Wallet(from.privateKey)
 
       // Convert HBAR amount to tinybars (1 HBAR = 100,000,000 tinybars)
       const hbarAmount = parseFloat(paymentRequired.paymentRequired.maxAmountRequired || '0.025')
@@ -171,7 +231,8 @@ export class AgentHTTPClient {
   private async makeRequest(
     url: string,
     request: AgentHTTPRequest,
-    paymentPayload?: PaymentPayload
+    paymentPayload?: PaymentPayload,
+    signal?: AbortSignal
   ): Promise<Response> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json'
@@ -185,7 +246,8 @@ export class AgentHTTPClient {
     return fetch(url, {
       method: 'POST',
       headers,
-      body: JSON.stringify(request)
+      body: JSON.stringify(request),
+      signal
     })
   }
 
@@ -4,18 +4,114 @@
  */
 
 import { ChatOpenAI } from '@langchain/openai'
-import type { Agent } from '../../types/agent'
-
+import type { Agent, Rubric, PairwisePreference, ReviewContext, DelphiStatistics, ScoreScale } from '../../types/agent'
+import { describeRubric } from '../rubrics/rubric-service.js'
+import {
+  DEFAULT_SCORE_SCALE,
+  describeScale,
+  describeScoreRange,
+  formatScore,
+  formatScoreValue,
+  toInternalScore,
+  toNativeDifference
+} from '../scoring/score-scale.js'
+
+// Scores are on the internal 0-10 scale, whatever scale the judge answered on
 export interface EvaluationResult {
   score: number
   reasoning: string
   confidence: number
   aspects: Record<string, number>
+  strengths: string[]
+  improvements: string[]
+  label?: string // Verdict mode: one of the evaluation's labels
+}
+
+export interface ComparisonResult extends PairwisePreference {
+  reasoning: string
+  confidence: number
 }
 
 export interface DiscussionResult {
   discussion: string
   adjustedScore?: number
+  adjustedAspects?: Record<string, number> // Only the criteria the agent changed
+}
+
+/**
+ * Keep only the per-criterion scores for the given criteria that are scores on the scale,
+ * clamped to its range and converted to the internal 0-10 scale
+ */
+export function sanitizeAspects(
+  aspects: Record<string, unknown> | undefined,
+  criteria: string[],
+  scale: ScoreScale = DEFAULT_SCORE_SCALE
+): Record<string, number> {
+  const sanitized: Record<string, number> = {}
+  for (const criterion of criteria) {
+    const value = toInternalScore(scale, aspects?.[criterion], true)
+    if (value !== undefined) {
+      sanitized[criterion] = value
+    }
+  }
+  return sanitized
+}
+
+/**
+ * A judge's overall score converted to the internal 0-10 scale, clamped to the scale's range
+ * Throws when it is not a score on the scale (e.g. an unknown grade) so the call is retried
+ */
+function sanitizeScore(score: unknown, scale: ScoreScale): number {
+  const value = toInternalScore(scale, score, true)
+  if (value === undefined) {
+    throw new Error(`Invalid score ${JSON.stringify(score)}: expected ${describeScale(scale)}`)
+  }
+  return value
+}
+
+/**
+ * Keep only non-empty strings of a strengths/improvements list, at most five
+ */
+export function sanitizeFeedback(items: unknown): string[] {
+  if (!Array.isArray(items)) return []
+  return items
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map((item) => item.trim())
+    .slice(0, 5)
+}
+
+/**
+ * Match a verdict label against the evaluation's label set, ignoring case and surrounding whitespace
+ * Returns the label as declared, or undefined when it is not in the set
+ */
+export function sanitizeLabel(label: unknown, labels: string[]): string | undefined {
+  if (typeof label !== 'string') return undefined
+  const normalized = label.trim().toLowerCase()
+  return labels.find((candidate) => candidate.toLowerCase() === normalized)
+}
+
+/**
+ * Prompt section presenting earlier reviews to a sequential judge or the chief judge
+ */
+function describeReviews(review: ReviewContext, scale: ScoreScale): string {
+  const reviews = review.reviews
+    .map((peer) => `- ${peer.agentName} (${formatScore(scale, peer.score, 1)}${peer.label ? `, ${peer.label}` : ''}): ${peer.reasoning}`)
+    .join('\n')
+
+  if (review.role === 'chief') {
+    return `You are the CHIEF JUDGE. The panel below has already reviewed this content. Weigh their scores and reasoning against the content itself, then issue the binding final verdict. Your score is final and your reasoning is its justification - say which panel arguments you accept or reject and why.
+
+Panel reviews:
+${reviews}`
+  }
+
+  if (reviews.length === 0) {
+    return 'You are the first judge in a sequential review. Judges after you will read your reasoning, so make it specific.'
+  }
+  return `Judges before you in a sequential review have already scored this content. Read their reasoning, then reach your OWN verdict - say where you agree or disagree with them and why.
+
+Previous reviews:
+${reviews}`
 }
 
 export class OpenAIService {
@@ -36,34 +132,61 @@ export class OpenAIService {
 
   /**
    * Execute agent evaluation using OpenAI
+   * With a review context the agent also sees earlier judges' reviews (sequential workflow)
+   * or reviews the whole panel as chief judge (hierarchical workflow)
+   * With labels the agent also picks a verdict label; the result has no label when it picked none of them
+   * The agent answers on the given scale; scores and review scores passed in are on the internal scale
    */
   async evaluateContent(
     agent: Agent,
     content: string,
-    criteria: string[]
+    criteria: string[],
+    rubric?: Rubric,
+    signal?: AbortSignal,
+    review?: ReviewContext,
+    labels?: string[],
+    scale: ScoreScale = DEFAULT_SCORE_SCALE
   ): Promise<EvaluationResult> {
+    // A rubric defines the criteria; its descriptions and anchors calibrate the scale
+    if (rubric) {
+      criteria = rubric.criteria.map((criterion) => criterion.name)
+    }
+    const rubricGuide = rubric
+      ? `\n\nScore each criterion against this rubric. Anchors describe what a score means - stay consistent with them:\n${describeRubric(rubric, scale)}\n`
+      : ''
+    const reviewGuide = review ? `\n\n${describeReviews(review, scale)}\n` : ''
+    const labelGuide = labels?.length
+      ? `\n\nAlso give your verdict as exactly one of these labels: ${labels.map((label) => `"${label}"`).join(', ')}. Your reasoning is the rationale for the label.\n`
+      : ''
+    const labelField = labels?.length ? `\n  "label": "<one of ${labels.join(' | ')}>",` : ''
+    const range = (low: number, high: number) => describeScoreRange(scale, low, high)
+
     const systemPrompt = `You are ${agent.name}, ${agent.bio || 'an expert evaluator'}.
 Your specialties include: ${agent.capabilities.specialties.join(', ')}.
 
 IMPORTANT: You should have strong opinions based on YOUR specialty. Be critical or generous depending on how well the content matches your area of expertise.
 
-- If the content is HIGHLY RELEVANT to your specialty: Be generous (7-10 range)
-- If the content is SOMEWHAT RELEVANT to your specialty: Be moderate (5-7 range)
-- If the content is NOT RELEVANT to your specialty: Be critical (3-6 range)
-- If the content quality is poor: Be very critical (0-4 range)
+- If the content is HIGHLY RELEVANT to your specialty: Be generous (${range(7, 10)} range)
+- If the content is SOMEWHAT RELEVANT to your specialty: Be moderate (${range(5, 7)} range)
+- If the content is NOT RELEVANT to your specialty: Be critical (${range(3, 6)} range)
+- If the content quality is poor: Be very critical (${range(0, 4)} range)
 
-DO NOT just give average scores around 7-8. Have strong opinions! Your unique perspective is valuable.
+DO NOT just give average scores around ${range(7, 8)}. Have strong opinions! Your unique perspective is valuable.
 
-Evaluate the following content based on these criteria: ${criteria.join(', ')}.
+Evaluate the following content based on these criteria: ${criteria.join(', ')}.${rubricGuide}${reviewGuide}${labelGuide}
+
+Score the content and each aspect as ${describeScale(scale)}.
 
 Respond in JSON format:
 {
-  "score": <number between 0-10>,
+  "score": <${describeScale(scale)}>,${labelField}
   "reasoning": "<your detailed reasoning explaining WHY you scored this way based on YOUR specialty>",
   "confidence": <number between 0-1>,
   "aspects": {
     ${criteria.map(c => `"${c}": <score for this aspect>`).join(',\n    ')}
-  }
+  },
+  "strengths": ["<specific strength of the content>", ...],
+  "improvements": ["<specific, actionable improvement>", ...]
 }`
 
     const userPrompt = `Content to evaluate:\n\n"${content}"\n\nAs ${agent.name} with expertise in ${agent.capabilities.specialties.join(', ')}, provide your HONEST and OPINIONATED evaluation as JSON. Don't be afraid to give low or high scores!`
@@ -72,7 +195,7 @@ Respond in JSON format:
       const response = await this.model.invoke([
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
-      ])
+      ], { signal })
 
       const responseText = response.content.toString()
 
@@ -84,8 +207,12 @@ Respond in JSON format:
 
       const result = JSON.parse(jsonMatch[0]) as EvaluationResult
 
-      // Validate score is in range
-      result.score = Math.max(0, Math.min(10, result.score))
+      // Validate score is on the scale
+      result.score = sanitizeScore(result.score, scale)
+      result.aspects = sanitizeAspects(result.aspects, criteria, scale)
+      result.strengths = sanitizeFeedback(result.strengths)
+      result.improvements = sanitizeFeedback(result.improvements)
+      result.label = labels?.length ? sanitizeLabel(result.label, labels) : undefined
 
       return result
     } catch (error) {
@@ -96,39 +223,51 @@ Respond in JSON format:
 
   /**
    * Generate agent discussion based on peer scores
+   * Scores are passed and returned on the internal scale; the agent sees and answers on the given scale
    */
   async generateDiscussion(
     agent: Agent,
     myScore: number,
-    peerScores: Array<{ agentId: string; agentName: string; score: number }>,
+    peerScores: Array<{ agentId: string; agentName: string; score: number; aspects?: Record<string, number> }>,
     content: string,
-    criteria: string[]
+    criteria: string[],
+    myAspects: Record<string, number> = {},
+    signal?: AbortSignal,
+    scale: ScoreScale = DEFAULT_SCORE_SCALE
   ): Promise<DiscussionResult> {
     const avgPeerScore = peerScores.reduce((sum, p) => sum + p.score, 0) / peerScores.length
-    const diff = myScore - avgPeerScore
+    const diff = toNativeDifference(scale, myScore - avgPeerScore)
+    const threshold = (points: number) => Number(toNativeDifference(scale, points).toFixed(2))
+    const formatAspects = (aspects?: Record<string, number>) => {
+      const entries = Object.entries(aspects || {})
+      return entries.length > 0
+        ? ` (${entries.map(([criterion, score]) => `${criterion}: ${formatScoreValue(scale, score)}`).join(', ')})`
+        : ''
+    }
 
     const systemPrompt = `You are ${agent.name}, ${agent.bio || 'an expert evaluator'}.
 Your specialties include: ${agent.capabilities.specialties.join(', ')}.
 
-You previously scored the content as ${myScore.toFixed(2)}/10.
+You previously scored the content as ${formatScore(scale, myScore)}${formatAspects(myAspects)}.
 
 Other evaluators scored it as:
-${peerScores.map(p => `- ${p.agentName}: ${p.score.toFixed(2)}/10`).join('\n')}
+${peerScores.map(p => `- ${p.agentName}: ${formatScore(scale, p.score)}${formatAspects(p.aspects)}`).join('\n')}
 
-Average peer score: ${avgPeerScore.toFixed(2)}/10
-Your difference from peers: ${diff > 0 ? '+' : ''}${diff.toFixed(2)}
+Average peer score: ${formatScore(scale, avgPeerScore)}
+Your difference from peers: ${diff > 0 ? '+' : ''}${diff.toFixed(2)}${scale.type === 'letter' ? ' grades' : ''}
 
 IMPORTANT: Engage in a meaningful discussion!
-- If you scored MUCH HIGHER than peers (diff > 1.5): Defend your position strongly OR consider if you were too generous
-- If you scored MUCH LOWER than peers (diff < -1.5): Explain your concerns OR consider if you were too harsh
-- If you scored SIMILARLY (abs diff < 1): Either agree with consensus OR provide nuanced perspective
+- If you scored MUCH HIGHER than peers (diff > ${threshold(1.5)}): Defend your position strongly OR consider if you were too generous
+- If you scored MUCH LOWER than peers (diff < -${threshold(1.5)}): Explain your concerns OR consider if you were too harsh
+- If you scored SIMILARLY (abs diff < ${threshold(1)}): Either agree with consensus OR provide nuanced perspective
 
 You can adjust your score if peers make good points, but you can also STAND YOUR GROUND if you believe your expertise justifies your original score.
 
 Respond in JSON format:
 {
   "discussion": "<150+ character discussion explaining your perspective from YOUR specialty's viewpoint>",
-  "adjustedScore": <new score if you want to change it (only if compelling reason), or omit to keep original>
+  "adjustedScore": <new score as ${describeScale(scale)} if you want to change it (only if compelling reason), or omit to keep original>,
+  "adjustedAspects": { "<criterion>": <new score for that criterion> } (only criteria you change, or omit)
 }`
 
     const userPrompt = `Original content:\n\n"${content}"\n\nCriteria: ${criteria.join(', ')}\n\nAs ${agent.name}, provide a thoughtful discussion considering the peer scores. Be specific about aspects related to ${agent.capabilities.specialties.join(', ')}.`
@@ -137,7 +276,7 @@ Respond in JSON format:
       const response = await this.model.invoke([
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
-      ])
+      ], { signal })
 
       const responseText = response.content.toString()
 
@@ -149,10 +288,11 @@ Respond in JSON format:
 
       const result = JSON.parse(jsonMatch[0]) as DiscussionResult
 
-      // Validate adjusted score if provided
+      // Validate adjusted score if provided - anything off the scale keeps the original
       if (result.adjustedScore !== undefined) {
-        result.adjustedScore = Math.max(0, Math.min(10, result.adjustedScore))
+        result.adjustedScore = toInternalScore(scale, result.adjustedScore, true)
       }
+      result.adjustedAspects = sanitizeAspects(result.adjustedAspects, criteria, scale)
 
       return result
     } catch (error) {
@@ -160,6 +300,146 @@ Respond in JSON format:
       throw error
     }
   }
+
+  /**
+   * Delphi round: revise a score against the panel's anonymized median, interquartile range
+   * and rationales - no names or individual scores are shown
+   * The discussion field carries the agent's (possibly revised) rationale
+   * Scores and statistics are on the internal scale; the agent sees and answers on the given scale
+   */
+  async reviseDelphiEstimate(
+    agent: Agent,
+    myScore: number,
+    statistics: DelphiStatistics,
+    rationales: string[],
+    content: string,
+    criteria: string[],
+    myAspects: Record<string, number> = {},
+    signal?: AbortSignal,
+    scale: ScoreScale = DEFAULT_SCORE_SCALE
+  ): Promise<DiscussionResult> {
+    const myAspectsSummary = Object.entries(myAspects)
+      .map(([criterion, score]) => `${criterion}: ${formatScoreValue(scale, score)}`)
+      .join(', ')
+    const position = myScore < statistics.q1
+      ? 'BELOW the interquartile range'
+      : myScore > statistics.q3 ? 'ABOVE the interquartile range' : 'within the interquartile range'
+
+    const systemPrompt = `You are ${agent.name}, ${agent.bio || 'an expert evaluator'}.
+Your specialties include: ${agent.capabilities.specialties.join(', ')}.
+
+This is an anonymous Delphi panel. You previously scored the content as ${formatScore(scale, myScore)}${myAspectsSummary ? ` (${myAspectsSummary})` : ''}.
+
+Panel statistics (${statistics.respondents} judges):
+- Median: ${formatScore(scale, statistics.median)}
+- Interquartile range: ${formatScoreValue(scale, statistics.q1, 2)} - ${formatScoreValue(scale, statistics.q3, 2)}
+Your score is ${position}.
+
+Anonymous rationales from the other judges:
+${rationales.length > 0 ? rationales.map((rationale, i) => `${i + 1}. ${rationale}`).join('\n') : '(none)'}
+
+Reconsider your score in light of these arguments. Revise it if they reveal something you missed; keep it if your own reasoning holds. If your score stays outside the interquartile range, your rationale must say why.
+
+Respond in JSON format:
+{
+  "discussion": "<your rationale for the score you now give, 150+ characters>",
+  "adjustedScore": <your revised score as ${describeScale(scale)}, or omit to keep your score>,
+  "adjustedAspects": { "<criterion>": <new score for that criterion> } (only criteria you change, or omit)
+}`
+
+    const userPrompt = `Original content:\n\n"${content}"\n\nCriteria: ${criteria.join(', ')}\n\nAs ${agent.name}, give your revised estimate and rationale.`
+
+    try {
+      const response = await this.model.invoke([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], { signal })
+
+      const responseText = response.content.toString()
+
+      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
+      if (!jsonMatch) {
+        throw new Error('Failed to parse JSON from OpenAI response')
+      }
+
+      const result = JSON.parse(jsonMatch[0]) as DiscussionResult
+
+      if (result.adjustedScore !== undefined) {
+        result.adjustedScore = toInternalScore(scale, result.adjustedScore, true)
+      }
+      result.adjustedAspects = sanitizeAspects(result.adjustedAspects, criteria, scale)
+
+      return result
+    } catch (error) {
+      console.error(`Error revising Delphi estimate for ${agent.name}:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * Compare two candidates and state a preference with a margin
+   */
+  async comparePair(
+    agent: Agent,
+    prompt: string,
+    candidateA: string,
+    candidateB: string,
+    criteria: string[],
+    signal?: AbortSignal
+  ): Promise<ComparisonResult> {
+    const systemPrompt = `You are ${agent.name}, ${agent.bio || 'an expert evaluator'}.
+Your specialties include: ${agent.capabilities.specialties.join(', ')}.
+
+You will compare two candidate responses, A and B, based on these criteria: ${criteria.join(', ')}.
+Judge the content only - ignore the order the candidates are shown in and their length unless length matters for the task.
+
+Respond in JSON format:
+{
+  "winner": "A" | "B" | "tie",
+  "margin": <number between 0-1: 0.2 = slightly better, 0.5 = clearly better, 1 = decisively better; 0 for a tie>,
+  "reasoning": "<why the winner is better, citing specific differences>",
+  "confidence": <number between 0-1>
+}`
+
+    const userPrompt = `${prompt ? `Task:\n\n"${prompt}"\n\n` : ''}Candidate A:\n\n"${candidateA}"\n\nCandidate B:\n\n"${candidateB}"\n\nAs ${agent.name}, which candidate is better? Respond as JSON.`
+
+    try {
+      const response = await this.model.invoke([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ], { signal })
+
+      const responseText = response.content.toString()
+
+      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
+      if (!jsonMatch) {
+        throw new Error('Failed to parse JSON from OpenAI response')
+      }
+
+      const result = JSON.parse(jsonMatch[0]) as ComparisonResult
+      return sanitizePreference(result)
+    } catch (error) {
+      console.error(`Error comparing candidates with ${agent.name}:`, error)
+      throw error
+    }
+  }
+}
+
+/**
+ * Validate a judge's preference: winner must be A, B or tie, margin is clamped to 0-1 (0 for ties)
+ */
+export function sanitizePreference<T extends PairwisePreference>(preference: T): T {
+  const winner = String(preference?.winner).toUpperCase()
+  if (winner !== 'A' && winner !== 'B' && winner !== 'TIE') {
+    throw new Error(`Invalid comparison winner: ${preference?.winner}`)
+  }
+  const margin = Number(preference.margin)
+
+  return {
+    ...preference,
+    winner: winner === 'TIE' ? 'tie' : winner,
+    margin: winner === 'TIE' || !Number.isFinite(margin) ? 0 : Math.max(0, Math.min(1, margin)),
+  }
 }
 
 // Singleton instance
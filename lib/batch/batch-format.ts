@@ -0,0 +1,200 @@
+/**
+ * Batch Format
+ * Parses batch uploads (JSON array, JSONL, CSV) and formats batch results for download
+ */
+
+import type { BatchItem, BatchItemInput } from '../../types/agent'
+
+export type BatchFileFormat = 'json' | 'jsonl' | 'csv'
+
+/**
+ * Thrown when a batch upload cannot be parsed
+ */
+export class BatchParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BatchParseError'
+  }
+}
+
+/**
+ * Detect the upload format from the file name, falling back to the mimetype
+ */
+export function detectBatchFormat(filename?: string, mimetype?: string): BatchFileFormat | undefined {
+  const extension = filename?.split('.').pop()?.toLowerCase()
+  if (extension === 'csv' || mimetype === 'text/csv') return 'csv'
+  if (extension === 'jsonl' || extension === 'ndjson' || mimetype === 'application/x-ndjson') return 'jsonl'
+  if (extension === 'json' || mimetype === 'application/json') return 'json'
+  return undefined
+}
+
+/**
+ * Parse batch items
+ * JSON/JSONL entries are either a content string or { id?, content, metadata? };
+ * CSV needs a header row with a `content` column, an optional `id` column, and
+ * any other columns become metadata
+ */
+export function parseBatchItems(text: string, format: BatchFileFormat): BatchItemInput[] {
+  switch (format) {
+    case 'json': {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(text)
+      } catch (error) {
+        throw new BatchParseError(`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`)
+      }
+      if (!Array.isArray(parsed)) {
+        throw new BatchParseError('JSON upload must be an array of items')
+      }
+      return parsed.map((entry, index) => toBatchItem(entry, `item ${index}`))
+    }
+
+    case 'jsonl':
+      return text
+        .split(/\r?\n/)
+        .map((line, lineIndex) => ({ line: line.trim(), lineNumber: lineIndex + 1 }))
+        .filter(({ line }) => line.length > 0)
+        .map(({ line, lineNumber }) => {
+          try {
+            return toBatchItem(JSON.parse(line), `line ${lineNumber}`)
+          } catch (error) {
+            if (error instanceof BatchParseError) throw error
+            throw new BatchParseError(`Invalid JSON on line ${lineNumber}`)
+          }
+        })
+
+    case 'csv': {
+      const [header, ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ''))
+      if (!header) return []
+
+      const columns = header.map((column) => column.trim())
+      const contentIndex = columns.indexOf('content')
+      if (contentIndex === -1) {
+        throw new BatchParseError('CSV upload needs a "content" column')
+      }
+      const idIndex = columns.indexOf('id')
+
+      return rows.map((row, rowIndex) => {
+        const metadata: Record<string, string> = {}
+        columns.forEach((column, index) => {
+          if (index !== contentIndex && index !== idIndex && row[index] !== undefined) {
+            metadata[column] = row[index]
+          }
+        })
+        return toBatchItem({
+          id: idIndex === -1 ? undefined : row[idIndex],
+          content: row[contentIndex],
+          ...(Object.keys(metadata).length > 0 && { metadata }),
+        }, `row ${rowIndex + 2}`)
+      })
+    }
+  }
+}
+
+/**
+ * Format batch results for download
+ * CSV gets one column per criterion
+ */
+export function formatBatchResults(items: BatchItem[], format: BatchFileFormat): string {
+  const rows = items.map((item) => ({
+    index: item.index,
+    id: item.externalId,
+    status: item.status,
+    finalScore: item.finalScore,
+    confidence: item.confidence,
+    criteriaScores: item.criteriaScores,
+    cost: item.cost,
+    evaluationId: item.evaluationId,
+    error: item.error,
+    metadata: item.metadata,
+  }))
+
+  if (format === 'json') return JSON.stringify(rows, null, 2)
+  if (format === 'jsonl') return rows.map((row) => JSON.stringify(row)).join('\n') + '\n'
+
+  const criteria = Array.from(new Set(items.flatMap((item) => Object.keys(item.criteriaScores || {}))))
+  const header = ['index', 'id', 'status', 'finalScore', 'confidence', ...criteria, 'cost', 'evaluationId', 'error']
+  const lines = rows.map((row) => [
+    row.index,
+    row.id,
+    row.status,
+    row.finalScore,
+    row.confidence,
+    ...criteria.map((criterion) => row.criteriaScores?.[criterion]),
+    row.cost,
+    row.evaluationId,
+    row.error,
+  ].map(csvCell).join(','))
+
+  return [header.map(csvCell).join(','), ...lines].join('\n') + '\n'
+}
+
+function toBatchItem(entry: unknown, location: string): BatchItemInput {
+  if (typeof entry === 'string') {
+    entry = { content: entry }
+  }
+  const item = entry as Partial<BatchItemInput> | null
+  if (!item || typeof item.content !== 'string' || item.content.trim().length === 0) {
+    throw new BatchParseError(`Missing content in ${location}`)
+  }
+
+  return {
+    content: item.content,
+    ...(item.id !== undefined && item.id !== null && item.id !== '' && { id: String(item.id) }),
+    ...(item.metadata && typeof item.metadata === 'object' && { metadata: item.metadata }),
+  }
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new BatchParseError('Unterminated quoted field in CSV')
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,414 @@
+/**
+ * Batch Job Service
+ * Scores many submissions with one panel and config, running a bounded number of
+ * evaluations at a time and keeping the whole batch within a single budget
+ */
+
+import { randomUUID } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import type { BatchItem as BatchItemRow, BatchJob as BatchJobRow } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import { loadPanel, estimatePanelCost } from '../agents/agent-panel'
+import { getRubricService } from '../rubrics/rubric-service'
+import { getEvaluationStore } from '../evaluations/evaluation-store-service'
+import { getOrchestrator, EvaluationCancelledError } from '../hedera/multi-agent-orchestrator'
+import type {
+  Agent,
+  BatchItem,
+  BatchItemInput,
+  BatchItemStatus,
+  BatchJob,
+  BatchJobStatus,
+  OrchestratorConfig,
+  Rubric
+} from '../../types/agent'
+
+export const MAX_BATCH_ITEMS = 1000
+export const MAX_BATCH_CONCURRENCY = 10
+const DEFAULT_BATCH_CONCURRENCY = 2
+
+const BATCH_ITEM_STATUSES: BatchItemStatus[] = ['pending', 'running', 'completed', 'failed', 'skipped', 'cancelled']
+
+export interface CreateBatchJobInput {
+  items: BatchItemInput[]
+  agentIds: string[]
+  config: OrchestratorConfig
+  criteria?: string[]
+  rubricId?: string
+  concurrency?: number
+  maxCost?: number
+  requestedBy?: string
+}
+
+/**
+ * Thrown when a batch job definition is invalid
+ */
+export class BatchValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BatchValidationError'
+  }
+}
+
+/**
+ * Thrown when the batch cost estimate is above its budget cap
+ */
+export class BatchBudgetExceededError extends Error {
+  constructor(public estimatedCost: number, public maxCost: number) {
+    super(`Estimated batch cost ${estimatedCost.toFixed(4)} HBAR exceeds the cap of ${maxCost} HBAR`)
+    this.name = 'BatchBudgetExceededError'
+  }
+}
+
+// State of a batch running in this process
+interface BatchRun {
+  cancelled: boolean
+  running: Set<string> // Evaluation ids in flight
+}
+
+export class BatchJobService {
+  private db: PrismaClient
+  private runs = new Map<string, BatchRun>()
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Create a batch job and start running it in the background
+   */
+  async createJob(input: CreateBatchJobInput): Promise<BatchJob> {
+    const { items } = input
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BatchValidationError('items must be a non-empty array')
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      throw new BatchValidationError(`A batch can hold at most ${MAX_BATCH_ITEMS} items`)
+    }
+    if (items.some((item) => typeof item.content !== 'string' || item.content.trim().length === 0)) {
+      throw new BatchValidationError('Every item needs non-empty content')
+    }
+
+    const concurrency = input.concurrency ?? DEFAULT_BATCH_CONCURRENCY
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      throw new BatchValidationError(`concurrency must be an integer between 1 and ${MAX_BATCH_CONCURRENCY}`)
+    }
+    if (input.maxCost !== undefined && !(input.maxCost > 0)) {
+      throw new BatchValidationError('maxCost must be a positive amount of HBAR')
+    }
+
+    if (!input.agentIds?.length) {
+      throw new BatchValidationError('agentIds must list at least one agent')
+    }
+    const { agents, missing } = await loadPanel(input.agentIds)
+    if (missing.length > 0) {
+      throw new BatchValidationError(`Unknown agent(s): ${missing.join(', ')}`)
+    }
+
+    let rubric: Rubric | undefined
+    if (input.rubricId) {
+      rubric = (await getRubricService().getRubric(input.rubricId)) || undefined
+      if (!rubric) {
+        throw new BatchValidationError(`Rubric ${input.rubricId} not found`)
+      }
+    }
+
+    const estimatedCost = estimatePanelCost(agents) * items.length
+    if (input.maxCost !== undefined && estimatedCost > input.maxCost) {
+      throw new BatchBudgetExceededError(estimatedCost, input.maxCost)
+    }
+
+    const jobId = `batch_${randomUUID()}`
+    await this.db.batchJob.create({
+      data: {
+        id: jobId,
+        status: 'running',
+        config: JSON.stringify(input.config),
+        agentIds: JSON.stringify(agents.map((agent) => agent.id)),
+        criteria: input.criteria ? JSON.stringify(input.criteria) : null,
+        rubricId: rubric?.id || null,
+        requestedBy: input.requestedBy || null,
+        concurrency,
+        estimatedCost,
+        maxCost: input.maxCost ?? null,
+        totalItems: items.length,
+      },
+    })
+    await this.db.batchItem.createMany({
+      data: items.map((item, index) => ({
+        batchId: jobId,
+        index,
+        externalId: item.id || null,
+        content: item.content,
+        metadata: item.metadata ? JSON.stringify(item.metadata) : null,
+      })),
+    })
+
+    console.log(`📦 Batch ${jobId} created: ${items.length} items, ${agents.length} agents, estimate ${estimatedCost.toFixed(4)} HBAR`)
+
+    this.runJob(jobId, agents, rubric).catch((error) => {
+      console.error(`❌ Batch ${jobId} failed:`, error)
+    })
+
+    return (await this.getJob(jobId))!
+  }
+
+  /**
+   * Get a batch job with its per-status item counts
+   */
+  async getJob(jobId: string): Promise<BatchJob | null> {
+    const row = await this.db.batchJob.findUnique({ where: { id: jobId } })
+    if (!row) return null
+
+    const groups = await this.db.batchItem.groupBy({
+      by: ['status'],
+      where: { batchId: jobId },
+      _count: { _all: true },
+    })
+    return this.toBatchJob(row, groups.map((group) => ({ status: group.status, count: group._count._all })))
+  }
+
+  /**
+   * List batch jobs, most recent first
+   */
+  async listJobs(limit: number = 50): Promise<BatchJob[]> {
+    const rows = await this.db.batchJob.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+    const groups = await this.db.batchItem.groupBy({
+      by: ['batchId', 'status'],
+      where: { batchId: { in: rows.map((row) => row.id) } },
+      _count: { _all: true },
+    })
+
+    return rows.map((row) =>
+      this.toBatchJob(
+        row,
+        groups
+          .filter((group) => group.batchId === row.id)
+          .map((group) => ({ status: group.status, count: group._count._all }))
+      )
+    )
+  }
+
+  /**
+   * Items of a batch job in input order, optionally filtered by status
+   */
+  async getItems(jobId: string, status?: BatchItemStatus): Promise<BatchItem[]> {
+    const rows = await this.db.batchItem.findMany({
+      where: { batchId: jobId, ...(status && { status }) },
+      orderBy: { index: 'asc' },
+    })
+    return rows.map((row) => this.toBatchItem(row))
+  }
+
+  /**
+   * Cancel a batch running in this process
+   * Pending items are cancelled and running evaluations aborted
+   * Returns false when the batch is not running here
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    const run = this.runs.get(jobId)
+    if (!run) return false
+
+    run.cancelled = true
+    await this.db.batchItem.updateMany({
+      where: { batchId: jobId, status: 'pending' },
+      data: { status: 'cancelled', completedAt: new Date() },
+    })
+    await Promise.all(
+      Array.from(run.running).map((evaluationId) =>
+        getOrchestrator().cancelEvaluation(evaluationId, 'Batch cancelled')
+      )
+    )
+    return true
+  }
+
+  /**
+   * Mark batches cut off by a shutdown as interrupted
+   * Called once at startup, before any batch can run
+   */
+  async markInterruptedJobs(): Promise<string[]> {
+    const stale = await this.db.batchJob.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    })
+    if (stale.length === 0) return []
+
+    const ids = stale.map((job) => job.id)
+    await this.db.batchItem.updateMany({
+      where: { batchId: { in: ids }, status: { in: ['pending', 'running'] } },
+      data: { status: 'cancelled', error: 'Server stopped before the batch finished', completedAt: new Date() },
+    })
+    await this.db.batchJob.updateMany({
+      where: { id: { in: ids } },
+      data: { status: 'interrupted', completedAt: new Date() },
+    })
+
+    return ids
+  }
+
+  /**
+   * Run the pending items of a batch with at most `concurrency` evaluations in flight
+   * Before each item starts, the money already spent plus the worst case of the
+   * items in flight must leave room for it under the cap; otherwise it is skipped
+   */
+  private async runJob(jobId: string, agents: Agent[], rubric?: Rubric): Promise<void> {
+    const run: BatchRun = { cancelled: false, running: new Set() }
+    this.runs.set(jobId, run)
+
+    try {
+      const job = await this.db.batchJob.findUniqueOrThrow({ where: { id: jobId } })
+      const config: OrchestratorConfig = JSON.parse(job.config)
+      const criteria: string[] | undefined = rubric
+        ? rubric.criteria.map((criterion) => criterion.name)
+        : job.criteria ? JSON.parse(job.criteria) : undefined
+      const itemCost = estimatePanelCost(agents)
+      const feeByAgent = new Map(agents.map((agent) => [agent.id, agent.paymentConfig.pricePerJudgment]))
+
+      const pending = await this.db.batchItem.findMany({
+        where: { batchId: jobId, status: 'pending' },
+        orderBy: { index: 'asc' },
+      })
+
+      let spent = job.spentCost
+      let reserved = 0
+      let next = 0
+
+      const worker = async () => {
+        while (!run.cancelled && next < pending.length) {
+          const item = pending[next++]
+
+          if (job.maxCost !== null && spent + reserved + itemCost > job.maxCost) {
+            await this.db.batchItem.update({
+              where: { id: item.id },
+              data: { status: 'skipped', error: 'Batch budget cap reached', completedAt: new Date() },
+            })
+            continue
+          }
+
+          const evaluationId = `${jobId}_${item.index}`
+          reserved += itemCost
+          run.running.add(evaluationId)
+          await this.db.batchItem.update({
+            where: { id: item.id },
+            data: { status: 'running', evaluationId, startedAt: new Date() },
+          })
+
+          let result: { status: BatchItemStatus; finalScore?: number; confidence?: number; criteriaScores?: string; error?: string }
+          try {
+            const output = await getOrchestrator().executeEvaluation({
+              id: evaluationId,
+              content: item.content,
+              criteria,
+              rubricId: rubric?.id,
+              rubric,
+              selectedAgents: agents,
+              requestedBy: job.requestedBy || '',
+              createdAt: Date.now(),
+              status: 'pending',
+            }, config)
+
+            const criteriaScores = output.consensus.criteria?.map((c) => [c.criterion, c.finalScore])
+            result = {
+              status: 'completed',
+              finalScore: output.consensus.finalScore,
+              confidence: output.consensus.confidence,
+              ...(criteriaScores?.length && { criteriaScores: JSON.stringify(Object.fromEntries(criteriaScores)) }),
+            }
+          } catch (error) {
+            result = {
+              status: error instanceof EvaluationCancelledError ? 'cancelled' : 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }
+          }
+
+          // Charge what was actually paid - failed agents may not have been paid at all
+          const evaluation = await getEvaluationStore().getEvaluation(evaluationId)
+          const cost = (evaluation?.payments || []).reduce(
+            (sum, payment) => sum + (feeByAgent.get(payment.agentId) ?? 0),
+            0
+          )
+          run.running.delete(evaluationId)
+          reserved -= itemCost
+          spent += cost
+
+          await this.db.batchItem.update({
+            where: { id: item.id },
+            data: { ...result, cost, completedAt: new Date() },
+          })
+          await this.db.batchJob.update({
+            where: { id: jobId },
+            data: { spentCost: spent },
+          })
+        }
+      }
+
+      await Promise.all(
+        Array.from({ length: Math.min(job.concurrency, pending.length) }, () => worker())
+      )
+
+      const status: BatchJobStatus = run.cancelled ? 'cancelled' : 'completed'
+      await this.db.batchJob.update({
+        where: { id: jobId },
+        data: { status, completedAt: new Date() },
+      })
+      console.log(`📦 Batch ${jobId} ${run.cancelled ? 'cancelled' : 'completed'} (spent ${spent.toFixed(4)} HBAR)`)
+    } finally {
+      this.runs.delete(jobId)
+    }
+  }
+
+  private toBatchJob(row: BatchJobRow, groups: Array<{ status: string; count: number }>): BatchJob {
+    const counts = Object.fromEntries(BATCH_ITEM_STATUSES.map((status) => [status, 0])) as Record<BatchItemStatus, number>
+    groups.forEach((group) => {
+      counts[group.status as BatchItemStatus] = group.count
+    })
+
+    return {
+      id: row.id,
+      status: row.status as BatchJobStatus,
+      concurrency: row.concurrency,
+      agentIds: JSON.parse(row.agentIds),
+      criteria: row.criteria ? JSON.parse(row.criteria) : undefined,
+      rubricId: row.rubricId || undefined,
+      config: JSON.parse(row.config),
+      estimatedCost: row.estimatedCost,
+      maxCost: row.maxCost ?? undefined,
+      spentCost: row.spentCost,
+      totalItems: row.totalItems,
+      counts,
+      requestedBy: row.requestedBy || undefined,
+      createdAt: row.createdAt.getTime(),
+      completedAt: row.completedAt?.getTime(),
+    }
+  }
+
+  private toBatchItem(row: BatchItemRow): BatchItem {
+    return {
+      index: row.index,
+      externalId: row.externalId || undefined,
+      status: row.status as BatchItemStatus,
+      evaluationId: row.evaluationId || undefined,
+      finalScore: row.finalScore ?? undefined,
+      confidence: row.confidence ?? undefined,
+      criteriaScores: row.criteriaScores ? JSON.parse(row.criteriaScores) : undefined,
+      cost: row.cost ?? undefined,
+      error: row.error || undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      startedAt: row.startedAt?.getTime(),
+      completedAt: row.completedAt?.getTime(),
+    }
+  }
+}
+
+// Singleton instance
+let batchJobService: BatchJobService | null = null
+
+export function getBatchJobService(): BatchJobService {
+  if (!batchJobService) {
+    batchJobService = new BatchJobService()
+  }
+  return batchJobService
+}
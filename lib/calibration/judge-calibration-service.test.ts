@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { db, getEvaluation } = vi.hoisted(() => ({
+  db: {
+    evaluation: { findUnique: vi.fn() },
+    judgeCalibrationSample: { deleteMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+  getEvaluation: vi.fn(),
+}))
+
+vi.mock('../database.js', () => ({ getDatabase: () => db }))
+vi.mock('../evaluations/evaluation-store-service.js', () => ({ getEvaluationStore: () => ({ getEvaluation }) }))
+
+const { JudgeCalibrationService, CalibrationFeedbackError } = await import('./judge-calibration-service')
+
+const REQUESTER = '0xAbC0000000000000000000000000000000000001'
+
+describe('JudgeCalibrationService.recordFeedback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    getEvaluation.mockResolvedValue({
+      progress: { status: 'completed' },
+      output: { consensus: { finalScore: 6, individualScores: { a: 8, b: 4 } } },
+    })
+    db.evaluation.findUnique.mockResolvedValue({ requestedBy: REQUESTER })
+  })
+
+  it('replaces the requester\'s earlier feedback with the new samples', async () => {
+    const samples = await new JudgeCalibrationService().recordFeedback('eval-1', 7, REQUESTER.toLowerCase())
+
+    expect(samples.map((sample) => [sample.agentId, sample.deviation])).toEqual([['a', 1], ['b', 3]])
+    expect(db.judgeCalibrationSample.deleteMany).toHaveBeenCalledWith({
+      where: { evaluationId: 'eval-1', source: 'feedback', submittedBy: REQUESTER },
+    })
+    expect(db.$transaction).toHaveBeenCalledTimes(1)
+  })
+
+  it('only takes feedback from the evaluation\'s requester', async () => {
+    const feedback = new JudgeCalibrationService().recordFeedback('eval-1', 7, '0x0000000000000000000000000000000000000002')
+
+    await expect(feedback).rejects.toBeInstanceOf(CalibrationFeedbackError)
+    await expect(feedback).rejects.toMatchObject({ statusCode: 403 })
+    expect(db.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('requires submittedBy', async () => {
+    await expect(new JudgeCalibrationService().recordFeedback('eval-1', 7, '')).rejects.toMatchObject({ statusCode: 400 })
+  })
+})
+
+describe('JudgeCalibrationService bias profile', () => {
+  const now = Date.now()
+  const history = (pairs: Array<[number, number]>) => pairs.map(([score, reference]) => ({
+    agentId: 'a',
+    evaluationId: 'eval-1',
+    source: 'consensus' as const,
+    score,
+    reference,
+    deviation: Math.abs(score - reference),
+    recordedAt: now,
+  }))
+
+  it('shrinks a lenient judge\'s offset toward 0 while its history is short', () => {
+    const profile = new JudgeCalibrationService()['profileBias']('a', history([[6, 4], [7, 5], [8, 6], [9, 7], [10, 8]]), now)
+
+    // Five samples against five prior samples of no bias halve the offset of 2
+    expect(profile).toEqual({ agentId: 'a', offset: 1, spread: 1, meanScore: 8, effectiveSamples: 5 })
+  })
+
+  it('caps the spread of a judge that scores too narrowly', () => {
+    const profile = new JudgeCalibrationService()['profileBias']('a', history([[5, 2], [6, 6], [7, 10]]), now)
+
+    // The ratio of 4 is capped at 2, then shrunk toward 1 by the prior
+    expect(profile.offset).toBe(0)
+    expect(profile.spread).toBeCloseTo((3 * 2 + 5) / 8)
+  })
+
+  it('makes no correction without history', () => {
+    expect(new JudgeCalibrationService()['profileBias']('a', [], now))
+      .toEqual({ agentId: 'a', offset: 0, spread: 1, meanScore: null, effectiveSamples: 0 })
+  })
+})
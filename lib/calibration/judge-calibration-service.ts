@@ -0,0 +1,300 @@
+/**
+ * Judge Calibration Service
+ * Tracks how far each judge's scores land from the final consensus and from the score
+ * users give after the fact, and turns that history into a learned weight per judge.
+ * Older samples decay, so a judge that improves (or drifts) is re-weighted over time.
+ * The same history gives each judge's bias profile - how harsh or lenient it is - for bias correction
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import { getEvaluationStore } from '../evaluations/evaluation-store-service.js'
+import { DEFAULT_SCORE_SCALE, describeScale, toInternalScore } from '../scoring/score-scale.js'
+import type {
+  CalibrationSample,
+  CalibrationSource,
+  ConsensusResult,
+  JudgeBiasProfile,
+  JudgeCalibration,
+  NativeScore
+} from '../../types/agent'
+
+// A sample's influence halves every this many days
+const CALIBRATION_HALF_LIFE_DAYS = parseFloat(process.env.CALIBRATION_HALF_LIFE_DAYS || '30')
+// User feedback is ground truth, consensus only tells how far a judge is from its peers
+const FEEDBACK_SAMPLE_WEIGHT = 3
+// A judge counts as PRIOR_DEVIATION points off for this many samples' worth until it has a history
+const PRIOR_SAMPLES = 5
+const PRIOR_DEVIATION = 1
+// Weight is exp(-deviation / DEVIATION_SCALE): 1 point off is 0.61, 2 points 0.37
+const DEVIATION_SCALE = 2
+// Only a judge's most recent samples are read - older ones have decayed to next to nothing
+const MAX_SAMPLES_PER_JUDGE = 500
+// Bias correction rescales a judge's spread by at most this factor either way
+const MAX_SPREAD_FACTOR = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Thrown when feedback cannot be recorded for an evaluation
+ */
+export class CalibrationFeedbackError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message)
+    this.name = 'CalibrationFeedbackError'
+  }
+}
+
+export class JudgeCalibrationService {
+  private db: PrismaClient
+  private evaluationStore = getEvaluationStore()
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Record each judge's deviation from the final consensus of a completed evaluation
+   * Replaces the consensus samples of an earlier run of the same evaluation
+   */
+  async recordConsensus(evaluationId: string, consensus: ConsensusResult): Promise<CalibrationSample[]> {
+    const recordedAt = Date.now()
+    const samples = Object.entries(this.judgeScores(consensus)).map(([agentId, score]) =>
+      this.toSample(agentId, evaluationId, 'consensus', score, consensus.finalScore, recordedAt)
+    )
+
+    await this.db.$transaction([
+      this.db.judgeCalibrationSample.deleteMany({ where: { evaluationId, source: 'consensus' } }),
+      this.db.judgeCalibrationSample.createMany({
+        data: samples.map((sample) => this.toRow(sample)),
+      }),
+    ])
+
+    return samples
+  }
+
+  /**
+   * Record each judge's deviation from the score a user gave a completed evaluation
+   * The score is given on the evaluation's scale; samples are kept on the internal 0-10 scale.
+   * Only the evaluation's requester gives feedback, and new feedback replaces their earlier one
+   */
+  async recordFeedback(evaluationId: string, score: NativeScore, submittedBy: string): Promise<CalibrationSample[]> {
+    if (typeof submittedBy !== 'string' || !submittedBy) {
+      throw new CalibrationFeedbackError('submittedBy is required')
+    }
+
+    const evaluation = await this.evaluationStore.getEvaluation(evaluationId)
+    if (!evaluation) {
+      throw new CalibrationFeedbackError(`Evaluation ${evaluationId} not found`, 404)
+    }
+    const record = await this.db.evaluation.findUnique({
+      where: { id: evaluationId },
+      select: { requestedBy: true },
+    })
+    const requester = record?.requestedBy
+    if (!requester || requester.toLowerCase() !== submittedBy.toLowerCase()) {
+      throw new CalibrationFeedbackError('Only the requester of the evaluation can give feedback on it', 403)
+    }
+    if (!evaluation.output) {
+      throw new CalibrationFeedbackError(
+        `Only completed evaluations take feedback (status: ${evaluation.progress.status})`,
+        409
+      )
+    }
+
+    const scale = evaluation.output.consensus.native?.scale ?? DEFAULT_SCORE_SCALE
+    const reference = toInternalScore(scale, score)
+    if (reference === undefined) {
+      throw new CalibrationFeedbackError(`score must be ${describeScale(scale)}`)
+    }
+
+    const recordedAt = Date.now()
+    const samples = Object.entries(this.judgeScores(evaluation.output.consensus)).map(([agentId, judgeScore]) =>
+      this.toSample(agentId, evaluationId, 'feedback', judgeScore, reference, recordedAt, requester)
+    )
+    await this.db.$transaction([
+      this.db.judgeCalibrationSample.deleteMany({
+        where: { evaluationId, source: 'feedback', submittedBy: requester },
+      }),
+      this.db.judgeCalibrationSample.createMany({
+        data: samples.map((sample) => this.toRow(sample)),
+      }),
+    ])
+
+    return samples
+  }
+
+  /**
+   * Calibration of each judge from its decayed sample history
+   */
+  async getCalibrations(agentIds: string[]): Promise<Record<string, JudgeCalibration>> {
+    const now = Date.now()
+    const entries = await Promise.all(agentIds.map(async (agentId) => {
+      const samples = await this.getHistory(agentId, MAX_SAMPLES_PER_JUDGE)
+      return [agentId, this.calibrate(agentId, samples, now)] as const
+    }))
+    return Object.fromEntries(entries)
+  }
+
+  /**
+   * Learned weight of each judge, for weighted_average with weighting: 'calibrated'
+   */
+  async getCalibratedWeights(agentIds: string[]): Promise<Record<string, number>> {
+    const calibrations = await this.getCalibrations(agentIds)
+    return Object.fromEntries(Object.values(calibrations).map((calibration) => [calibration.agentId, calibration.weight]))
+  }
+
+  /**
+   * How harsh or lenient each judge is from its decayed sample history
+   * Samples of excludeEvaluationId are left out, so an evaluation is not corrected against itself
+   */
+  async getBiasProfiles(agentIds: string[], excludeEvaluationId?: string): Promise<Record<string, JudgeBiasProfile>> {
+    const now = Date.now()
+    const entries = await Promise.all(agentIds.map(async (agentId) => {
+      const samples = await this.getHistory(agentId, MAX_SAMPLES_PER_JUDGE, excludeEvaluationId)
+      return [agentId, this.profileBias(agentId, samples, now)] as const
+    }))
+    return Object.fromEntries(entries)
+  }
+
+  /**
+   * A judge's samples, most recent first
+   */
+  async getHistory(agentId: string, limit: number = 100, excludeEvaluationId?: string): Promise<CalibrationSample[]> {
+    const rows = await this.db.judgeCalibrationSample.findMany({
+      where: { agentId, ...(excludeEvaluationId && { evaluationId: { not: excludeEvaluationId } }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return rows.map((row) => ({
+      agentId: row.agentId,
+      evaluationId: row.evaluationId,
+      source: row.source as CalibrationSource,
+      score: row.score,
+      reference: row.reference,
+      deviation: row.deviation,
+      ...(row.submittedBy && { submittedBy: row.submittedBy }),
+      recordedAt: row.createdAt.getTime(),
+    }))
+  }
+
+  /**
+   * Decayed mean deviation, shrunk toward PRIOR_DEVIATION while the history is short, mapped to a 0-1 weight
+   */
+  private calibrate(agentId: string, samples: CalibrationSample[], now: number): JudgeCalibration {
+    let effectiveSamples = 0
+    let weightedDeviation = 0
+    samples.forEach((sample) => {
+      const weight = this.sampleWeight(sample, now)
+      effectiveSamples += weight
+      weightedDeviation += weight * sample.deviation
+    })
+
+    const shrunkDeviation = (weightedDeviation + PRIOR_SAMPLES * PRIOR_DEVIATION) / (effectiveSamples + PRIOR_SAMPLES)
+
+    return {
+      agentId,
+      weight: Math.exp(-shrunkDeviation / DEVIATION_SCALE),
+      meanDeviation: effectiveSamples > 0 ? weightedDeviation / effectiveSamples : null,
+      effectiveSamples,
+      consensusSamples: samples.filter((sample) => sample.source === 'consensus').length,
+      feedbackSamples: samples.filter((sample) => sample.source === 'feedback').length,
+      ...(samples.length > 0 && { lastSampleAt: samples[0].recordedAt }),
+    }
+  }
+
+  /**
+   * Decayed offset from the reference scores and ratio of the reference to the judge's standard deviation,
+   * both shrunk toward no correction while the history is short
+   */
+  private profileBias(agentId: string, samples: CalibrationSample[], now: number): JudgeBiasProfile {
+    const weights = samples.map((sample) => this.sampleWeight(sample, now))
+    const effectiveSamples = weights.reduce((a, b) => a + b, 0)
+    if (effectiveSamples === 0) {
+      return { agentId, offset: 0, spread: 1, meanScore: null, effectiveSamples: 0 }
+    }
+
+    const mean = (value: (sample: CalibrationSample) => number) =>
+      samples.reduce((sum, sample, i) => sum + weights[i] * value(sample), 0) / effectiveSamples
+    const meanScore = mean((sample) => sample.score)
+    const meanReference = mean((sample) => sample.reference)
+    const scoreVariance = mean((sample) => Math.pow(sample.score - meanScore, 2))
+    const referenceVariance = mean((sample) => Math.pow(sample.reference - meanReference, 2))
+
+    // A judge that always gives the same score has no spread to rescale
+    const ratio = scoreVariance > 0
+      ? Math.max(1 / MAX_SPREAD_FACTOR, Math.min(MAX_SPREAD_FACTOR, Math.sqrt(referenceVariance / scoreVariance)))
+      : 1
+    const shrink = (value: number, prior: number) =>
+      (effectiveSamples * value + PRIOR_SAMPLES * prior) / (effectiveSamples + PRIOR_SAMPLES)
+
+    return {
+      agentId,
+      offset: shrink(meanScore - meanReference, 0),
+      spread: shrink(ratio, 1),
+      meanScore,
+      effectiveSamples,
+    }
+  }
+
+  /**
+   * Decayed weight of a sample - feedback counts FEEDBACK_SAMPLE_WEIGHT times
+   */
+  private sampleWeight(sample: CalibrationSample, now: number): number {
+    const ageDays = Math.max(0, now - sample.recordedAt) / DAY_MS
+    return Math.pow(0.5, ageDays / CALIBRATION_HALF_LIFE_DAYS) *
+      (sample.source === 'feedback' ? FEEDBACK_SAMPLE_WEIGHT : 1)
+  }
+
+  /**
+   * Judges' own scores - before bias correction, so the history measures the bias being corrected
+   */
+  private judgeScores(consensus: ConsensusResult): Record<string, number> {
+    return consensus.biasCorrection?.rawScores ?? consensus.individualScores
+  }
+
+  private toSample(
+    agentId: string,
+    evaluationId: string,
+    source: CalibrationSource,
+    score: number,
+    reference: number,
+    recordedAt: number,
+    submittedBy?: string
+  ): CalibrationSample {
+    return {
+      agentId,
+      evaluationId,
+      source,
+      score,
+      reference,
+      deviation: Math.abs(score - reference),
+      ...(submittedBy && { submittedBy }),
+      recordedAt,
+    }
+  }
+
+  private toRow(sample: CalibrationSample) {
+    return {
+      agentId: sample.agentId,
+      evaluationId: sample.evaluationId,
+      source: sample.source,
+      score: sample.score,
+      reference: sample.reference,
+      deviation: sample.deviation,
+      submittedBy: sample.submittedBy || null,
+      createdAt: new Date(sample.recordedAt),
+    }
+  }
+}
+
+// Singleton instance
+let judgeCalibrationService: JudgeCalibrationService | null = null
+
+export function getJudgeCalibrationService(): JudgeCalibrationService {
+  if (!judgeCalibrationService) {
+    judgeCalibrationService = new JudgeCalibrationService()
+  }
+  return judgeCalibrationService
+}
@@ -5,6 +5,7 @@
 
 import { PrismaClient } from '@prisma/client'
 import { config } from '../server/config/index.js'
+import type { NativeScore, ScoreScale } from '../types/agent'
 
 // Global Prisma client instance
 let prisma: PrismaClient | null = null
@@ -152,8 +153,15 @@ export class DatabaseService {
     judgeId: number
     round: number
     score: number
+    nativeScore?: NativeScore // Set when the score was given on a scale other than 0-10
+    scale?: ScoreScale
     reasoning?: string
   }) {
+    const { nativeScore, scale, ...score } = data
+    const native = {
+      nativeScore: nativeScore !== undefined ? JSON.stringify(nativeScore) : null,
+      scale: scale ? JSON.stringify(scale) : null,
+    }
     return this.db.score.upsert({
       where: {
         taskId_judgeId_round: {
@@ -164,10 +172,11 @@ export class DatabaseService {
       },
       update: {
         score: data.score,
+        ...native,
         reasoning: data.reasoning,
         submittedAt: new Date(),
       },
-      create: data,
+      create: { ...score, ...native },
     })
   }
 
@@ -0,0 +1,189 @@
+/**
+ * Comparison Store Service
+ * Persists pairwise comparison runs and their verdicts
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import type {
+  ComparisonConfig,
+  ComparisonOutput,
+  ComparisonRequest,
+  PairwiseVerdict
+} from '../../types/agent'
+
+export interface StoredComparison {
+  comparisonId: string
+  status: 'running' | 'completed' | 'failed' | 'interrupted'
+  topicId?: string
+  plannedComparisons: number
+  verdicts: PairwiseVerdict[]
+  output?: ComparisonOutput
+  error?: string
+  startTime: number
+  completedAt?: number
+}
+
+export class ComparisonStoreService {
+  private db: PrismaClient
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Create the comparison record
+   */
+  async createComparison(
+    request: ComparisonRequest,
+    config: ComparisonConfig,
+    topicId: string,
+    plannedComparisons: number
+  ): Promise<void> {
+    await this.db.comparison.create({
+      data: {
+        id: request.id,
+        topicId,
+        prompt: request.prompt || null,
+        candidates: JSON.stringify(request.candidates),
+        criteria: request.criteria ? JSON.stringify(request.criteria) : null,
+        selectedAgents: JSON.stringify(request.selectedAgents),
+        config: JSON.stringify(config),
+        requestedBy: request.requestedBy || null,
+        plannedComparisons,
+      },
+    })
+  }
+
+  /**
+   * Record a judge's verdict
+   */
+  async recordVerdict(comparisonId: string, verdict: PairwiseVerdict): Promise<void> {
+    await this.safeWrite(`record verdict for ${comparisonId}`, () =>
+      this.db.comparisonVerdict.create({
+        data: {
+          comparisonId,
+          agentId: verdict.agentId,
+          agentName: verdict.agentName,
+          candidateA: verdict.candidateA,
+          candidateB: verdict.candidateB,
+          winner: verdict.winner,
+          margin: verdict.margin,
+          reasoning: verdict.reasoning,
+          paymentTx: verdict.paymentTx || null,
+          hcsTxId: verdict.hcsTxId || null,
+          timestamp: new Date(verdict.timestamp),
+        },
+      })
+    )
+  }
+
+  /**
+   * Mark a comparison completed and store its ranking
+   */
+  async completeComparison(comparisonId: string, output: ComparisonOutput): Promise<void> {
+    const { verdicts: _verdicts, ...result } = output
+    await this.safeWrite(`complete comparison ${comparisonId}`, () =>
+      this.db.comparison.update({
+        where: { id: comparisonId },
+        data: {
+          status: 'completed',
+          result: JSON.stringify(result),
+          completedAt: new Date(),
+        },
+      })
+    )
+  }
+
+  /**
+   * Mark a comparison failed
+   */
+  async failComparison(comparisonId: string, error: string): Promise<void> {
+    await this.safeWrite(`fail comparison ${comparisonId}`, () =>
+      this.db.comparison.updateMany({
+        where: { id: comparisonId },
+        data: { status: 'failed', error, completedAt: new Date() },
+      })
+    )
+  }
+
+  /**
+   * Get a comparison with its verdicts and (if finished) ranking
+   */
+  async getComparison(comparisonId: string): Promise<StoredComparison | null> {
+    const record = await this.db.comparison.findUnique({
+      where: { id: comparisonId },
+      include: { verdicts: { orderBy: { id: 'asc' } } },
+    })
+    if (!record) return null
+
+    const verdicts: PairwiseVerdict[] = record.verdicts.map((verdict) => ({
+      agentId: verdict.agentId,
+      agentName: verdict.agentName,
+      candidateA: verdict.candidateA,
+      candidateB: verdict.candidateB,
+      winner: verdict.winner as PairwiseVerdict['winner'],
+      margin: verdict.margin,
+      reasoning: verdict.reasoning,
+      paymentTx: verdict.paymentTx || undefined,
+      hcsTxId: verdict.hcsTxId || undefined,
+      timestamp: verdict.timestamp.getTime(),
+    }))
+
+    return {
+      comparisonId: record.id,
+      status: record.status as StoredComparison['status'],
+      topicId: record.topicId || undefined,
+      plannedComparisons: record.plannedComparisons,
+      verdicts,
+      output: record.result ? { ...JSON.parse(record.result), verdicts } : undefined,
+      error: record.error || undefined,
+      startTime: record.startedAt.getTime(),
+      completedAt: record.completedAt?.getTime(),
+    }
+  }
+
+  /**
+   * Mark comparisons cut off by a shutdown as interrupted
+   */
+  async markInterruptedComparisons(): Promise<string[]> {
+    const stale = await this.db.comparison.findMany({
+      where: { status: 'running' },
+      select: { id: true },
+    })
+    if (stale.length === 0) return []
+
+    const ids = stale.map((comparison) => comparison.id)
+    await this.db.comparison.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: 'interrupted',
+        error: 'Server stopped before the comparison finished',
+        completedAt: new Date(),
+      },
+    })
+
+    return ids
+  }
+
+  /**
+   * Run a write without letting persistence failures break a running comparison
+   */
+  private async safeWrite(description: string, write: () => Promise<unknown>): Promise<void> {
+    try {
+      await write()
+    } catch (error) {
+      console.error(`❌ Failed to ${description}:`, error)
+    }
+  }
+}
+
+// Singleton instance
+let comparisonStore: ComparisonStoreService | null = null
+
+export function getComparisonStore(): ComparisonStoreService {
+  if (!comparisonStore) {
+    comparisonStore = new ComparisonStoreService()
+  }
+  return comparisonStore
+}
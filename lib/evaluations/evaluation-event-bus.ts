@@ -0,0 +1,155 @@
+/**
+ * Evaluation Event Bus
+ * Publishes orchestrator lifecycle events: persists them for replay,
+ * folds them into EvaluationProgress and notifies live subscribers (SSE)
+ *
+ * Live delivery is in-process only; other instances can still replay from the database
+ */
+
+import { EventEmitter } from 'events'
+import type {
+  EvaluationEvent,
+  EvaluationEventPayloads,
+  EvaluationEventType,
+  EvaluationProgress
+} from '../../types/agent'
+import { getEvaluationStore } from './evaluation-store-service'
+
+// Events after which no further events are published for an evaluation
+export const TERMINAL_EVENT_TYPES: EvaluationEventType[] = [
+  'evaluation_completed',
+  'evaluation_failed',
+  'evaluation_cancelled',
+]
+
+/**
+ * Fold a lifecycle event into the evaluation progress
+ */
+export function applyEventToProgress(
+  progress: EvaluationProgress,
+  event: EvaluationEvent
+): EvaluationProgress {
+  switch (event.type) {
+    case 'topic_created':
+      return { ...progress, status: 'scoring', topicId: event.data.topicId }
+    case 'agent_scored': {
+      const currentScores = { ...progress.currentScores, [event.data.agentId]: event.data.score }
+      return { ...progress, currentScores, scoresReceived: Object.keys(currentScores).length }
+    }
+    case 'round_started':
+      return { ...progress, status: 'discussing', currentRound: event.data.round }
+    case 'score_adjusted':
+      return {
+        ...progress,
+        currentScores: { ...progress.currentScores, [event.data.agentId]: event.data.adjustedScore },
+      }
+    case 'agent_abstained': {
+      // Abstaining agents are left out of consensus
+      const { [event.data.agentId]: _abstained, ...currentScores } = progress.currentScores || {}
+      return { ...progress, currentScores }
+    }
+    case 'round_completed':
+      return { ...progress, currentScores: event.data.scores, variance: event.data.variance }
+    case 'round_converged':
+      return { ...progress, variance: event.data.variance }
+    case 'consensus_computed':
+      return {
+        ...progress,
+        status: 'converging',
+        currentScores: event.data.consensus.individualScores,
+        variance: event.data.consensus.variance,
+      }
+    case 'evaluation_completed':
+      return { ...progress, status: 'completed' }
+    case 'evaluation_failed':
+      return { ...progress, status: 'failed' }
+    case 'evaluation_cancelled':
+      return { ...progress, status: 'cancelled' }
+    default:
+      return progress
+  }
+}
+
+export class EvaluationEventBus {
+  private emitter = new EventEmitter()
+  private evaluationStore = getEvaluationStore()
+  // Progress of evaluations running in this process, keyed by evaluation id
+  private progress = new Map<string, EvaluationProgress>()
+  // Per-evaluation publish chain so events are persisted and delivered in order
+  private queues = new Map<string, Promise<void>>()
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0)
+  }
+
+  /**
+   * Publish a lifecycle event for an evaluation
+   */
+  async publish<K extends EvaluationEventType>(
+    evaluationId: string,
+    type: K,
+    data: EvaluationEventPayloads[K]
+  ): Promise<void> {
+    const event = { type, evaluationId, timestamp: Date.now(), data } as EvaluationEvent
+
+    const previous = this.queues.get(evaluationId) || Promise.resolve()
+    const next = previous.then(() => this.deliver(event))
+    this.queues.set(evaluationId, next)
+    await next
+
+    if (TERMINAL_EVENT_TYPES.includes(type)) {
+      this.queues.delete(evaluationId)
+      this.progress.delete(evaluationId)
+    }
+  }
+
+  /**
+   * Subscribe to live events of an evaluation
+   * Returns an unsubscribe function
+   */
+  subscribe(evaluationId: string, listener: (event: EvaluationEvent) => void): () => void {
+    this.emitter.on(evaluationId, listener)
+    return () => {
+      this.emitter.off(evaluationId, listener)
+    }
+  }
+
+  /**
+   * Persist, fold into progress, then notify subscribers
+   */
+  private async deliver(event: EvaluationEvent): Promise<void> {
+    try {
+      event.sequence = await this.evaluationStore.recordEvent(event)
+
+      const current = this.progress.get(event.evaluationId) || await this.loadProgress(event.evaluationId)
+      if (current) {
+        const updated = applyEventToProgress(current, event)
+        this.progress.set(event.evaluationId, updated)
+        await this.evaluationStore.updateProgress(event.evaluationId, updated)
+      }
+
+      this.emitter.emit(event.evaluationId, event)
+    } catch (error) {
+      console.error(`❌ Failed to publish ${event.type} event for ${event.evaluationId}:`, error)
+    }
+  }
+
+  /**
+   * Load the persisted progress of an evaluation
+   */
+  private async loadProgress(evaluationId: string): Promise<EvaluationProgress | undefined> {
+    const evaluation = await this.evaluationStore.getEvaluation(evaluationId)
+    return evaluation?.progress
+  }
+}
+
+// Singleton instance
+let evaluationEventBus: EvaluationEventBus | null = null
+
+export function getEvaluationEventBus(): EvaluationEventBus {
+  if (!evaluationEventBus) {
+    evaluationEventBus = new EvaluationEventBus()
+  }
+  return evaluationEventBus
+}
@@ -0,0 +1,548 @@
+/**
+ * Evaluation Store Service
+ * Persists orchestrator evaluations, rounds and messages so progress and results
+ * survive restarts and are shared across server instances
+ */
+
+import { randomUUID } from 'crypto'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import type {
+  Agent,
+  ConsensusResult,
+  JudgmentRequest,
+  OrchestratorConfig,
+  OrchestratorOutput,
+  EvaluationProgress,
+  EvaluationEvent,
+  EvaluationPaymentRecord
+} from '../../types/agent'
+import type { AgentMessage, EvaluationRound, HCSSubmission } from '../hedera/hcs-communication'
+
+export interface StoredEvaluation {
+  evaluationId: string
+  orchestratorId?: string
+  progress: EvaluationProgress
+  output?: OrchestratorOutput
+  error?: string
+  payments: EvaluationPaymentRecord[]
+  startTime: number
+  completedAt?: number
+}
+
+// Statuses that mean the orchestrator is still working on the evaluation
+export const IN_PROGRESS_STATUSES: EvaluationProgress['status'][] = [
+  'initializing',
+  'scoring',
+  'discussing',
+  'converging',
+]
+
+// Owner of the evaluations this process runs - set INSTANCE_ID to a stable name per
+// instance so that after a restart it recognises its own evaluations at once
+export const INSTANCE_ID = process.env.INSTANCE_ID || randomUUID()
+
+// Running evaluations are heartbeated this often; one whose heartbeat is older than
+// EVALUATION_STALE_MS has lost the process that ran it
+const EVALUATION_HEARTBEAT_MS = 30000
+const EVALUATION_STALE_MS = EVALUATION_HEARTBEAT_MS * 4
+
+/**
+ * Thrown when an evaluation is created under an id that is already taken
+ */
+export class EvaluationExistsError extends Error {
+  constructor(public evaluationId: string) {
+    super(`Evaluation ${evaluationId} already exists`)
+    this.name = 'EvaluationExistsError'
+  }
+}
+
+export class EvaluationStoreService {
+  private db: PrismaClient
+  private running = new Set<string>() // Evaluations created by this process and not yet ended
+  private heartbeat: NodeJS.Timeout | null = null
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Create the evaluation record
+   * An id that is already taken is rejected, never written into the evaluation that holds it
+   */
+  async createEvaluation(
+    request: JudgmentRequest,
+    config: OrchestratorConfig,
+    topicId?: string
+  ): Promise<void> {
+    try {
+      await this.db.evaluation.create({
+        data: {
+          id: request.id,
+          topicId,
+          content: request.content,
+          criteria: request.criteria ? JSON.stringify(request.criteria) : null,
+          rubricId: request.rubric?.id || request.rubricId || null,
+          orchestratorId: request.orchestratorId || null,
+          selectedAgents: JSON.stringify(request.selectedAgents),
+          config: JSON.stringify(config),
+          requestedBy: request.requestedBy || null,
+          status: 'initializing',
+          instanceId: INSTANCE_ID,
+          heartbeatAt: new Date(),
+          totalRounds: config.maxDiscussionRounds,
+          totalAgents: request.selectedAgents.length,
+        },
+      })
+      this.running.add(request.id)
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new EvaluationExistsError(request.id)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Update progress fields of a running evaluation
+   */
+  async updateProgress(
+    evaluationId: string,
+    progress: Partial<EvaluationProgress>
+  ): Promise<void> {
+    await this.safeWrite(`update progress for ${evaluationId}`, () =>
+      this.db.evaluation.updateMany({
+        where: { id: evaluationId },
+        data: {
+          ...(progress.status && { status: progress.status }),
+          ...(progress.currentRound !== undefined && { currentRound: progress.currentRound }),
+          ...(progress.totalRounds !== undefined && { totalRounds: progress.totalRounds }),
+          ...(progress.scoresReceived !== undefined && { scoresReceived: progress.scoresReceived }),
+          ...(progress.topicId && { topicId: progress.topicId }),
+          ...(progress.currentScores && { currentScores: JSON.stringify(progress.currentScores) }),
+          ...(progress.variance !== undefined && { variance: progress.variance }),
+        },
+      })
+    )
+  }
+
+  /**
+   * Record a message published to the evaluation topic, with its HCS receipt when it was published
+   */
+  async recordMessage(
+    evaluationId: string,
+    message: AgentMessage,
+    submission?: HCSSubmission
+  ): Promise<void> {
+    await this.safeWrite(`record ${message.type} message for ${evaluationId}`, () =>
+      this.db.evaluationMessage.create({
+        data: {
+          evaluationId,
+          roundNumber: message.roundNumber,
+          type: message.type,
+          agentId: message.agentId,
+          agentName: message.agentName,
+          data: JSON.stringify(message.data),
+          hcsTxId: submission?.txId,
+          consensusTimestamp: submission?.consensusTimestamp,
+          timestamp: new Date(message.timestamp),
+        },
+      })
+    )
+  }
+
+  /**
+   * Record a completed round
+   */
+  async recordRound(
+    evaluationId: string,
+    round: EvaluationRound,
+    variance?: number
+  ): Promise<void> {
+    const data = {
+      startTime: new Date(round.startTime),
+      endTime: round.endTime ? new Date(round.endTime) : null,
+      variance,
+      ...(round.statistics && { statistics: JSON.stringify(round.statistics) }),
+    }
+
+    await this.safeWrite(`record round ${round.roundNumber} for ${evaluationId}`, () =>
+      this.db.evaluationRound.upsert({
+        where: {
+          evaluationId_roundNumber: {
+            evaluationId,
+            roundNumber: round.roundNumber,
+          },
+        },
+        update: data,
+        create: {
+          evaluationId,
+          roundNumber: round.roundNumber,
+          ...data,
+        },
+      })
+    )
+  }
+
+  /**
+   * Persist a lifecycle event and return its sequence number
+   */
+  async recordEvent(event: EvaluationEvent): Promise<number | undefined> {
+    try {
+      const record = await this.db.evaluationEvent.create({
+        data: {
+          evaluationId: event.evaluationId,
+          type: event.type,
+          data: JSON.stringify(event.data),
+          createdAt: new Date(event.timestamp),
+        },
+      })
+      return record.id
+    } catch (error) {
+      console.error(`❌ Failed to record ${event.type} event for ${event.evaluationId}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Get persisted lifecycle events, optionally only those after a sequence number
+   */
+  async getEvents(evaluationId: string, afterSequence: number = 0): Promise<EvaluationEvent[]> {
+    const records = await this.db.evaluationEvent.findMany({
+      where: {
+        evaluationId,
+        id: { gt: afterSequence },
+      },
+      orderBy: { id: 'asc' },
+    })
+
+    return records.map((record) => ({
+      type: record.type,
+      evaluationId: record.evaluationId,
+      timestamp: record.createdAt.getTime(),
+      sequence: record.id,
+      data: JSON.parse(record.data),
+    }) as EvaluationEvent)
+  }
+
+  /**
+   * Store the final orchestrator output and mark the evaluation completed
+   */
+  async completeEvaluation(evaluationId: string, output: OrchestratorOutput): Promise<void> {
+    this.running.delete(evaluationId)
+    await this.safeWrite(`complete ${evaluationId}`, () =>
+      this.db.evaluation.updateMany({
+        where: { id: evaluationId },
+        data: {
+          status: output.progress.status,
+          currentRound: output.progress.currentRound,
+          scoresReceived: output.progress.scoresReceived,
+          currentScores: output.progress.currentScores
+            ? JSON.stringify(output.progress.currentScores)
+            : null,
+          variance: output.progress.variance,
+          result: JSON.stringify(output),
+          completedAt: new Date(),
+        },
+      })
+    )
+  }
+
+  /**
+   * Mark an evaluation as failed
+   */
+  async failEvaluation(evaluationId: string, error: string): Promise<void> {
+    this.running.delete(evaluationId)
+    await this.safeWrite(`fail ${evaluationId}`, () =>
+      this.db.evaluation.updateMany({
+        where: { id: evaluationId },
+        data: {
+          status: 'failed',
+          error,
+          completedAt: new Date(),
+        },
+      })
+    )
+  }
+
+  /**
+   * Mark an evaluation as cancelled
+   */
+  async cancelEvaluation(evaluationId: string, reason: string): Promise<void> {
+    this.running.delete(evaluationId)
+    await this.safeWrite(`cancel ${evaluationId}`, () =>
+      this.db.evaluation.updateMany({
+        where: { id: evaluationId },
+        data: {
+          status: 'cancelled',
+          error: reason,
+          completedAt: new Date(),
+        },
+      })
+    )
+  }
+
+  /**
+   * Record the agent payments made during an evaluation
+   */
+  async recordPayments(evaluationId: string, payments: EvaluationPaymentRecord[]): Promise<void> {
+    await this.safeWrite(`record payments for ${evaluationId}`, () =>
+      this.db.evaluation.updateMany({
+        where: { id: evaluationId },
+        data: { payments: JSON.stringify(payments) },
+      })
+    )
+  }
+
+  /**
+   * Get an evaluation with its progress and (if finished) output
+   */
+  async getEvaluation(evaluationId: string): Promise<StoredEvaluation | null> {
+    const record = await this.db.evaluation.findUnique({
+      where: { id: evaluationId },
+    })
+
+    return record ? this.toStoredEvaluation(record) : null
+  }
+
+  /**
+   * Get the panel, config and criteria an evaluation was started with
+   */
+  async getEvaluationInputs(evaluationId: string): Promise<{
+    selectedAgents: Agent[]
+    config: OrchestratorConfig
+    criteria?: string[]
+    rubricId?: string
+  } | null> {
+    const record = await this.db.evaluation.findUnique({
+      where: { id: evaluationId },
+      select: { selectedAgents: true, config: true, criteria: true, rubricId: true },
+    })
+    if (!record) return null
+
+    return {
+      selectedAgents: JSON.parse(record.selectedAgents),
+      config: JSON.parse(record.config),
+      criteria: record.criteria ? JSON.parse(record.criteria) : undefined,
+      rubricId: record.rubricId || undefined,
+    }
+  }
+
+  /**
+   * List evaluations, most recent first
+   * Pass orchestratorId to get the history of a saved orchestrator
+   */
+  async listEvaluations(
+    options: { includeFinished?: boolean; orchestratorId?: string; limit?: number } = {}
+  ): Promise<StoredEvaluation[]> {
+    const records = await this.db.evaluation.findMany({
+      where: {
+        ...(!options.includeFinished && { status: { in: IN_PROGRESS_STATUSES } }),
+        ...(options.orchestratorId && { orchestratorId: options.orchestratorId }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: options.limit ?? 100,
+    })
+
+    return records.map((record) => this.toStoredEvaluation(record))
+  }
+
+  /**
+   * Consensus of completed evaluations with the panel and rubric they ran with, most recent first
+   */
+  async listCompletedConsensus(limit: number = 1000): Promise<Array<{
+    evaluationId: string
+    agentIds: string[]
+    rubricId?: string
+    consensus: ConsensusResult
+  }>> {
+    const records = await this.db.evaluation.findMany({
+      where: { status: 'completed', result: { not: null } },
+      select: { id: true, selectedAgents: true, rubricId: true, result: true },
+      orderBy: { completedAt: 'desc' },
+      take: limit,
+    })
+
+    return records.map((record) => ({
+      evaluationId: record.id,
+      agentIds: (JSON.parse(record.selectedAgents) as Agent[]).map((agent) => agent.id),
+      rubricId: record.rubricId || undefined,
+      consensus: (JSON.parse(record.result!) as OrchestratorOutput).consensus,
+    }))
+  }
+
+  /**
+   * Get the persisted rounds and messages of an evaluation
+   */
+  async getRounds(evaluationId: string): Promise<EvaluationRound[]> {
+    const [rounds, messages] = await Promise.all([
+      this.db.evaluationRound.findMany({
+        where: { evaluationId },
+        orderBy: { roundNumber: 'asc' },
+      }),
+      this.db.evaluationMessage.findMany({
+        where: { evaluationId },
+        orderBy: [{ roundNumber: 'asc' }, { timestamp: 'asc' }],
+      }),
+    ])
+
+    // Rounds interrupted before completion have messages but no round record
+    const roundNumbers = [...new Set([
+      ...rounds.map((round) => round.roundNumber),
+      ...messages.map((msg) => msg.roundNumber),
+    ])].sort((a, b) => a - b)
+
+    return roundNumbers.map((roundNumber) => {
+      const round = rounds.find((r) => r.roundNumber === roundNumber)
+      const roundMessages = messages.filter((msg) => msg.roundNumber === roundNumber)
+
+      return {
+        roundNumber,
+        startTime: round?.startTime.getTime() ?? roundMessages[0].timestamp.getTime(),
+        endTime: round?.endTime?.getTime(),
+        ...(round?.statistics && { statistics: JSON.parse(round.statistics) }),
+        messages: roundMessages.map((msg) => ({
+          type: msg.type as AgentMessage['type'],
+          agentId: msg.agentId,
+          agentName: msg.agentName,
+          timestamp: msg.timestamp.getTime(),
+          roundNumber: msg.roundNumber,
+          data: JSON.parse(msg.data),
+          hcsTxId: msg.hcsTxId || undefined,
+          consensusTimestamp: msg.consensusTimestamp || undefined,
+        })),
+      }
+    })
+  }
+
+  /**
+   * Delete an evaluation and its rounds/messages
+   */
+  async deleteEvaluation(evaluationId: string): Promise<boolean> {
+    const result = await this.db.evaluation.deleteMany({
+      where: { id: evaluationId },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Mark evaluations whose process is gone as interrupted: this instance's from before
+   * a restart, and any instance's whose heartbeat went stale. Evaluations that other
+   * live instances are running are left alone
+   */
+  async markInterruptedEvaluations(): Promise<string[]> {
+    const staleBefore = new Date(Date.now() - EVALUATION_STALE_MS)
+    const stale = await this.db.evaluation.findMany({
+      where: {
+        status: { in: IN_PROGRESS_STATUSES },
+        id: { notIn: Array.from(this.running) },
+        OR: [
+          { instanceId: INSTANCE_ID },
+          { heartbeatAt: { lt: staleBefore } },
+          { heartbeatAt: null, updatedAt: { lt: staleBefore } }, // Started before heartbeats were recorded
+        ],
+      },
+      select: { id: true },
+    })
+
+    if (stale.length === 0) return []
+
+    const ids = stale.map((evaluation) => evaluation.id)
+    await this.db.evaluation.updateMany({
+      where: { id: { in: ids }, status: { in: IN_PROGRESS_STATUSES } },
+      data: {
+        status: 'interrupted',
+        error: 'Server stopped before the evaluation finished',
+        completedAt: new Date(),
+      },
+    })
+
+    return ids
+  }
+
+  /**
+   * Keep the heartbeat of this process's running evaluations fresh, and mark the
+   * evaluations of instances that stopped while this one runs as interrupted
+   */
+  startHeartbeat(): void {
+    if (this.heartbeat) return
+
+    this.heartbeat = setInterval(() => {
+      void this.safeWrite('refresh evaluation heartbeats', async () => {
+        if (this.running.size > 0) {
+          await this.db.evaluation.updateMany({
+            where: { id: { in: Array.from(this.running) } },
+            data: { heartbeatAt: new Date() },
+          })
+        }
+        const interrupted = await this.markInterruptedEvaluations()
+        if (interrupted.length > 0) {
+          console.warn(`⚠️  Marked ${interrupted.length} evaluation(s) of stopped instances as interrupted: ${interrupted.join(', ')}`)
+        }
+      })
+    }, EVALUATION_HEARTBEAT_MS)
+    this.heartbeat.unref()
+  }
+
+  /**
+   * Map a database record to the API shape
+   */
+  private toStoredEvaluation(record: {
+    id: string
+    orchestratorId: string | null
+    topicId: string | null
+    status: string
+    currentRound: number
+    totalRounds: number
+    scoresReceived: number
+    totalAgents: number
+    currentScores: string | null
+    variance: number | null
+    result: string | null
+    error: string | null
+    payments: string | null
+    startedAt: Date
+    completedAt: Date | null
+  }): StoredEvaluation {
+    return {
+      evaluationId: record.id,
+      orchestratorId: record.orchestratorId || undefined,
+      progress: {
+        status: record.status as EvaluationProgress['status'],
+        currentRound: record.currentRound,
+        totalRounds: record.totalRounds,
+        scoresReceived: record.scoresReceived,
+        totalAgents: record.totalAgents,
+        topicId: record.topicId || undefined,
+        currentScores: record.currentScores ? JSON.parse(record.currentScores) : undefined,
+        variance: record.variance ?? undefined,
+      },
+      output: record.result ? JSON.parse(record.result) : undefined,
+      error: record.error || undefined,
+      payments: record.payments ? JSON.parse(record.payments) : [],
+      startTime: record.startedAt.getTime(),
+      completedAt: record.completedAt?.getTime(),
+    }
+  }
+
+  /**
+   * Run a write without letting persistence failures break a running evaluation
+   */
+  private async safeWrite(description: string, write: () => Promise<unknown>): Promise<void> {
+    try {
+      await write()
+    } catch (error) {
+      console.error(`❌ Failed to ${description}:`, error)
+    }
+  }
+}
+
+// Singleton instance
+let evaluationStore: EvaluationStoreService | null = null
+
+export function getEvaluationStore(): EvaluationStoreService {
+  if (!evaluationStore) {
+    evaluationStore = new EvaluationStoreService()
+  }
+  return evaluationStore
+}
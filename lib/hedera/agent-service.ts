@@ -139,17 +139,24 @@ export class HederaAgentService {
 
   /**
    * Submit a message to an agent topic
+   * Reads the transaction record (small query fee) for the consensus timestamp
    */
-  async submitMessage(topicId: string, message: string): Promise<string> {
+  async submitMessage(
+    topicId: string,
+    message: string
+  ): Promise<{ transactionId: string; consensusTimestamp: string }> {
     try {
       const transaction = new TopicMessageSubmitTransaction()
         .setTopicId(topicId)
         .setMessage(message)
 
       const txResponse = await transaction.execute(this.client)
-      const receipt = await txResponse.getReceipt(this.client)
+      const record = await txResponse.getRecord(this.client)
 
-      return txResponse.transactionId.toString()
+      return {
+        transactionId: txResponse.transactionId.toString(),
+        consensusTimestamp: record.consensusTimestamp.toString(),
+      }
     } catch (error) {
       console.error('Error submitting message:', error)
       throw error
@@ -5,6 +5,13 @@
 
 import { getHCSService } from './hcs-service.js'
 import { dbService } from '../database.js'
+import { getEvaluationStore, type StoredEvaluation } from '../evaluations/evaluation-store-service.js'
+import type {
+  EvaluationReliability,
+  InterRaterReliability,
+  PlatformReliability,
+  ReliabilityGroupSummary
+} from '../../types/agent'
 
 export interface AuditEvent {
   taskId: string
@@ -30,6 +37,29 @@ export interface AuditReport {
     paymentsProcessed: number
     finalScore?: number
   }
+  reliability?: EvaluationReliability // Orchestrator evaluations only
+}
+
+/**
+ * Mean of the values that could be computed, null when none could
+ */
+function meanOf(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number')
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null
+}
+
+/**
+ * Average the final reliability of a group of evaluations
+ */
+function summarizeReliability(reliabilities: InterRaterReliability[]): ReliabilityGroupSummary {
+  return {
+    evaluations: reliabilities.length,
+    krippendorffAlpha: meanOf(reliabilities.map((r) => r.krippendorffAlpha)),
+    iccSingle: meanOf(reliabilities.map((r) => r.icc.single)),
+    iccAverage: meanOf(reliabilities.map((r) => r.icc.average)),
+    kendallW: meanOf(reliabilities.map((r) => r.kendallW)),
+    meanAgreement: meanOf(reliabilities.map((r) => r.meanAgreement)),
+  }
 }
 
 export class AuditService {
@@ -200,13 +230,19 @@ export class AuditService {
     try {
       console.log(`📊 Generating audit report for task ${taskId}...`)
 
-      const auditLogs = await dbService.getAuditLogs(taskId)
       const task = await dbService.getTaskById(taskId)
 
       if (!task) {
-        throw new Error('Task not found')
+        // Orchestrator evaluations have no task - report them from their lifecycle events
+        const evaluation = await getEvaluationStore().getEvaluation(taskId)
+        if (!evaluation) {
+          throw new Error('Task not found')
+        }
+        return await this.generateEvaluationReport(evaluation)
       }
 
+      const auditLogs = await dbService.getAuditLogs(taskId)
+
       // Process events
       const events: AuditEvent[] = auditLogs.map(log => ({
         taskId: log.taskId,
@@ -248,6 +284,73 @@ export class AuditService {
     }
   }
 
+  /**
+   * Audit report of an orchestrator evaluation, with the inter-rater reliability of its panel
+   */
+  private async generateEvaluationReport(evaluation: StoredEvaluation): Promise<AuditReport> {
+    const storedEvents = await getEvaluationStore().getEvents(evaluation.evaluationId)
+
+    const events: AuditEvent[] = storedEvents.map((event) => ({
+      taskId: event.evaluationId,
+      event: event.type,
+      data: event.data,
+      timestamp: new Date(event.timestamp),
+      hcsMessageId: (event.data as { hcsTxId?: string }).hcsTxId,
+    }))
+
+    const consensus = evaluation.output?.consensus
+    const report: AuditReport = {
+      taskId: evaluation.evaluationId,
+      totalEvents: events.length,
+      events,
+      timeline: events.map((event) => ({
+        timestamp: event.timestamp,
+        event: event.event,
+        description: this.getEventDescription(event.event, event.data),
+      })),
+      summary: {
+        taskCreated: true,
+        roundsCompleted: events.filter((e) => e.event === 'round_completed').length,
+        consensusReached: consensus !== undefined,
+        paymentsProcessed: evaluation.payments.filter((payment) => payment.status === 'settled').length,
+        finalScore: consensus?.finalScore,
+      },
+      ...(consensus?.reliability && { reliability: consensus.reliability }),
+    }
+
+    console.log(`✅ Audit report generated for evaluation ${evaluation.evaluationId}`)
+    return report
+  }
+
+  /**
+   * Inter-rater reliability across completed evaluations, grouped by judge panel and by rubric
+   * Evaluations completed before reliability was recorded are skipped
+   */
+  async getReliabilityStatistics(limit: number = 1000): Promise<PlatformReliability> {
+    const evaluations = (await getEvaluationStore().listCompletedConsensus(limit))
+      .filter((evaluation) => evaluation.consensus.reliability)
+
+    const group = <K>(keyOf: (evaluation: typeof evaluations[number]) => K, id: (key: K) => string) => {
+      const groups = new Map<string, { key: K; reliabilities: InterRaterReliability[] }>()
+      evaluations.forEach((evaluation) => {
+        const key = keyOf(evaluation)
+        const entry = groups.get(id(key)) || { key, reliabilities: [] }
+        entry.reliabilities.push(evaluation.consensus.reliability!.final)
+        groups.set(id(key), entry)
+      })
+      return Array.from(groups.values())
+        .sort((a, b) => b.reliabilities.length - a.reliabilities.length)
+    }
+
+    return {
+      evaluations: evaluations.length,
+      byPanel: group((evaluation) => [...evaluation.agentIds].sort(), (agentIds) => agentIds.join(','))
+        .map(({ key, reliabilities }) => ({ agentIds: key, ...summarizeReliability(reliabilities) })),
+      byRubric: group((evaluation) => evaluation.rubricId ?? null, (rubricId) => rubricId ?? '')
+        .map(({ key, reliabilities }) => ({ rubricId: key, ...summarizeReliability(reliabilities) })),
+    }
+  }
+
   /**
    * Get human-readable description for events
    */
@@ -269,6 +372,14 @@ export class AuditService {
         return `Error: ${data?.error}`
       case 'hcs_message_published':
         return `Event published to HCS (message ID: ${data?.hcsMessageId})`
+      case 'agent_scored':
+        return `${data?.agentName} scored ${data?.score}`
+      case 'round_completed':
+        return `Round ${data?.round} completed (variance ${data?.variance})`
+      case 'payment_settled':
+        return `Payment to ${data?.agentName} settled (${data?.paymentTx})`
+      case 'consensus_computed':
+        return `Consensus reached with final score ${data?.consensus?.finalScore}`
       default:
         return `Event: ${event}`
     }
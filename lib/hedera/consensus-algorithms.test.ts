@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest'
+import type { Agent } from '../../types/agent'
+import { ConsensusAlgorithms, type BayesianOptions } from './consensus-algorithms'
+
+// A new judge: reliability 0.5 and reputation weight 1
+function judge(id: string): Agent {
+  return {
+    id,
+    reputation: { totalReviews: 0, averageRating: 10, completedJudgments: 0, successRate: 1, lastUpdated: 0 },
+  } as Agent
+}
+
+const BAYESIAN: BayesianOptions = { priorMean: 5, priorStdDev: 2.5, noiseStdDev: 1, credibleLevel: 0.95 }
+
+describe('ConsensusAlgorithms.detectOutliers', () => {
+  it('flags a single outlier on a panel of three', () => {
+    const { outliers, cleanScores } = ConsensusAlgorithms.detectOutliers({ a: 5, b: 5.5, c: 9.5 })
+
+    expect(outliers).toEqual(['c'])
+    expect(cleanScores).toEqual({ a: 5, b: 5.5 })
+  })
+
+  it('flags an outlier among panels of four and five that a plain z-score could not', () => {
+    expect(ConsensusAlgorithms.detectOutliers({ a: 6, b: 6.5, c: 7, d: 1 }).outliers).toEqual(['d'])
+    expect(ConsensusAlgorithms.detectOutliers({ a: 5, b: 5, c: 6, d: 6, e: 10 }).outliers).toEqual(['e'])
+  })
+
+  it('falls back to the mean absolute deviation when most scores agree', () => {
+    const { outliers, zScores } = ConsensusAlgorithms.detectOutliers({ a: 5, b: 5, c: 5, d: 9 })
+
+    expect(outliers).toEqual(['d'])
+    expect(zScores.a).toBe(0)
+  })
+
+  it('never flags two scores or identical ones', () => {
+    expect(ConsensusAlgorithms.detectOutliers({ a: 0, b: 10 }).outliers).toEqual([])
+    expect(ConsensusAlgorithms.detectOutliers({ a: 7, b: 7, c: 7 }).zScores).toEqual({ a: 0, b: 0, c: 0 })
+  })
+
+  it('does not flag small disagreements on a near-unanimous panel', () => {
+    expect(ConsensusAlgorithms.detectOutliers({ a: 7, b: 7, c: 7.2 }).outliers).toEqual([])
+    expect(ConsensusAlgorithms.detectOutliers({ a: 7, b: 7.1, c: 7.4 }).outliers).toEqual([])
+    expect(ConsensusAlgorithms.detectOutliers({ a: 7, b: 7, c: 7, d: 7.5 }).outliers).toEqual([])
+  })
+
+  it('leaves a spread-out panel alone', () => {
+    expect(ConsensusAlgorithms.detectOutliers({ a: 4, b: 5, c: 6, d: 7, e: 8 }).outliers).toEqual([])
+  })
+})
+
+describe('ConsensusAlgorithms.median', () => {
+  it('averages the middle two of an even panel', () => {
+    expect(ConsensusAlgorithms.median({ a: 9, b: 1, c: 5, d: 6 }).finalScore).toBe(5.5)
+    expect(ConsensusAlgorithms.median({ a: 9, b: 1, c: 5 }).finalScore).toBe(5)
+  })
+})
+
+describe('ConsensusAlgorithms.weightedAverage', () => {
+  it('weights new judges equally by reputation', () => {
+    expect(ConsensusAlgorithms.weightedAverage({ a: 8, b: 4 }, [judge('a'), judge('b')]).finalScore).toBeCloseTo(6)
+  })
+
+  it('uses learned weights over reputation and applies outlier multipliers', () => {
+    const agents = [judge('a'), judge('b')]
+    expect(ConsensusAlgorithms.weightedAverage({ a: 8, b: 4 }, agents, {}, { a: 3, b: 1 }).finalScore).toBeCloseTo(7)
+    expect(ConsensusAlgorithms.weightedAverage({ a: 8, b: 4 }, agents, { a: 1 / 3 }, { a: 3, b: 1 }).finalScore).toBeCloseTo(6)
+  })
+})
+
+describe('ConsensusAlgorithms.bayesian', () => {
+  it('shrinks a single score toward the prior by its precision', () => {
+    // Prior precision 1/2.5^2 = 0.16; a fully confident new judge has precision 0.5
+    const result = ConsensusAlgorithms.bayesian({ a: 8 }, [judge('a')], { a: 1 }, BAYESIAN)
+
+    expect(result.finalScore).toBeCloseTo((5 * 0.16 + 8 * 0.5) / 0.66)
+    expect(result.credibleInterval?.stdDev).toBeCloseTo(Math.sqrt(1 / 0.66))
+    expect(result.credibleInterval?.level).toBe(0.95)
+  })
+
+  it('leans toward the more confident judge', () => {
+    const result = ConsensusAlgorithms.bayesian({ a: 9, b: 3 }, [judge('a'), judge('b')], { a: 1, b: 0.1 }, BAYESIAN)
+
+    expect(result.finalScore).toBeGreaterThan(6)
+    expect(result.weights!.a).toBeCloseTo(10 / 11)
+  })
+
+  it('widens the interval when the judges disagree more than their noise explains', () => {
+    const agents = [judge('a'), judge('b')]
+    const agreeing = ConsensusAlgorithms.bayesian({ a: 6, b: 6 }, agents, { a: 1, b: 1 }, BAYESIAN)
+    const split = ConsensusAlgorithms.bayesian({ a: 2, b: 10 }, agents, { a: 1, b: 1 }, BAYESIAN)
+
+    expect(split.credibleInterval!.stdDev).toBeGreaterThan(agreeing.credibleInterval!.stdDev)
+    expect(split.confidence).toBeLessThan(agreeing.confidence)
+  })
+
+  it('keeps the interval within 0-10', () => {
+    const result = ConsensusAlgorithms.bayesian({ a: 10 }, [judge('a')], {}, BAYESIAN)
+
+    expect(result.credibleInterval!.lower).toBeGreaterThanOrEqual(0)
+    expect(result.credibleInterval!.upper).toBeLessThanOrEqual(10)
+  })
+})
+
+describe('ConsensusAlgorithms.delphiMethod', () => {
+  it('takes the median of the final scores and counts the rounds', () => {
+    const result = ConsensusAlgorithms.delphiMethod({ a: 6, b: 7, c: 9 }, 3)
+
+    expect(result.finalScore).toBe(7)
+    expect(result.algorithm).toBe('delphi_method')
+    expect(result.convergenceRounds).toBe(3)
+  })
+
+  it('feeds back the median and interquartile range', () => {
+    expect(ConsensusAlgorithms.quartiles({ a: 2, b: 4, c: 6, d: 8, e: 10 }))
+      .toEqual({ median: 6, q1: 4, q3: 8, iqr: 4, respondents: 5 })
+  })
+})
+
+describe('ConsensusAlgorithms.categoricalVote', () => {
+  const labels = ['pass', 'fail', 'revise']
+  const agents = [judge('a'), judge('b'), judge('c'), judge('d')]
+
+  it('declares the plurality label with the vote distribution', () => {
+    const verdict = ConsensusAlgorithms.categoricalVote({ a: 'pass', b: 'pass', c: 'fail' }, { labels }, agents)
+
+    expect(verdict).toMatchObject({ label: 'pass', decided: true, rule: 'plurality' })
+    expect(verdict.distribution).toEqual({ pass: 2, fail: 1, revise: 0 })
+    expect(verdict.agreement).toBeCloseTo(2 / 3)
+  })
+
+  it('breaks a tie toward the label of the more reputable judges', () => {
+    const veteran = {
+      ...judge('b'),
+      reputation: { totalReviews: 50, averageRating: 10, completedJudgments: 100, successRate: 1, lastUpdated: 0 },
+    }
+    const verdict = ConsensusAlgorithms.categoricalVote({ a: 'pass', b: 'fail' }, { labels }, [judge('a'), veteran])
+
+    expect(verdict).toMatchObject({ label: 'fail', tieBroken: 'weighted' })
+  })
+
+  it('falls back to label order on equal weights and leaves the tie with none', () => {
+    expect(ConsensusAlgorithms.categoricalVote({ a: 'fail', b: 'pass' }, { labels }, agents).label).toBe('pass')
+    expect(ConsensusAlgorithms.categoricalVote({ a: 'fail', b: 'pass' }, { labels, tieBreak: 'none' }, agents))
+      .toMatchObject({ label: undefined, decided: false })
+  })
+
+  it('declares the fallback label when a supermajority or unanimity is not met', () => {
+    const votes = { a: 'pass', b: 'pass', c: 'fail', d: 'pass' }
+
+    expect(ConsensusAlgorithms.categoricalVote(votes, { labels, rule: 'supermajority' }, agents).label).toBe('pass')
+    expect(ConsensusAlgorithms.categoricalVote(votes, { labels, rule: 'supermajority', supermajority: 0.8, fallbackLabel: 'revise' }, agents))
+      .toMatchObject({ label: 'revise', decided: false, fallback: true })
+    expect(ConsensusAlgorithms.categoricalVote(votes, { labels, rule: 'unanimous' }, agents))
+      .toMatchObject({ label: undefined, decided: false })
+  })
+})
+
+describe('ConsensusAlgorithms.correctBias', () => {
+  const lenient = { agentId: 'a', offset: 1, spread: 1, meanScore: 8, effectiveSamples: 5 }
+  const narrow = { agentId: 'b', offset: 0, spread: 1.5, meanScore: 6, effectiveSamples: 5 }
+
+  it('removes the judge\'s offset', () => {
+    expect(ConsensusAlgorithms.correctBias(9, lenient, 'mean_offset')).toBe(8)
+    expect(ConsensusAlgorithms.correctBias(9, lenient, 'none')).toBe(9)
+  })
+
+  it('stretches a narrow judge\'s distance from its mean with z_score', () => {
+    expect(ConsensusAlgorithms.correctBias(8, narrow, 'z_score')).toBe(9)
+    expect(ConsensusAlgorithms.correctBias(4, narrow, 'z_score')).toBe(3)
+    // mean_offset ignores the spread
+    expect(ConsensusAlgorithms.correctBias(8, narrow, 'mean_offset')).toBe(8)
+  })
+
+  it('only shifts a judge without a history of its own scores', () => {
+    expect(ConsensusAlgorithms.correctBias(8, { ...narrow, offset: 0.5, meanScore: null }, 'z_score')).toBe(7.5)
+  })
+
+  it('keeps corrected scores within 0-10', () => {
+    expect(ConsensusAlgorithms.correctBias(9.5, { ...lenient, offset: -2 }, 'mean_offset')).toBe(10)
+    expect(ConsensusAlgorithms.correctBias(1, narrow, 'z_score')).toBe(0)
+  })
+})
@@ -3,7 +3,18 @@
  * Implements various methods to reach consensus from multiple agent scores
  */
 
-import type { Agent, ERC8004Reputation } from '../../types/agent'
+import type {
+  Agent,
+  BiasCorrectionMethod,
+  ERC8004Reputation,
+  CredibleInterval,
+  CriterionConsensus,
+  DelphiStatistics,
+  JudgeBiasProfile,
+  VerdictConfig,
+  VerdictConsensus,
+  VerdictTieBreak
+} from '../../types/agent'
 import type { AgentMessage } from './hcs-communication'
 
 export interface ConsensusResult {
@@ -14,8 +25,22 @@ export interface ConsensusResult {
   confidence: number
   variance: number
   convergenceRounds: number
+  credibleInterval?: CredibleInterval
 }
 
+// Settings of the Bayesian aggregation
+export interface BayesianOptions {
+  priorMean: number
+  priorStdDev: number
+  noiseStdDev: number // Score noise of a fully confident, fully reliable judge
+  credibleLevel: number
+}
+
+// Judgments a reputation counts for before it is trusted over the neutral 0.5 reliability
+const RELIABILITY_PRIOR_JUDGMENTS = 10
+// Confidence is the posterior probability that the true score lies within this margin of the final score
+const CONFIDENCE_MARGIN = 1
+
 export class ConsensusAlgorithms {
   /**
    * Simple Average - Equal weight for all agents
@@ -38,11 +63,13 @@ export class ConsensusAlgorithms {
   }
 
   /**
-   * Weighted Average - Based on agent reputation
+   * Weighted Average - Based on agent reputation, or on learned weights where given
    */
   static weightedAverage(
     scores: Record<string, number>,
-    agents: Agent[]
+    agents: Agent[],
+    weightMultipliers: Record<string, number> = {},
+    learnedWeights: Record<string, number> = {}
   ): ConsensusResult {
     const weights: Record<string, number> = {}
     let totalWeight = 0
@@ -50,7 +77,8 @@ export class ConsensusAlgorithms {
 
     // Calculate weights based on reputation
     agents.forEach((agent) => {
-      const weight = this.calculateAgentWeight(agent.reputation)
+      const baseWeight = learnedWeights[agent.id] ?? this.calculateAgentWeight(agent.reputation)
+      const weight = baseWeight * (weightMultipliers[agent.id] ?? 1)
       weights[agent.id] = weight
       totalWeight += weight
       weightedSum += (scores[agent.id] || 0) * weight
@@ -75,13 +103,8 @@ export class ConsensusAlgorithms {
    * Median - Robust to outliers
    */
   static median(scores: Record<string, number>): ConsensusResult {
-    const values = Object.values(scores).sort((a, b) => a - b)
-    const mid = Math.floor(values.length / 2)
-
-    const finalScore =
-      values.length % 2 === 0
-        ? (values[mid - 1] + values[mid]) / 2
-        : values[mid]
+    const values = Object.values(scores)
+    const finalScore = this.middle(values)
 
     const variance = this.calculateVariance(values, finalScore)
 
@@ -202,21 +225,199 @@ export class ConsensusAlgorithms {
   }
 
   /**
-   * Delphi Method - Iterative with anonymous feedback
+   * Delphi Method - Median of the scores after the anonymous feedback rounds
+   * The rounds have already moved the judges toward each other; only the final scores count
    */
-  static delphiMethod(
-    rounds: Array<Record<string, number>>,
-    agents: Agent[]
-  ): ConsensusResult {
-    // Use the final round scores with weighted average
-    const finalRoundScores = rounds[rounds.length - 1]
-    const result = this.weightedAverage(finalRoundScores, agents)
+  static delphiMethod(finalScores: Record<string, number>, rounds: number): ConsensusResult {
+    const result = this.median(finalScores)
 
     return {
       ...result,
       algorithm: 'delphi_method',
-      convergenceRounds: rounds.length,
+      convergenceRounds: Math.max(1, rounds),
+    }
+  }
+
+  /**
+   * Median and interquartile range of the scores, as fed back to the judges between Delphi rounds
+   * Quartiles interpolate linearly between the closest ranks
+   */
+  static quartiles(scores: Record<string, number>): DelphiStatistics {
+    const values = Object.values(scores).sort((a, b) => a - b)
+    const quantile = (p: number) => {
+      if (values.length === 0) return 0
+      const position = (values.length - 1) * p
+      const lower = Math.floor(position)
+      const upper = Math.ceil(position)
+      return values[lower] + (values[upper] - values[lower]) * (position - lower)
     }
+
+    const q1 = quantile(0.25)
+    const q3 = quantile(0.75)
+    return { median: quantile(0.5), q1, q3, iqr: q3 - q1, respondents: values.length }
+  }
+
+  /**
+   * Categorical Vote - Each agent votes for one of the declared labels
+   * A tie between top labels under the plurality rule goes to the tie-break;
+   * when the rule is not met the fallback label (if any) is declared
+   */
+  static categoricalVote(
+    votes: Record<string, string>,
+    config: VerdictConfig,
+    agents: Agent[]
+  ): VerdictConsensus {
+    const rule = config.rule || 'plurality'
+    const distribution: Record<string, number> = Object.fromEntries(config.labels.map((label) => [label, 0]))
+    Object.values(votes).forEach((label) => {
+      distribution[label] = (distribution[label] || 0) + 1
+    })
+
+    const total = Object.keys(votes).length
+    const topCount = Math.max(0, ...Object.values(distribution))
+    const leaders = total > 0 ? config.labels.filter((label) => distribution[label] === topCount) : []
+    const agreement = total > 0 ? topCount / total : 0
+
+    let label: string | undefined
+    let tieBroken: VerdictTieBreak | undefined
+    if (rule === 'unanimous') {
+      label = agreement === 1 ? leaders[0] : undefined
+    } else if (rule === 'supermajority') {
+      label = agreement >= (config.supermajority ?? 2 / 3) ? leaders[0] : undefined
+    } else if (leaders.length === 1) {
+      label = leaders[0]
+    } else if (leaders.length > 1) {
+      tieBroken = config.tieBreak || 'weighted'
+      label = this.breakVerdictTie(leaders, votes, agents, tieBroken)
+      if (!label) tieBroken = undefined
+    }
+
+    const decided = label !== undefined
+    return {
+      label: label ?? config.fallbackLabel,
+      decided,
+      rule,
+      distribution,
+      agreement,
+      votes,
+      ...(tieBroken && { tieBroken }),
+      ...(!decided && config.fallbackLabel && { fallback: true }),
+    }
+  }
+
+  /**
+   * Pick one of the tied labels - undefined with the 'none' tie-break
+   * Equal reputation weights fall back to label order
+   */
+  private static breakVerdictTie(
+    tied: string[],
+    votes: Record<string, string>,
+    agents: Agent[],
+    tieBreak: VerdictTieBreak
+  ): string | undefined {
+    if (tieBreak === 'none') return undefined
+    if (tieBreak === 'label_order') return tied[0]
+
+    const weightOf = (label: string) => agents
+      .filter((agent) => votes[agent.id] === label)
+      .reduce((sum, agent) => sum + this.calculateAgentWeight(agent.reputation), 0)
+    return tied.reduce((best, label) => (weightOf(label) > weightOf(best) ? label : best))
+  }
+
+  /**
+   * Bayesian - Posterior of the true score under a normal model
+   * Each score is a noisy observation whose precision grows with the judge's reported confidence
+   * (0.5 when missing), reputation-based reliability and outlier weight. When the scores disagree
+   * more than that noise explains, every judge's noise is inflated by the Birge ratio.
+   * Confidence is the posterior probability that the true score is within one point of finalScore
+   */
+  static bayesian(
+    scores: Record<string, number>,
+    agents: Agent[],
+    confidences: Record<string, number>,
+    options: BayesianOptions,
+    weightMultipliers: Record<string, number> = {}
+  ): ConsensusResult {
+    const observations = agents
+      .filter((agent) => scores[agent.id] !== undefined)
+      .map((agent) => {
+        const confidence = Math.max(0.05, Math.min(1, confidences[agent.id] ?? 0.5))
+        const reliability = this.calculateReliability(agent.reputation)
+        const precision = confidence * reliability * (weightMultipliers[agent.id] ?? 1) / Math.pow(options.noiseStdDev, 2)
+        return { agentId: agent.id, score: scores[agent.id], precision }
+      })
+
+    const priorPrecision = 1 / Math.pow(options.priorStdDev, 2)
+    const posterior = (scale: number) => {
+      const precision = priorPrecision + observations.reduce((sum, o) => sum + o.precision / scale, 0)
+      const mean = (options.priorMean * priorPrecision +
+        observations.reduce((sum, o) => sum + o.score * o.precision / scale, 0)) / precision
+      return { mean, precision }
+    }
+
+    let fit = posterior(1)
+    if (observations.length > 1) {
+      const birgeRatio = observations.reduce((sum, o) => sum + Math.pow(o.score - fit.mean, 2) * o.precision, 0) /
+        (observations.length - 1)
+      if (birgeRatio > 1) {
+        fit = posterior(birgeRatio)
+      }
+    }
+
+    const { mean, precision } = fit
+    const stdDev = Math.sqrt(1 / precision)
+    const z = this.normalQuantile(0.5 + options.credibleLevel / 2)
+    const totalPrecision = observations.reduce((sum, o) => sum + o.precision, 0)
+    const weights = Object.fromEntries(
+      observations.map((o) => [o.agentId, totalPrecision > 0 ? o.precision / totalPrecision : 0])
+    )
+
+    return {
+      finalScore: mean,
+      algorithm: 'bayesian',
+      individualScores: scores,
+      weights,
+      confidence: this.erf(CONFIDENCE_MARGIN / (stdDev * Math.SQRT2)),
+      variance: this.calculateVariance(Object.values(scores), mean),
+      convergenceRounds: 1,
+      credibleInterval: {
+        lower: Math.max(0, mean - z * stdDev),
+        upper: Math.min(10, mean + z * stdDev),
+        level: options.credibleLevel,
+        stdDev,
+      },
+    }
+  }
+
+  /**
+   * Per-Criterion Consensus - Aggregate each criterion separately
+   * criterionScores maps agent id to that agent's per-criterion scores; criteria nobody scored are skipped
+   */
+  static perCriterion(
+    criterionScores: Record<string, Record<string, number>>,
+    criteria: string[],
+    aggregate: (scores: Record<string, number>) => ConsensusResult
+  ): CriterionConsensus[] {
+    return criteria.flatMap((criterion) => {
+      const scores: Record<string, number> = {}
+      Object.entries(criterionScores).forEach(([agentId, aspects]) => {
+        if (aspects[criterion] !== undefined) {
+          scores[agentId] = aspects[criterion]
+        }
+      })
+
+      if (Object.keys(scores).length === 0) return []
+
+      const result = aggregate(scores)
+      return [{
+        criterion,
+        finalScore: result.finalScore,
+        individualScores: scores,
+        variance: result.variance,
+        confidence: result.confidence,
+        ...(result.credibleInterval && { credibleInterval: result.credibleInterval }),
+      }]
+    })
   }
 
   /**
@@ -231,10 +432,55 @@ export class ConsensusAlgorithms {
     return ratingWeight * experienceWeight * successWeight
   }
 
+  /**
+   * Historical reliability of a judge, 0.05-1
+   * Rating and success rate, shrunk toward 0.5 until the agent has a track record
+   */
+  private static calculateReliability(reputation: ERC8004Reputation): number {
+    const judgments = Math.max(0, reputation.completedJudgments || 0)
+    const quality = Math.max(0, Math.min(1, (reputation.averageRating / 10) * (reputation.successRate || 1)))
+    const reliability = (judgments * quality + RELIABILITY_PRIOR_JUDGMENTS * 0.5) / (judgments + RELIABILITY_PRIOR_JUDGMENTS)
+    return Math.max(0.05, reliability)
+  }
+
+  /**
+   * Error function (Abramowitz and Stegun 7.1.26, absolute error below 1.5e-7)
+   */
+  private static erf(x: number): number {
+    const sign = x < 0 ? -1 : 1
+    const t = 1 / (1 + 0.3275911 * Math.abs(x))
+    const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    return sign * (1 - polynomial * Math.exp(-x * x))
+  }
+
+  /**
+   * Quantile of the standard normal distribution (Acklam's approximation, relative error below 1.2e-9)
+   */
+  private static normalQuantile(p: number): number {
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+    const tail = (q: number) =>
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+
+    if (p < 0.02425) {
+      return tail(Math.sqrt(-2 * Math.log(p)))
+    }
+    if (p > 1 - 0.02425) {
+      return -tail(Math.sqrt(-2 * Math.log(1 - p)))
+    }
+    const q = p - 0.5
+    const r = q * q
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  }
+
   /**
    * Calculate variance of scores
    */
-  private static calculateVariance(
+  static calculateVariance(
     values: number[],
     mean: number
   ): number {
@@ -242,6 +488,15 @@ export class ConsensusAlgorithms {
     return squaredDiffs.reduce((a, b) => a + b, 0) / values.length
   }
 
+  /**
+   * Median of a list of values
+   */
+  private static middle(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+  }
+
   /**
    * Calculate confidence based on variance (low variance = high confidence)
    */
@@ -253,33 +508,65 @@ export class ConsensusAlgorithms {
   }
 
   /**
-   * Detect and handle outlier scores
+   * Detect outlier scores by their robust z-score, 0.6745 * (score - median) / MAD
+   * The plain z-score cannot reach a threshold of 2 on five or fewer scores - the outlier
+   * inflates the standard deviation, so |z| stays below (n-1)/sqrt(n). The median and MAD
+   * ignore it, so one outlier can be flagged from three scores up; two scores never are.
+   * When most scores agree (MAD 0) the mean absolute deviation stands in for the MAD.
+   * The spread is floored at minSpread points, so near-unanimous panels are not split over
+   * fractions of a point. Identical scores have no outliers
    */
   static detectOutliers(
     scores: Record<string, number>,
-    zScoreThreshold: number = 2
+    zScoreThreshold: number = 2,
+    minSpread: number = 1
   ): {
     outliers: string[]
     cleanScores: Record<string, number>
+    zScores: Record<string, number>
   } {
     const values = Object.values(scores)
-    const mean = values.reduce((a, b) => a + b, 0) / values.length
-    const variance = this.calculateVariance(values, mean)
-    const stdDev = Math.sqrt(variance)
+    const median = this.middle(values)
+    const deviations = values.map((value) => Math.abs(value - median))
+    const mad = this.middle(deviations)
+    const meanDeviation = deviations.reduce((a, b) => a + b, 0) / deviations.length
+    // Both scaled to estimate the standard deviation of normally distributed scores
+    const spread = Math.max(mad > 0 ? mad / 0.6745 : meanDeviation * Math.sqrt(Math.PI / 2), minSpread)
 
     const outliers: string[] = []
     const cleanScores: Record<string, number> = {}
+    const zScores: Record<string, number> = {}
 
     Object.entries(scores).forEach(([agentId, score]) => {
-      const zScore = Math.abs((score - mean) / stdDev)
-      if (zScore > zScoreThreshold) {
+      const zScore = spread === 0 ? 0 : (score - median) / spread
+      zScores[agentId] = zScore
+      if (Math.abs(zScore) > zScoreThreshold) {
         outliers.push(agentId)
       } else {
         cleanScores[agentId] = score
       }
     })
 
-    return { outliers, cleanScores }
+    return { outliers, cleanScores, zScores }
+  }
+
+  /**
+   * Correct a judge's score for its historical bias, kept within 0-10
+   * mean_offset removes the judge's offset; z_score also rescales the score's distance from the
+   * judge's mean by its spread, i.e. refMean + spread * (score - judgeMean)
+   */
+  static correctBias(
+    score: number,
+    profile: JudgeBiasProfile,
+    method: BiasCorrectionMethod
+  ): number {
+    if (method === 'none') return score
+
+    let corrected = score - profile.offset
+    if (method === 'z_score' && profile.meanScore !== null) {
+      corrected += (profile.spread - 1) * (score - profile.meanScore)
+    }
+    return Math.max(0, Math.min(10, corrected))
   }
 
   /**
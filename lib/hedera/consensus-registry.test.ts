@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+import { ConsensusRegistry } from './consensus-registry'
+
+describe('ConsensusRegistry.usesCalibratedWeights', () => {
+  const registry = new ConsensusRegistry()
+
+  it('is true only for weighted_average with calibrated weighting', () => {
+    expect(registry.usesCalibratedWeights({ consensusAlgorithm: 'weighted_average', consensusParams: { weighting: 'calibrated' } })).toBe(true)
+    expect(registry.usesCalibratedWeights({ consensusAlgorithm: 'weighted_average' })).toBe(false)
+    expect(registry.usesCalibratedWeights({ consensusAlgorithm: 'bayesian' })).toBe(false)
+    expect(registry.usesCalibratedWeights({ consensusAlgorithm: 'median' })).toBe(false)
+  })
+})
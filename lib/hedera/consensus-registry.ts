@@ -0,0 +1,348 @@
+/**
+ * Consensus Algorithm Registry
+ * Every consensus algorithm an evaluation can select, with its parameter schema.
+ * Built-in algorithms are registered up front; custom ones via registerConsensusAlgorithm
+ */
+
+import { ConsensusAlgorithms, type ConsensusResult } from './consensus-algorithms'
+import type { EvaluationRound } from './hcs-communication'
+import type {
+  Agent,
+  ConsensusAlgorithmInfo,
+  ConsensusParameterSchema,
+  OrchestratorConfig
+} from '../../types/agent'
+
+// What an algorithm gets to aggregate
+export interface ConsensusInput {
+  scores: Record<string, number> // Agent id to the score being aggregated
+  agents: Agent[] // Agents whose scores are aggregated
+  weightMultipliers: Record<string, number> // Outlier down-weighting, 1 when missing
+  confidences: Record<string, number> // Agent id to its self-reported confidence (0-1), missing when not reported
+  calibratedWeights: Record<string, number> // Agent id to its weight learned from past evaluations, empty unless usesCalibratedWeights
+  rounds: EvaluationRound[] // Empty for per-criterion consensus
+  params: Record<string, unknown> // Validated parameters with defaults filled in
+}
+
+export interface ConsensusAlgorithmDefinition {
+  name: string // snake_case, used as OrchestratorConfig.consensusAlgorithm
+  description: string
+  requires: ConsensusAlgorithmInfo['requires']
+  parameters?: Record<string, ConsensusParameterSchema>
+  usesCalibratedWeights?: (params: Record<string, unknown>) => boolean // Calibrated weights are loaded only when true
+  aggregate: (input: ConsensusInput) => ConsensusResult
+}
+
+/**
+ * Thrown when an algorithm definition cannot be registered
+ */
+export class ConsensusRegistryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConsensusRegistryError'
+  }
+}
+
+const ALGORITHM_NAME_PATTERN = /^[a-z][a-z0-9_]*$/
+
+const BUILT_IN_ALGORITHMS: ConsensusAlgorithmDefinition[] = [
+  {
+    name: 'simple_average',
+    description: 'Mean of the scores, every agent weighted equally',
+    requires: { rounds: false, weights: false, messages: false },
+    aggregate: ({ scores }) => ConsensusAlgorithms.simpleAverage(scores),
+  },
+  {
+    name: 'weighted_average',
+    description: 'Mean of the scores weighted by agent reputation, or by weights learned from each judge\'s track record',
+    requires: { rounds: false, weights: true, messages: false },
+    parameters: {
+      weighting: {
+        type: 'string',
+        description: 'reputation: ERC-8004 reputation; calibrated: learned from each judge\'s past deviation from consensus and user feedback',
+        default: 'reputation',
+        enum: ['reputation', 'calibrated'],
+      },
+    },
+    usesCalibratedWeights: (params) => params.weighting === 'calibrated',
+    aggregate: ({ scores, agents, weightMultipliers, calibratedWeights, params }) =>
+      ConsensusAlgorithms.weightedAverage(
+        scores,
+        agents,
+        weightMultipliers,
+        params.weighting === 'calibrated' ? calibratedWeights : {}
+      ),
+  },
+  {
+    name: 'median',
+    description: 'Median score, robust to outliers',
+    requires: { rounds: false, weights: false, messages: false },
+    aggregate: ({ scores }) => ConsensusAlgorithms.median(scores),
+  },
+  {
+    name: 'trimmed_mean',
+    description: 'Mean after dropping the highest and lowest scores',
+    requires: { rounds: false, weights: false, messages: false },
+    parameters: {
+      trimFraction: {
+        type: 'number',
+        description: 'Share of scores trimmed from each end',
+        default: 0.2,
+        minimum: 0,
+        exclusiveMaximum: 0.5,
+      },
+    },
+    aggregate: ({ scores, params }) => ConsensusAlgorithms.trimmedMean(scores, params.trimFraction as number),
+  },
+  {
+    name: 'iterative_convergence',
+    description: 'Replays the score adjustments of each discussion round until the scores converge',
+    requires: { rounds: true, weights: false, messages: true },
+    aggregate: ({ scores, rounds }) =>
+      ConsensusAlgorithms.iterativeConvergence(scores, rounds.flatMap((r) => r.messages), rounds.length),
+  },
+  {
+    name: 'delphi_method',
+    description: 'Judges revise their scores against the anonymized median, interquartile range and rationales of the panel until the IQR narrows; the final median wins',
+    requires: { rounds: true, weights: false, messages: false },
+    parameters: {
+      iqrThreshold: {
+        type: 'number',
+        description: 'Feedback rounds stop once the interquartile range of the scores is below this',
+        default: 1,
+        minimum: 0,
+        maximum: 10,
+      },
+    },
+    aggregate: ({ scores, rounds }) => ConsensusAlgorithms.delphiMethod(scores, rounds.length),
+  },
+  {
+    name: 'majority_voting',
+    description: 'Pass/fail vote of the agents against a threshold',
+    requires: { rounds: false, weights: false, messages: false },
+    parameters: {
+      threshold: {
+        type: 'number',
+        description: 'Scores at or above the threshold vote pass',
+        default: 5,
+        minimum: 0,
+        maximum: 10,
+      },
+    },
+    aggregate: ({ scores, params }) => ConsensusAlgorithms.majorityVoting(scores, params.threshold as number),
+  },
+  {
+    name: 'bayesian',
+    description: 'Posterior mean of the true score, each score weighted by the judge\'s reported confidence and reputation, with a credible interval',
+    requires: { rounds: false, weights: true, messages: false },
+    parameters: {
+      priorMean: {
+        type: 'number',
+        description: 'Score expected before any judge has scored',
+        default: 5,
+        minimum: 0,
+        maximum: 10,
+      },
+      priorStdDev: {
+        type: 'number',
+        description: 'Uncertainty of the prior - larger lets the scores dominate',
+        default: 2.5,
+        minimum: 0.1,
+        maximum: 10,
+      },
+      noiseStdDev: {
+        type: 'number',
+        description: 'Score noise of a fully confident judge with a perfect track record',
+        default: 1,
+        minimum: 0.1,
+        maximum: 10,
+      },
+      credibleLevel: {
+        type: 'number',
+        description: 'Probability mass of the credible interval',
+        default: 0.95,
+        minimum: 0.5,
+        exclusiveMaximum: 1,
+      },
+    },
+    aggregate: ({ scores, agents, weightMultipliers, confidences, params }) =>
+      ConsensusAlgorithms.bayesian(scores, agents, confidences, {
+        priorMean: params.priorMean as number,
+        priorStdDev: params.priorStdDev as number,
+        noiseStdDev: params.noiseStdDev as number,
+        credibleLevel: params.credibleLevel as number,
+      }, weightMultipliers),
+  },
+]
+
+export class ConsensusRegistry {
+  private algorithms = new Map<string, ConsensusAlgorithmDefinition>()
+  private builtIn = new Set<string>()
+
+  constructor() {
+    BUILT_IN_ALGORITHMS.forEach((definition) => {
+      this.register(definition)
+      this.builtIn.add(definition.name)
+    })
+  }
+
+  /**
+   * Register an algorithm - names must be unique
+   */
+  register(definition: ConsensusAlgorithmDefinition): void {
+    if (!ALGORITHM_NAME_PATTERN.test(definition.name)) {
+      throw new ConsensusRegistryError(`Invalid algorithm name "${definition.name}": use snake_case`)
+    }
+    if (this.algorithms.has(definition.name)) {
+      throw new ConsensusRegistryError(`Consensus algorithm ${definition.name} is already registered`)
+    }
+    if (typeof definition.aggregate !== 'function') {
+      throw new ConsensusRegistryError(`Consensus algorithm ${definition.name} has no aggregate function`)
+    }
+    this.algorithms.set(definition.name, definition)
+  }
+
+  has(name: string): boolean {
+    return this.algorithms.has(name)
+  }
+
+  get(name: string): ConsensusAlgorithmDefinition | undefined {
+    return this.algorithms.get(name)
+  }
+
+  names(): string[] {
+    return Array.from(this.algorithms.keys())
+  }
+
+  /**
+   * Every algorithm with its parameter schema
+   */
+  list(): ConsensusAlgorithmInfo[] {
+    return Array.from(this.algorithms.values()).map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      builtIn: this.builtIn.has(definition.name),
+      requires: definition.requires,
+      parameters: {
+        type: 'object',
+        properties: definition.parameters || {},
+        additionalProperties: false,
+      },
+    }))
+  }
+
+  /**
+   * Parameters of the config's algorithm
+   * trimFraction predates consensusParams and is still read from the top level of the config
+   */
+  paramsFromConfig(
+    config: Pick<OrchestratorConfig, 'consensusAlgorithm' | 'consensusParams' | 'trimFraction'>
+  ): Record<string, unknown> {
+    const params = { ...config.consensusParams }
+    const definition = this.get(config.consensusAlgorithm)
+    if (definition?.parameters?.trimFraction && params.trimFraction === undefined && config.trimFraction !== undefined) {
+      params.trimFraction = config.trimFraction
+    }
+    return params
+  }
+
+  /**
+   * Check parameters against the algorithm's schema
+   * Returns the error message, or undefined when valid
+   */
+  validateParams(name: string, params: Record<string, unknown> = {}): string | undefined {
+    const definition = this.get(name)
+    if (!definition) {
+      return `unknown consensus algorithm ${name}`
+    }
+
+    const schema = definition.parameters || {}
+    for (const [key, value] of Object.entries(params)) {
+      const parameter = schema[key]
+      if (!parameter) {
+        const known = Object.keys(schema)
+        return `${name} has no parameter ${key}${known.length > 0 ? ` (parameters: ${known.join(', ')})` : ''}`
+      }
+
+      const typeMatches = parameter.type === 'integer'
+        ? Number.isInteger(value)
+        : parameter.type === 'number'
+          ? typeof value === 'number' && Number.isFinite(value)
+          : typeof value === parameter.type
+      if (!typeMatches) {
+        return `${name} parameter ${key} must be of type ${parameter.type}`
+      }
+
+      if (parameter.enum && !parameter.enum.includes(value as number | string)) {
+        return `${name} parameter ${key} must be one of ${parameter.enum.join(', ')}`
+      }
+      if (typeof value === 'number' && (
+        (parameter.minimum !== undefined && value < parameter.minimum) ||
+        (parameter.maximum !== undefined && value > parameter.maximum) ||
+        (parameter.exclusiveMaximum !== undefined && value >= parameter.exclusiveMaximum)
+      )) {
+        const bounds = [
+          parameter.minimum !== undefined && `at least ${parameter.minimum}`,
+          parameter.maximum !== undefined && `at most ${parameter.maximum}`,
+          parameter.exclusiveMaximum !== undefined && `below ${parameter.exclusiveMaximum}`,
+        ].filter(Boolean)
+        return `${name} parameter ${key} must be ${bounds.join(' and ')}`
+      }
+    }
+
+    return undefined
+  }
+
+  /**
+   * Parameters with the algorithm's defaults filled in
+   */
+  withDefaults(name: string, params: Record<string, unknown> = {}): Record<string, unknown> {
+    const definition = this.get(name)
+    if (!definition) {
+      throw new ConsensusRegistryError(`Unknown consensus algorithm ${name}`)
+    }
+
+    const defaults = Object.fromEntries(
+      Object.entries(definition.parameters || {})
+        .filter(([, parameter]) => parameter.default !== undefined)
+        .map(([key, parameter]) => [key, parameter.default])
+    )
+    return { ...defaults, ...params }
+  }
+
+  /**
+   * Whether the config's algorithm reads calibrated weights with its parameters
+   */
+  usesCalibratedWeights(
+    config: Pick<OrchestratorConfig, 'consensusAlgorithm' | 'consensusParams' | 'trimFraction'>
+  ): boolean {
+    const definition = this.get(config.consensusAlgorithm)
+    if (!definition?.usesCalibratedWeights) return false
+    return definition.usesCalibratedWeights(this.withDefaults(definition.name, this.paramsFromConfig(config)))
+  }
+
+  /**
+   * Run an algorithm with its parameter defaults filled in
+   */
+  aggregate(name: string, input: ConsensusInput): ConsensusResult {
+    const params = this.withDefaults(name, input.params)
+    return this.get(name)!.aggregate({ ...input, params })
+  }
+}
+
+// Singleton instance
+let consensusRegistry: ConsensusRegistry | null = null
+
+export function getConsensusRegistry(): ConsensusRegistry {
+  if (!consensusRegistry) {
+    consensusRegistry = new ConsensusRegistry()
+  }
+  return consensusRegistry
+}
+
+/**
+ * Make a custom consensus algorithm selectable by evaluations
+ */
+export function registerConsensusAlgorithm(definition: ConsensusAlgorithmDefinition): void {
+  getConsensusRegistry().register(definition)
+}
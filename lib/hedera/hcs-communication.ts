@@ -10,9 +10,21 @@ import {
   TopicMessage,
 } from '@hashgraph/sdk'
 import { getHederaService } from './agent-service'
+import type {
+  EvaluationPaymentRecord,
+  OutlierReport,
+  PairwiseVerdict,
+  CandidateRanking,
+  RankingMethod,
+  DelphiStatistics,
+  BiasCorrectionReport,
+  NativeConsensus,
+  NativeScore,
+  ScoreScale
+} from '../../types/agent'
 
 export interface AgentMessage {
-  type: 'score' | 'discussion' | 'adjustment' | 'final'
+  type: 'score' | 'discussion' | 'adjustment' | 'final' | 'cancelled' | 'abstain' | 'failed' | 'outliers' | 'comparison' | 'verdict' | 'delphi_feedback' | 'bias_correction'
   agentId: string
   agentName: string
   timestamp: number
@@ -24,17 +36,38 @@ export interface AgentMessage {
     adjustedScore?: number
     confidence?: number
     aspects?: Record<string, number>
+    nativeScore?: NativeScore // score (or adjustedScore) on the evaluation's scale
+    scale?: ScoreScale // Set when the evaluation declares a scale - scores without one are on 0-10
+    label?: string // Verdict mode: label the agent voted for
     discussion?: string
     replyTo?: string
+    payments?: EvaluationPaymentRecord[]
+    outliers?: OutlierReport['flagged']
+    biasCorrection?: BiasCorrectionReport // Raw and corrected score of each judge
+    statistics?: DelphiStatistics // Anonymized feedback the judges revise against
+    comparison?: Pick<PairwiseVerdict, 'candidateA' | 'candidateB' | 'winner' | 'margin'>
   }
 }
 
+// Receipt of a message published to a topic
+export interface HCSSubmission {
+  txId: string
+  consensusTimestamp: string // seconds.nanoseconds, as shown on HashScan
+}
+
+// Message of an evaluation round, with its HCS receipt once published
+export type RoundMessage = AgentMessage & {
+  hcsTxId?: string
+  consensusTimestamp?: string
+}
+
 export interface EvaluationRound {
   roundNumber: number
   startTime: number
   endTime?: number
-  messages: AgentMessage[]
+  messages: RoundMessage[]
   consensus?: number
+  statistics?: DelphiStatistics // Delphi rounds: spread of the scores at the end of the round
 }
 
 export class HCSCommunicationService {
@@ -68,16 +101,16 @@ export class HCSCommunicationService {
   async submitScore(
     topicId: string,
     message: AgentMessage
-  ): Promise<string> {
+  ): Promise<HCSSubmission> {
     const messageString = JSON.stringify(message)
-    const txId = await this.hederaService.submitMessage(topicId, messageString)
+    const { transactionId, consensusTimestamp } = await this.hederaService.submitMessage(topicId, messageString)
 
     console.log(
       `Agent ${message.agentName} submitted ${message.type}:`,
       message.data.score || message.data.discussion
     )
 
-    return txId
+    return { txId: transactionId, consensusTimestamp }
   }
 
   /**
@@ -177,7 +210,7 @@ export class HCSCommunicationService {
     discussion: string,
     roundNumber: number,
     replyTo?: string
-  ): Promise<string> {
+  ): Promise<HCSSubmission> {
     const message: AgentMessage = {
       type: 'discussion',
       agentId,
@@ -203,8 +236,10 @@ export class HCSCommunicationService {
     originalScore: number,
     adjustedScore: number,
     reasoning: string,
-    roundNumber: number
-  ): Promise<string> {
+    roundNumber: number,
+    aspects?: Record<string, number>,
+    native?: Pick<AgentMessage['data'], 'nativeScore' | 'scale'>
+  ): Promise<HCSSubmission> {
     const message: AgentMessage = {
       type: 'adjustment',
       agentId,
@@ -215,6 +250,36 @@ export class HCSCommunicationService {
         originalScore,
         adjustedScore,
         reasoning,
+        ...(aspects && { aspects }),
+        ...native,
+      },
+    }
+
+    return this.submitScore(topicId, message)
+  }
+
+  /**
+   * Submit a judge's pairwise verdict
+   */
+  async submitComparison(
+    topicId: string,
+    verdict: PairwiseVerdict,
+    roundNumber: number
+  ): Promise<HCSSubmission> {
+    const message: AgentMessage = {
+      type: 'comparison',
+      agentId: verdict.agentId,
+      agentName: verdict.agentName,
+      timestamp: verdict.timestamp,
+      roundNumber,
+      data: {
+        reasoning: verdict.reasoning,
+        comparison: {
+          candidateA: verdict.candidateA,
+          candidateB: verdict.candidateB,
+          winner: verdict.winner,
+          margin: verdict.margin,
+        },
       },
     }
 
@@ -268,8 +333,9 @@ export class HCSCommunicationService {
     finalScore: number,
     individualScores: Record<string, number>,
     consensusAlgorithm: string,
-    totalRounds: number
-  ): Promise<string> {
+    totalRounds: number,
+    native?: NativeConsensus
+  ): Promise<HCSSubmission> {
     const message: AgentMessage = {
       type: 'final',
       agentId: 'coordinator',
@@ -278,9 +344,11 @@ export class HCSCommunicationService {
       roundNumber: totalRounds,
       data: {
         score: finalScore,
+        ...(native && { nativeScore: native.finalScore, scale: native.scale }),
         reasoning: JSON.stringify({
           evaluationId,
           individualScores,
+          ...(native && { nativeIndividualScores: native.individualScores }),
           consensusAlgorithm,
           totalRounds,
           timestamp: Date.now(),
@@ -290,6 +358,42 @@ export class HCSCommunicationService {
 
     return this.submitScore(topicId, message)
   }
+
+  /**
+   * Store the final pairwise ranking on HCS
+   */
+  async publishFinalRanking(
+    topicId: string,
+    comparisonId: string,
+    rankings: CandidateRanking[],
+    method: RankingMethod,
+    totalComparisons: number
+  ): Promise<HCSSubmission> {
+    const message: AgentMessage = {
+      type: 'final',
+      agentId: 'coordinator',
+      agentName: 'System Coordinator',
+      timestamp: Date.now(),
+      roundNumber: totalComparisons,
+      data: {
+        reasoning: JSON.stringify({
+          comparisonId,
+          method,
+          rankings: rankings.map(({ candidateId, rank, rating, lower, upper }) => ({
+            candidateId,
+            rank,
+            rating,
+            lower,
+            upper,
+          })),
+          totalComparisons,
+          timestamp: Date.now(),
+        }),
+      },
+    }
+
+    return this.submitScore(topicId, message)
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Agent, OrchestratorConfig, Rubric } from '../../types/agent'
+
+const { callAgent, evaluateContent } = vi.hoisted(() => ({
+  callAgent: vi.fn(),
+  evaluateContent: vi.fn(),
+}))
+
+vi.mock('../agents/http-client-service', () => {
+  class AgentCallAbortedError extends Error {
+    paymentSubmitted = false
+  }
+  class AgentCallFailedError extends Error {
+    paymentSubmitted = false
+  }
+  return {
+    AgentCallAbortedError,
+    AgentCallFailedError,
+    getAgentHTTPClient: () => ({ callAgent }),
+  }
+})
+vi.mock('../ai/openai-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ai/openai-service')>()),
+  getOpenAIService: () => ({ evaluateContent }),
+}))
+vi.mock('./hcs-communication', () => ({ getHCSService: () => ({}) }))
+vi.mock('../x402/payment-service', () => ({ getX402Service: () => ({}) }))
+vi.mock('../erc8004/viem-registry-service', () => ({ getViemRegistryService: () => ({}) }))
+vi.mock('../evaluations/evaluation-store-service', () => ({ getEvaluationStore: () => ({}) }))
+vi.mock('../evaluations/evaluation-event-bus', () => ({ getEvaluationEventBus: () => ({ publish: vi.fn() }) }))
+vi.mock('../calibration/judge-calibration-service', () => ({ getJudgeCalibrationService: () => ({}) }))
+vi.mock('../database', () => ({ getDatabase: () => ({}) }))
+
+const { MultiAgentOrchestrator } = await import('./multi-agent-orchestrator')
+
+const agent = { id: 'judge-1', name: 'Judge One' } as Agent
+
+const config: OrchestratorConfig = {
+  maxDiscussionRounds: 0,
+  roundTimeout: 1000,
+  maxRetries: 2,
+  retryBackoffMs: 0,
+  consensusAlgorithm: 'simple_average',
+  enableDiscussion: false,
+  convergenceThreshold: 0.5,
+  outlierDetection: false,
+}
+
+const rubric: Rubric = {
+  id: 'rubric-1',
+  name: 'Rubric',
+  version: 1,
+  criteria: [
+    { name: 'Accuracy', weight: 1, required: true },
+    { name: 'Clarity', weight: 1, required: false },
+  ],
+  isPreset: false,
+  createdAt: 0,
+  updatedAt: 0,
+}
+
+const fallback = {
+  score: 6,
+  reasoning: 'Fallback review',
+  confidence: 0.7,
+  aspects: { Accuracy: 6 },
+  strengths: [],
+  improvements: [],
+  label: 'pass',
+}
+
+function newRun(overrides: Record<string, unknown> = {}) {
+  return {
+    evaluationId: 'eval-1',
+    controller: new AbortController(),
+    payments: [],
+    outcomes: {},
+    responses: {},
+    currentRound: 0,
+    finished: Promise.resolve(),
+    ...overrides,
+  }
+}
+
+function evaluate(run: ReturnType<typeof newRun>, runConfig: OrchestratorConfig = config) {
+  const orchestrator = new MultiAgentOrchestrator()
+  return orchestrator['executeAgentEvaluation'](
+    run as never,
+    agent,
+    'content',
+    ['Accuracy', 'Clarity'],
+    run.controller.signal,
+    runConfig
+  )
+}
+
+describe('executeAgentEvaluation', () => {
+  beforeEach(() => {
+    callAgent.mockReset()
+    evaluateContent.mockReset()
+    evaluateContent.mockResolvedValue(fallback)
+  })
+
+  it('does not call a paid agent again when its verdict label is invalid', async () => {
+    callAgent.mockResolvedValue({ score: 8, reasoning: 'ok', confidence: 0.9, label: 'maybe', paymentTx: '0xpaid' })
+    const run = newRun()
+
+    const result = await evaluate(run, { ...config, verdict: { labels: ['pass', 'fail'] } })
+
+    expect(callAgent).toHaveBeenCalledTimes(1)
+    expect(evaluateContent).toHaveBeenCalledTimes(1)
+    expect(result.response.source).toBe('openai_fallback')
+    expect(run.payments).toEqual([
+      expect.objectContaining({ agentId: 'judge-1', paymentTx: '0xpaid', status: 'settled' }),
+    ])
+  })
+
+  it('takes the fallback label instead of asking an agent again for a valid one', async () => {
+    callAgent.mockResolvedValue({ score: 8, reasoning: 'ok', confidence: 0.9, label: 'maybe' })
+
+    const result = await evaluate(newRun(), { ...config, verdict: { labels: ['pass', 'fail'] } })
+
+    expect(callAgent).toHaveBeenCalledTimes(1)
+    expect(result.response.label).toBe('pass')
+  })
+
+  it('fails the agent when the fallback gives no valid label either', async () => {
+    callAgent.mockResolvedValue({ score: 8, reasoning: 'ok', confidence: 0.9, label: 'maybe' })
+    evaluateContent.mockResolvedValue({ ...fallback, label: undefined })
+
+    await expect(evaluate(newRun(), { ...config, verdict: { labels: ['pass', 'fail'] } }))
+      .rejects.toThrow('no valid verdict label')
+  })
+
+  it('does not call a paid agent again when it leaves a required rubric criterion unscored', async () => {
+    callAgent.mockResolvedValue({ score: 8, reasoning: 'ok', confidence: 0.9, aspects: { Clarity: 7 }, paymentTx: '0xpaid' })
+    const run = newRun({ rubric })
+
+    const result = await evaluate(run)
+
+    expect(callAgent).toHaveBeenCalledTimes(1)
+    expect(result.response.source).toBe('openai_fallback')
+    expect(run.payments).toHaveLength(1)
+  })
+
+  it('does not call a paid agent again when its score is off the scale', async () => {
+    callAgent.mockResolvedValue({ score: 'Z', reasoning: 'ok', confidence: 0.9, paymentTx: '0xpaid' })
+    const run = newRun({ scale: { type: 'letter', grades: ['C', 'B', 'A'] } })
+
+    const result = await evaluate(run)
+
+    expect(callAgent).toHaveBeenCalledTimes(1)
+    expect(result.response.source).toBe('openai_fallback')
+    expect(run.payments).toHaveLength(1)
+  })
+
+  it('converts a score on the declared scale and defaults a missing confidence', async () => {
+    callAgent.mockResolvedValue({ score: 'B', reasoning: 'ok' })
+
+    const result = await evaluate(newRun({ scale: { type: 'letter', grades: ['C', 'B', 'A'] } }))
+
+    expect(result.score).toBe(5)
+    expect(result.response.nativeScore).toBe('B')
+    expect(result.response.confidence).toBe(0.5)
+  })
+
+  it('still retries an unpaid agent that failed', async () => {
+    callAgent
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValue({ score: 8, reasoning: 'ok', confidence: 0.9 })
+    const run = newRun()
+
+    const result = await evaluate(run)
+
+    expect(callAgent).toHaveBeenCalledTimes(2)
+    expect(result.score).toBe(8)
+    expect(result.response.source).toBe('agent')
+  })
+})
@@ -13,56 +13,294 @@ import type {
   ConsensusResult,
   ConversationMessage,
   EvaluationTranscript,
-  OrchestratorOutput
+  EvaluationPaymentRecord,
+  AgentOutcomeStatus,
+  OutlierReport,
+  OrchestratorOutput,
+  Rubric,
+  ReviewContext,
+  PeerReview,
+  ChiefVerdict,
+  AgentJudgeResponse,
+  DelphiStatistics,
+  EvaluationReliability,
+  NativeConsensus,
+  ScoreScale,
+  BiasCorrectionReport,
+  JudgeBiasProfile
 } from '../../types/agent'
-import { getHCSService, type AgentMessage, type EvaluationRound } from './hcs-communication'
+import { getHCSService, type AgentMessage, type EvaluationRound, type HCSSubmission, type RoundMessage } from './hcs-communication'
 import { ConsensusAlgorithms } from './consensus-algorithms'
+import { getConsensusRegistry } from './consensus-registry'
+import { ReliabilityStatistics } from './reliability-statistics'
 import { getX402Service } from '../x402/payment-service'
 import { getViemRegistryService } from '../erc8004/viem-registry-service'
-import { getOpenAIService } from '../ai/openai-service'
-import { getAgentHTTPClient } from '../agents/http-client-service'
+import { getOpenAIService, sanitizeAspects, sanitizeFeedback, sanitizeLabel } from '../ai/openai-service'
+import {
+  getAgentHTTPClient,
+  AgentCallAbortedError,
+  AgentCallFailedError,
+  type AgentPaymentSigner
+} from '../agents/http-client-service'
+import { getEvaluationStore, EvaluationExistsError } from '../evaluations/evaluation-store-service'
+import { getEvaluationEventBus } from '../evaluations/evaluation-event-bus'
+import { getJudgeCalibrationService } from '../calibration/judge-calibration-service'
+import { weightedRubricScore, missingRequiredCriteria } from '../rubrics/rubric-service'
+import { DEFAULT_MAX_RETRIES } from './orchestrator-config'
+import { DEFAULT_SCORE_SCALE, resolveScoreScale, toInternalScore, toNativeScore } from '../scoring/score-scale'
 
 // Remove duplicate interfaces - they're now imported from types/agent.ts
 
+/**
+ * Thrown when an evaluation is cancelled before it completes
+ */
+export class EvaluationCancelledError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EvaluationCancelledError'
+  }
+}
+
+/**
+ * Thrown when an agent misses its per-call deadline (OrchestratorConfig.roundTimeout)
+ */
+export class AgentTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`No response within ${timeoutMs}ms`)
+    this.name = 'AgentTimeoutError'
+  }
+}
+
+/**
+ * Thrown when every attempt to get a score from an agent failed
+ */
+export class AgentEvaluationFailedError extends Error {
+  constructor(message: string, public attempts: number) {
+    super(message)
+    this.name = 'AgentEvaluationFailedError'
+  }
+}
+
+/**
+ * Thrown when too few agents are left to reach consensus
+ */
+export class QuorumNotMetError extends Error {
+  constructor(public activeAgents: number, public requiredAgents: number) {
+    super(`Quorum not met: ${activeAgents} agent(s) responded, ${requiredAgents} required`)
+    this.name = 'QuorumNotMetError'
+  }
+}
+
+// Transcript explanation of each outlier strategy
+const OUTLIER_STRATEGY_DESCRIPTIONS: Record<OutlierReport['strategy'], string> = {
+  drop: 'Outliers are excluded from consensus',
+  down_weight: 'Outliers are down-weighted in consensus',
+  extra_round: 'Outliers get an extra discussion round before consensus',
+}
+
+// Transcript explanation of each bias correction method
+const BIAS_CORRECTION_DESCRIPTIONS: Record<BiasCorrectionReport['method'], string> = {
+  mean_offset: 'Judge scores are corrected by their historical offset from consensus',
+  z_score: 'Judge scores are corrected by their historical offset from consensus and rescaled to its spread',
+}
+
+const DEFAULT_RETRY_BACKOFF_MS = 1000
+
+const DEFAULT_CRITERIA = ['Accuracy', 'Clarity', 'Completeness', 'Relevance']
+
+// Consensus algorithm whose discussion rounds give anonymized feedback instead of named peer scores
+const DELPHI_ALGORITHM = 'delphi_method'
+
+// Transcript messages that change an agent's score
+const SCORE_MESSAGE_TYPES: AgentMessage['type'][] = ['score', 'adjustment', 'abstain', 'failed', 'outliers']
+
+/**
+ * Wait for the given delay, rejecting early when the signal aborts
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Keep an agent-reported confidence within 0-1 (0.5 when missing)
+ */
+function clampConfidence(confidence: unknown): number {
+  const value = Number(confidence)
+  return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0.5
+}
+
+/**
+ * Replay a transcript to the scores the consensus was computed from
+ * Returns each agent's final overall and per-criterion scores, and the rounds
+ * restricted to score-changing messages as they were during the live run
+ */
+function replayTranscript(rounds: EvaluationRound[]): {
+  scores: Record<string, number>
+  aspects: Record<string, Record<string, number>>
+  scoreRounds: EvaluationRound[]
+} {
+  const scores: Record<string, number> = {}
+  const aspects: Record<string, Record<string, number>> = {}
+
+  const scoreRounds = rounds.map((round) => ({
+    ...round,
+    messages: round.messages.filter((msg) => SCORE_MESSAGE_TYPES.includes(msg.type)),
+  }))
+
+  scoreRounds.forEach((round) => {
+    round.messages.forEach((msg) => {
+      switch (msg.type) {
+        case 'score':
+          if (msg.data.score === undefined) break
+          scores[msg.agentId] = msg.data.score
+          aspects[msg.agentId] = msg.data.aspects || {}
+          break
+        case 'adjustment':
+          if (msg.data.adjustedScore === undefined) break
+          scores[msg.agentId] = msg.data.adjustedScore
+          aspects[msg.agentId] = msg.data.aspects || aspects[msg.agentId] || {}
+          break
+        case 'abstain':
+        case 'failed':
+          delete scores[msg.agentId]
+          delete aspects[msg.agentId]
+          break
+      }
+    })
+  })
+
+  return { scores, aspects, scoreRounds }
+}
+
+// What happened to an agent so far in a run
+interface AgentOutcome {
+  status: AgentOutcomeStatus
+  reason?: string
+  attempts?: number
+}
+
+// State of an evaluation running in this process
+interface EvaluationRun {
+  evaluationId: string
+  controller: AbortController
+  payments: EvaluationPaymentRecord[]
+  outcomes: Record<string, AgentOutcome>
+  responses: Record<string, AgentJudgeResponse> // What each judge returned, by agent id
+  currentRound: number
+  rubric?: Rubric
+  scale?: ScoreScale // Scale judges answer on, when the config declares one
+  signer?: AgentPaymentSigner // Pays agents instead of the default orchestrator account
+  finished: Promise<void>
+}
+
 export class MultiAgentOrchestrator {
   private hcsService = getHCSService()
   private x402Service = getX402Service()
   private registryService = getViemRegistryService()
   private openAIService = getOpenAIService()
   private agentHTTPClient = getAgentHTTPClient()
+  private evaluationStore = getEvaluationStore()
+  private eventBus = getEvaluationEventBus()
+  private consensusRegistry = getConsensusRegistry()
+  private calibrationService = getJudgeCalibrationService()
+  private runs = new Map<string, EvaluationRun>()
 
   /**
    * Execute complete multi-agent evaluation workflow
-   * Following the 7-step process described in the documentation
+   * Following the 7-step process described in the documentation.
+   * Callers that pass the topic they created have created the evaluation record with it
    */
   async executeEvaluation(
     request: JudgmentRequest,
     config: OrchestratorConfig,
-    existingTopicId?: string
+    existingTopicId?: string,
+    signer?: AgentPaymentSigner
   ): Promise<OrchestratorOutput> {
     const agents = request.selectedAgents
     console.log('🚀 Starting Multi-Agent Evaluation Orchestrator')
     console.log(`Agents: ${agents.map((a) => a.name).join(', ')}`)
     console.log(`Algorithm: ${config.consensusAlgorithm}`)
 
-    // Step 1: Setup Environment and Communication Layer
-    const topicId = existingTopicId || await this.setupCommunicationLayer(request, agents, config)
+    if (this.runs.has(request.id)) {
+      throw new EvaluationExistsError(request.id)
+    }
+
+    // Register the run before the first await so it can be cancelled right away
+    let markFinished: () => void = () => {}
+    const run: EvaluationRun = {
+      evaluationId: request.id,
+      controller: new AbortController(),
+      payments: [],
+      outcomes: {},
+      responses: {},
+      currentRound: 0,
+      rubric: request.rubric,
+      scale: config.scoreScale && resolveScoreScale(config.scoreScale),
+      signer,
+      finished: new Promise<void>((resolve) => { markFinished = resolve }),
+    }
+    this.runs.set(request.id, run)
+    let topicId = existingTopicId
+
+    // Persist the evaluation so progress survives restarts. Done outside the workflow's
+    // error handling - a taken id must not mark the evaluation that holds it as failed
+    if (!existingTopicId) {
+      try {
+        await this.evaluationStore.createEvaluation(request, config)
+      } catch (error) {
+        this.runs.delete(request.id)
+        markFinished()
+        throw error
+      }
+    }
 
     try {
+      // Step 1: Setup Environment and Communication Layer
+      topicId = topicId || await this.setupCommunicationLayer(request, agents, config)
+      await this.eventBus.publish(request.id, 'topic_created', { topicId })
+
       // Step 2: Define Agents and Evaluation Criteria (already done via agents config)
-      const evaluationCriteria = request.criteria || [
-        'Accuracy',
-        'Clarity',
-        'Completeness',
-        'Relevance',
-      ]
+      // A rubric's criteria take precedence over free-form criteria
+      const evaluationCriteria = request.rubric?.criteria.map((criterion) => criterion.name) || request.criteria || DEFAULT_CRITERIA
+
+      // In the hierarchical workflow the chief judge sits out the panel and rules on its result
+      const chief = config.workflow === 'hierarchical'
+        ? agents.find((agent) => agent.id === config.chiefJudgeId)
+        : undefined
+      if (config.workflow === 'hierarchical' && !chief) {
+        throw new Error(`Chief judge ${config.chiefJudgeId} is not one of the selected agents`)
+      }
+      const panel = chief ? agents.filter((agent) => agent.id !== chief.id) : agents
 
       // Step 3: Independent Scoring Phase
-      const initialScores = await this.independentScoringPhase(
+      const {
+        scores: initialScores,
+        aspects: criterionScores,
+        reasoning,
+        messages: scoreMessages,
+        exclusions
+      } = await this.independentScoringPhase(
+        run,
         request,
-        agents,
+        panel,
         topicId,
-        evaluationCriteria
+        evaluationCriteria,
+        config
       )
 
       let currentScores = { ...initialScores }
@@ -71,38 +309,122 @@ export class MultiAgentOrchestrator {
           roundNumber: 0,
           startTime: Date.now(),
           endTime: Date.now(),
-          messages: Object.entries(initialScores).map(([agentId, score]) => ({
-            type: 'score' as const,
-            agentId,
-            agentName: agents.find((a) => a.id === agentId)?.name || agentId,
-            timestamp: Date.now(),
-            roundNumber: 0,
-            data: { score },
-          })),
+          messages: [...scoreMessages, ...exclusions],
         },
       ]
+      const initialValues = Object.values(initialScores)
+      await this.evaluationStore.recordRound(
+        request.id,
+        evaluationRounds[0],
+        ConsensusAlgorithms.calculateVariance(
+          initialValues,
+          initialValues.reduce((a, b) => a + b, 0) / initialValues.length
+        )
+      )
+
+      // Delphi judges revise against each other's rationales, starting from their initial reasoning
+      const delphiRationales = config.consensusAlgorithm === DELPHI_ALGORITHM ? { ...reasoning } : undefined
 
       // Step 4 & 5: Multi-Agent Discussion and Consensus
-      if (config.enableDiscussion && agents.length > 1) {
+      if (config.enableDiscussion && Object.keys(currentScores).length > 1) {
         const { finalScores, rounds } = await this.multiRoundDiscussion(
+          run,
           topicId,
-          agents,
+          panel,
           currentScores,
+          criterionScores,
           request.content,
           evaluationCriteria,
-          config
+          config,
+          delphiRationales
         )
         currentScores = finalScores
         evaluationRounds.push(...rounds)
       }
 
+      // Outlier detection runs before the consensus algorithm, on bias-corrected scores
+      // so a judge is not flagged for being as harsh or lenient as it always is
+      run.controller.signal.throwIfAborted()
+      const biasProfiles = await this.biasProfiles(request.id, config, panel)
+      const outliers = await this.flagOutliers(
+        run,
+        topicId,
+        this.correctedScores(currentScores, biasProfiles, config),
+        config,
+        evaluationRounds
+      )
+      if (outliers?.strategy === 'extra_round' && outliers.flagged.length > 0) {
+        const speakers = panel.filter((agent) =>
+          outliers.flagged.some((outlier) => outlier.agentId === agent.id)
+        )
+        const { completedRound } = await this.discussionRound(
+          run,
+          topicId,
+          speakers,
+          panel,
+          currentScores,
+          criterionScores,
+          request.content,
+          evaluationCriteria,
+          config,
+          evaluationRounds.length,
+          delphiRationales
+        )
+        evaluationRounds.push(completedRound)
+      }
+
       // Step 6: Consensus Aggregation
-      const consensusResult = await this.aggregateConsensus(
+      // Agents that abstained (timed out) are left out
+      run.controller.signal.throwIfAborted()
+      const respondingAgents = panel.filter((agent) => currentScores[agent.id] !== undefined)
+      let consensusResult = await this.aggregateConsensus(
         currentScores,
-        agents,
+        respondingAgents,
         config,
-        evaluationRounds
+        evaluationRounds,
+        outliers,
+        criterionScores,
+        evaluationCriteria,
+        request.rubric,
+        biasProfiles
       )
+      await this.publishBiasCorrection(run, topicId, consensusResult.biasCorrection, evaluationRounds)
+
+      // Hierarchical workflow: the chief judge's verdict replaces the panel's final score
+      const judges = [...respondingAgents]
+      const judgeScores = { ...currentScores }
+      if (chief) {
+        const { verdict, completedRound } = await this.chiefVerdictPhase(
+          run,
+          request,
+          chief,
+          respondingAgents,
+          topicId,
+          evaluationCriteria,
+          config,
+          currentScores,
+          criterionScores,
+          reasoning,
+          consensusResult.finalScore,
+          evaluationRounds.length
+        )
+        evaluationRounds.push(completedRound)
+        if (verdict) {
+          consensusResult = { ...consensusResult, finalScore: verdict.score, chiefVerdict: verdict }
+          // The chief judge's label is binding like its score
+          if (consensusResult.verdict && verdict.label) {
+            consensusResult.verdict = {
+              ...consensusResult.verdict,
+              label: verdict.label,
+              panelLabel: consensusResult.verdict.label,
+            }
+          }
+          judges.push(chief)
+          judgeScores[chief.id] = verdict.score
+        }
+      }
+      consensusResult = this.withNativeScores(config, consensusResult)
+      await this.eventBus.publish(request.id, 'consensus_computed', { consensus: consensusResult })
 
       // Step 7: Store final result on Hedera for transparency
       await this.publishFinalResult(
@@ -115,17 +437,21 @@ export class MultiAgentOrchestrator {
       // Create individual judgment results for each agent
       const judgmentResults = this.createJudgmentResults(
         request,
-        agents,
-        currentScores,
-        consensusResult
+        judges,
+        judgeScores,
+        run.responses
       )
 
-      // Update agent reputations based on participation
-      await this.updateAgentReputations(agents, consensusResult)
+      // Track how far each judge landed from the consensus, for calibrated weights
+      await this.updateJudgeCalibration(request.id, consensusResult)
 
       console.log('✅ Evaluation completed successfully')
       console.log(`Final Score: ${consensusResult.finalScore.toFixed(2)}`)
       console.log(`Confidence: ${(consensusResult.confidence * 100).toFixed(1)}%`)
+      if (consensusResult.credibleInterval) {
+        const { lower, upper, level } = consensusResult.credibleInterval
+        console.log(`${(level * 100).toFixed(0)}% credible interval: ${lower.toFixed(2)}-${upper.toFixed(2)}`)
+      }
       console.log(`Convergence: ${consensusResult.convergenceRounds} rounds`)
 
       // Create transcript from evaluation rounds
@@ -136,35 +462,189 @@ export class MultiAgentOrchestrator {
         status: 'completed',
         currentRound: evaluationRounds.length,
         totalRounds: config.maxDiscussionRounds,
-        scoresReceived: agents.length,
+        scoresReceived: Object.keys(initialScores).length,
         totalAgents: agents.length,
         topicId,
         currentScores: consensusResult.individualScores,
         variance: consensusResult.variance
       }
 
-      return {
+      const output: OrchestratorOutput = {
         requestId: request.id,
         topicId,
         progress,
         transcript,
         consensus: consensusResult,
-        individualResults: judgmentResults.map(result => ({
-          agentId: result.agentId,
-          score: result.score,
-          feedback: result.feedback,
-          strengths: result.strengths,
-          improvements: result.improvements,
-          completedAt: result.completedAt,
-          paymentTx: result.paymentTx
-        }))
+        individualResults: agents.map((agent) => {
+          const outcome = run.outcomes[agent.id]
+          const result = judgmentResults.find((r) => r.agentId === agent.id)
+
+          if (!result) {
+            return {
+              agentId: agent.id,
+              status: outcome.status,
+              reason: outcome.reason,
+              attempts: outcome.attempts,
+              feedback: `Excluded from consensus: ${outcome.reason}`,
+              strengths: [],
+              improvements: [],
+              completedAt: Date.now(),
+              // A paid agent whose answer was rejected still has a settled payment
+              paymentTx: run.payments.find((p) => p.agentId === agent.id && p.status === 'settled')?.paymentTx,
+              response: run.responses[agent.id] // Agents that abstained during discussion did score
+            }
+          }
+
+          return {
+            agentId: result.agentId,
+            status: outcome.status,
+            attempts: outcome.attempts,
+            score: result.score,
+            feedback: result.feedback,
+            strengths: result.strengths,
+            improvements: result.improvements,
+            completedAt: result.completedAt,
+            paymentTx: result.paymentTx,
+            response: run.responses[agent.id]
+          }
+        })
       }
+
+      await this.evaluationStore.completeEvaluation(request.id, output)
+      await this.eventBus.publish(request.id, 'evaluation_completed', {
+        finalScore: consensusResult.finalScore,
+        ...(consensusResult.native && { nativeScore: consensusResult.native.finalScore }),
+        confidence: consensusResult.confidence,
+      })
+
+      return output
     } catch (error) {
+      if (run.controller.signal.aborted) {
+        await this.recordCancellation(run, topicId)
+        throw run.controller.signal.reason
+      }
+
       console.error('Error in evaluation workflow:', error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await this.evaluationStore.failEvaluation(request.id, message)
+      await this.eventBus.publish(request.id, 'evaluation_failed', { error: message })
       throw error
+    } finally {
+      await this.evaluationStore.recordPayments(request.id, run.payments)
+      this.runs.delete(request.id)
+      markFinished()
     }
   }
 
+  /**
+   * Cancel an evaluation running in this process
+   * Aborts in-flight agent and OpenAI calls and skips remaining rounds.
+   * Resolves once the cancellation is recorded; false if the evaluation is not running here
+   */
+  async cancelEvaluation(evaluationId: string, reason: string = 'Cancelled by user'): Promise<boolean> {
+    const run = this.runs.get(evaluationId)
+    if (!run) {
+      return false
+    }
+
+    console.log(`🛑 Cancelling evaluation ${evaluationId}: ${reason}`)
+    run.controller.abort(new EvaluationCancelledError(reason))
+    await run.finished
+
+    return true
+  }
+
+  /**
+   * Recompute the consensus of a finished evaluation with different consensus settings
+   * Round scores are replayed from the persisted transcript, or from the HCS topic when
+   * nothing was persisted. Nothing is published or stored, so the original result is untouched.
+   * The extra_round outlier strategy only reports outliers since no new round can be run.
+   */
+  async recomputeConsensus(
+    evaluationId: string,
+    topicId: string | undefined,
+    agents: Agent[],
+    config: OrchestratorConfig,
+    criteria?: string[],
+    rubric?: Rubric
+  ): Promise<{ consensus: ConsensusResult; transcriptSource: 'database' | 'hcs' }> {
+    let transcriptSource: 'database' | 'hcs' = 'database'
+    let rounds = await this.evaluationStore.getRounds(evaluationId)
+
+    if (!rounds.some((round) => round.messages.some((msg) => msg.type === 'score')) && topicId) {
+      console.log(`📜 No persisted transcript for ${evaluationId}, reading HCS topic ${topicId}...`)
+      const messages = await this.hcsService.getTopicHistory(topicId)
+      const roundNumbers = [...new Set(messages.map((msg) => msg.roundNumber))].sort((a, b) => a - b)
+      rounds = roundNumbers.map((roundNumber) => {
+        const roundMessages = messages.filter((msg) => msg.roundNumber === roundNumber)
+        return { roundNumber, startTime: roundMessages[0].timestamp, messages: roundMessages }
+      })
+      transcriptSource = 'hcs'
+    }
+
+    const { scores, aspects, scoreRounds } = replayTranscript(rounds)
+    if (Object.keys(scores).length === 0) {
+      throw new Error(`No agent scores found in the transcript of ${evaluationId}`)
+    }
+
+    const respondingAgents = agents.filter((agent) => scores[agent.id] !== undefined)
+    // Bias profiles come from the judges' current history, without this evaluation's own samples
+    const biasProfiles = await this.biasProfiles(evaluationId, config, respondingAgents)
+    const consensus = this.withNativeScores(config, await this.aggregateConsensus(
+      scores,
+      respondingAgents,
+      config,
+      scoreRounds,
+      this.detectOutliers(this.correctedScores(scores, biasProfiles, config), config),
+      aspects,
+      rubric?.criteria.map((criterion) => criterion.name) || criteria || DEFAULT_CRITERIA,
+      rubric,
+      biasProfiles
+    ))
+
+    return { consensus, transcriptSource }
+  }
+
+  /**
+   * Publish the cancellation to HCS and record it with the payments already made
+   */
+  private async recordCancellation(run: EvaluationRun, topicId?: string): Promise<void> {
+    const reason = run.controller.signal.reason instanceof Error
+      ? run.controller.signal.reason.message
+      : 'Cancelled'
+    let submission: HCSSubmission | undefined
+
+    if (topicId) {
+      const message: AgentMessage = {
+        type: 'cancelled',
+        agentId: 'coordinator',
+        agentName: 'System Coordinator',
+        timestamp: Date.now(),
+        roundNumber: run.currentRound,
+        data: {
+          reasoning: reason,
+          payments: run.payments,
+        },
+      }
+
+      try {
+        submission = await this.hcsService.submitScore(topicId, message)
+      } catch (error) {
+        console.error('Failed to publish cancellation to HCS:', error)
+      }
+      await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    }
+
+    await this.evaluationStore.cancelEvaluation(run.evaluationId, reason)
+    await this.eventBus.publish(run.evaluationId, 'evaluation_cancelled', {
+      reason,
+      payments: run.payments,
+      hcsTxId: submission?.txId,
+    })
+
+    console.log(`🛑 Evaluation ${run.evaluationId} cancelled after ${run.payments.length} payment(s)`)
+  }
+
   /**
    * Step 1: Setup HCS topic for communication
    */
@@ -186,25 +666,64 @@ export class MultiAgentOrchestrator {
 
   /**
    * Step 3: Independent Scoring Phase
-   * Each agent evaluates independently and publishes to HCS
+   * Each agent evaluates independently and publishes to HCS.
+   * In the sequential workflow agents score one after another, each seeing the reviews before it
    */
   private async independentScoringPhase(
+    run: EvaluationRun,
     request: JudgmentRequest,
     agents: Agent[],
     topicId: string,
-    criteria: string[]
-  ): Promise<Record<string, number>> {
-    console.log('🎯 Phase 1: Independent Scoring...')
+    criteria: string[],
+    config: OrchestratorConfig
+  ): Promise<{
+    scores: Record<string, number>
+    aspects: Record<string, Record<string, number>>
+    reasoning: Record<string, string>
+    messages: RoundMessage[]
+    exclusions: RoundMessage[]
+  }> {
+    const sequential = config.workflow === 'sequential'
+    console.log(`🎯 Phase 1: ${sequential ? 'Sequential' : 'Independent'} Scoring...`)
 
     const scores: Record<string, number> = {}
-
-    // Execute all agent evaluations in parallel
-    const scoringPromises = agents.map(async (agent) => {
-      // Simulate AI evaluation (in production, call actual AI API)
-      const score = await this.executeAgentEvaluation(agent, request.content, criteria)
+    const aspects: Record<string, Record<string, number>> = {}
+    const reasoning: Record<string, string> = {}
+    const messages: RoundMessage[] = []
+    const exclusions: RoundMessage[] = []
+
+    const scoreAgent = async (agent: Agent, review?: ReviewContext) => {
+      let score: number
+      let agentAspects: Record<string, number>
+      let agentReasoning: string
+      let response: AgentJudgeResponse
+      try {
+        const evaluation = await this.withAgentDeadline(run, config.roundTimeout, (signal) =>
+          this.executeAgentEvaluation(run, agent, request.content, criteria, signal, config, review)
+        )
+        score = evaluation.score
+        agentAspects = evaluation.aspects
+        agentReasoning = evaluation.reasoning
+        response = evaluation.response
+        run.outcomes[agent.id] = { status: 'scored', attempts: evaluation.attempts }
+      } catch (error) {
+        if (error instanceof AgentTimeoutError || error instanceof AgentEvaluationFailedError) {
+          const status = error instanceof AgentTimeoutError ? 'timed_out' : 'failed'
+          run.outcomes[agent.id] = {
+            status,
+            reason: error.message,
+            attempts: error instanceof AgentEvaluationFailedError ? error.attempts : undefined,
+          }
+          exclusions.push(await this.recordExclusion(run, topicId, agent, 0, status, error.message))
+          return
+        }
+        throw error
+      }
+      run.controller.signal.throwIfAborted()
 
       // Publish score to HCS topic
-      await this.hcsService.submitScore(topicId, {
+      const previous = review?.reviews[review.reviews.length - 1]
+      const message: AgentMessage = {
         type: 'score',
         agentId: agent.id,
         agentName: agent.name,
@@ -212,187 +731,1078 @@ export class MultiAgentOrchestrator {
         roundNumber: 0,
         data: {
           score,
-          reasoning: `Initial evaluation based on: ${criteria.join(', ')}`,
-          confidence: 0.8,
-          aspects: criteria.reduce((acc, c) => ({ ...acc, [c]: score + Math.random() - 0.5 }), {}),
+          reasoning: agentReasoning || `Initial evaluation based on: ${criteria.join(', ')}`,
+          confidence: response.confidence,
+          aspects: agentAspects,
+          ...this.nativeScore(run, score),
+          ...(response.label && { label: response.label }),
+          ...(previous && { replyTo: previous.agentId }),
         },
-      })
+      }
+      const submission = await this.hcsService.submitScore(topicId, message)
 
+      run.responses[agent.id] = { ...response, hcsTxIds: [submission.txId] }
       scores[agent.id] = score
-      console.log(`  ✓ ${agent.name}: ${score.toFixed(2)}/10`)
+      aspects[agent.id] = agentAspects
+      reasoning[agent.id] = message.data.reasoning!
+      messages.push({ ...message, hcsTxId: submission.txId, consensusTimestamp: submission.consensusTimestamp })
+      await this.evaluationStore.recordMessage(request.id, message, submission)
+      await this.eventBus.publish(request.id, 'agent_scored', {
+        agentId: agent.id,
+        agentName: agent.name,
+        score,
+        ...(response.nativeScore !== undefined && { nativeScore: response.nativeScore }),
+        aspects: agentAspects,
+        ...(response.label && { label: response.label }),
+        hcsTxId: submission.txId,
+      })
+      console.log(`  ✓ ${agent.name}: ${score.toFixed(2)}/10${response.label ? ` (${response.label})` : ''}`)
+    }
+
+    if (sequential) {
+      // Each judge sees the reviews of the judges that scored before it
+      for (const agent of agents) {
+        run.controller.signal.throwIfAborted()
+        await scoreAgent(agent, { role: 'sequential', reviews: this.peerReviews(agents, scores, aspects, reasoning, run.responses) })
+      }
+    } else {
+      // Execute all agent evaluations in parallel, each against its own deadline
+      // Wait for every call to settle so payments made before a cancellation are all recorded
+      const outcomes = await Promise.allSettled(agents.map((agent) => scoreAgent(agent)))
+      run.controller.signal.throwIfAborted()
+
+      const failure = outcomes.find((outcome) => outcome.status === 'rejected')
+      if (failure) {
+        throw (failure as PromiseRejectedResult).reason
+      }
+    }
+
+    this.assertQuorum(config, agents.length, Object.keys(scores).length)
+
+    return { scores, aspects, reasoning, messages, exclusions }
+  }
+
+  /**
+   * Reviews of the agents that have scored so far, in panel order
+   */
+  private peerReviews(
+    agents: Agent[],
+    scores: Record<string, number>,
+    aspects: Record<string, Record<string, number>>,
+    reasoning: Record<string, string>,
+    responses: Record<string, AgentJudgeResponse>
+  ): PeerReview[] {
+    return agents
+      .filter((agent) => scores[agent.id] !== undefined)
+      .map((agent) => ({
+        agentId: agent.id,
+        agentName: agent.name,
+        score: scores[agent.id],
+        reasoning: reasoning[agent.id] || '',
+        aspects: aspects[agent.id],
+        label: responses[agent.id]?.label,
+      }))
+  }
+
+  /**
+   * Hierarchical workflow: the chief judge reviews the panel and issues the binding verdict
+   * Published to HCS as a 'verdict' message in its own round. Returns undefined when the
+   * chief judge times out or fails - the panel consensus then stands
+   */
+  private async chiefVerdictPhase(
+    run: EvaluationRun,
+    request: JudgmentRequest,
+    chief: Agent,
+    panel: Agent[],
+    topicId: string,
+    criteria: string[],
+    config: OrchestratorConfig,
+    scores: Record<string, number>,
+    aspects: Record<string, Record<string, number>>,
+    reasoning: Record<string, string>,
+    panelScore: number,
+    round: number
+  ): Promise<{ verdict?: ChiefVerdict; completedRound: EvaluationRound }> {
+    console.log(`👑 Phase 4: Chief Judge Verdict (${chief.name})...`)
+    run.controller.signal.throwIfAborted()
+    run.currentRound = round
+    await this.eventBus.publish(run.evaluationId, 'round_started', { round })
+
+    const roundStart = Date.now()
+    const review: ReviewContext = { role: 'chief', reviews: this.peerReviews(panel, scores, aspects, reasoning, run.responses) }
+    const completedRound: EvaluationRound = { roundNumber: round, startTime: roundStart, messages: [] }
+
+    let evaluation: Awaited<ReturnType<MultiAgentOrchestrator['executeAgentEvaluation']>>
+    try {
+      evaluation = await this.withAgentDeadline(run, config.roundTimeout, (signal) =>
+        this.executeAgentEvaluation(run, chief, request.content, criteria, signal, config, review)
+      )
+      run.outcomes[chief.id] = { status: 'scored', attempts: evaluation.attempts }
+    } catch (error) {
+      if (!(error instanceof AgentTimeoutError || error instanceof AgentEvaluationFailedError)) {
+        throw error
+      }
+      const status = error instanceof AgentTimeoutError ? 'timed_out' : 'failed'
+      run.outcomes[chief.id] = {
+        status,
+        reason: error.message,
+        attempts: error instanceof AgentEvaluationFailedError ? error.attempts : undefined,
+      }
+      completedRound.messages.push(await this.recordExclusion(run, topicId, chief, round, status, error.message))
+      completedRound.endTime = Date.now()
+      await this.evaluationStore.recordRound(run.evaluationId, completedRound)
+      console.log('  ⚠️  No chief verdict - the panel consensus stands')
+      return { completedRound }
+    }
+    run.controller.signal.throwIfAborted()
+
+    const justification = evaluation.reasoning || 'No justification given'
+    const message: AgentMessage = {
+      type: 'verdict',
+      agentId: chief.id,
+      agentName: chief.name,
+      timestamp: Date.now(),
+      roundNumber: round,
+      data: {
+        score: evaluation.score,
+        originalScore: panelScore,
+        reasoning: justification,
+        aspects: evaluation.aspects,
+        ...this.nativeScore(run, evaluation.score),
+        ...(evaluation.response.label && { label: evaluation.response.label }),
+      },
+    }
+
+    let submission: HCSSubmission | undefined
+    try {
+      submission = await this.hcsService.submitScore(topicId, message)
+    } catch (error) {
+      console.error('Failed to publish chief verdict to HCS:', error)
+    }
+    const hcsTxId = submission?.txId
+
+    run.responses[chief.id] = { ...evaluation.response, hcsTxIds: hcsTxId ? [hcsTxId] : [] }
+    completedRound.messages.push({ ...message, hcsTxId, consensusTimestamp: submission?.consensusTimestamp })
+    completedRound.endTime = Date.now()
+    await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    await this.evaluationStore.recordRound(run.evaluationId, completedRound)
+    await this.eventBus.publish(run.evaluationId, 'chief_verdict', {
+      agentId: chief.id,
+      agentName: chief.name,
+      score: evaluation.score,
+      ...(evaluation.response.nativeScore !== undefined && { nativeScore: evaluation.response.nativeScore }),
+      panelScore,
+      justification,
+      ...(evaluation.response.label && { label: evaluation.response.label }),
+      hcsTxId,
     })
+    console.log(`  ✓ ${chief.name}: ${evaluation.score.toFixed(2)}/10 (panel: ${panelScore.toFixed(2)})`)
+
+    return {
+      verdict: {
+        agentId: chief.id,
+        agentName: chief.name,
+        score: evaluation.score,
+        justification,
+        aspects: evaluation.aspects,
+        label: evaluation.response.label,
+        panelScore,
+        hcsTxId,
+      },
+      completedRound,
+    }
+  }
+
+  /**
+   * Run an agent call against the per-agent deadline
+   * The call is aborted when the deadline passes (AgentTimeoutError) or the evaluation is cancelled
+   */
+  private async withAgentDeadline<T>(
+    run: EvaluationRun,
+    timeoutMs: number,
+    call: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController()
+    const onCancel = () => controller.abort(run.controller.signal.reason)
+    const timer = setTimeout(() => controller.abort(new AgentTimeoutError(timeoutMs)), timeoutMs)
+    run.controller.signal.addEventListener('abort', onCancel, { once: true })
+
+    try {
+      return await call(controller.signal)
+    } catch (error) {
+      run.controller.signal.throwIfAborted()
+      controller.signal.throwIfAborted()
+      throw error
+    } finally {
+      clearTimeout(timer)
+      run.controller.signal.removeEventListener('abort', onCancel)
+    }
+  }
+
+  /**
+   * Publish and record that an agent is left out of consensus (timed out, abstained or failed)
+   */
+  private async recordExclusion(
+    run: EvaluationRun,
+    topicId: string,
+    agent: Agent,
+    round: number,
+    status: Exclude<AgentOutcomeStatus, 'scored'>,
+    reason: string
+  ): Promise<RoundMessage> {
+    console.log(`  ⏱️  ${agent.name} ${status.replace('_', ' ')}: ${reason}`)
+
+    const message: AgentMessage = {
+      type: status === 'failed' ? 'failed' : 'abstain',
+      agentId: agent.id,
+      agentName: agent.name,
+      timestamp: Date.now(),
+      roundNumber: round,
+      data: { reasoning: reason },
+    }
+
+    let submission: HCSSubmission | undefined
+    try {
+      submission = await this.hcsService.submitScore(topicId, message)
+    } catch (error) {
+      console.error(`Failed to publish exclusion of ${agent.name} to HCS:`, error)
+    }
 
-    await Promise.all(scoringPromises)
+    await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    await this.eventBus.publish(run.evaluationId, status === 'failed' ? 'agent_failed' : 'agent_abstained', {
+      agentId: agent.id,
+      agentName: agent.name,
+      round,
+      reason,
+      hcsTxId: submission?.txId,
+    })
 
-    return scores
+    return { ...message, hcsTxId: submission?.txId, consensusTimestamp: submission?.consensusTimestamp }
+  }
+
+  /**
+   * Fail the evaluation when fewer agents than the quorum are still responding
+   */
+  private assertQuorum(config: OrchestratorConfig, totalAgents: number, activeAgents: number): void {
+    const requiredAgents = Math.max(
+      1,
+      config.quorum?.minAgents ?? 1,
+      Math.ceil((config.quorum?.minFraction ?? 0) * totalAgents)
+    )
+
+    if (activeAgents < requiredAgents) {
+      throw new QuorumNotMetError(activeAgents, requiredAgents)
+    }
   }
 
   /**
    * Step 4: Multi-Agent Discussion Mechanism
    * Agents review peer scores and adjust their evaluations
+   * Per-criterion adjustments are applied to currentAspects in place.
+   * With delphiRationales the rounds are Delphi rounds and stop once the IQR is below the iqrThreshold parameter
    */
   private async multiRoundDiscussion(
+    run: EvaluationRun,
     topicId: string,
     agents: Agent[],
     initialScores: Record<string, number>,
+    currentAspects: Record<string, Record<string, number>>,
     content: string,
     criteria: string[],
-    config: OrchestratorConfig
+    config: OrchestratorConfig,
+    delphiRationales?: Record<string, string>
   ): Promise<{
     finalScores: Record<string, number>
     rounds: EvaluationRound[]
   }> {
     console.log('💬 Phase 2: Multi-Round Discussion...')
 
-    let currentScores = { ...initialScores }
+    const currentScores = { ...initialScores }
     const rounds: EvaluationRound[] = []
+    const iqrThreshold = delphiRationales
+      ? this.consensusRegistry.withDefaults(DELPHI_ALGORITHM, this.consensusRegistry.paramsFromConfig(config)).iqrThreshold as number
+      : 0
 
     for (let round = 1; round <= config.maxDiscussionRounds; round++) {
       console.log(`  Round ${round}/${config.maxDiscussionRounds}`)
 
-      const roundStart = Date.now()
-      const roundMessages: AgentMessage[] = []
+      // Each agent still on the panel reviews peer scores and provides discussion
+      const activeAgents = agents.filter((agent) => currentScores[agent.id] !== undefined)
+      const { completedRound, variance } = await this.discussionRound(
+        run,
+        topicId,
+        activeAgents,
+        agents,
+        currentScores,
+        currentAspects,
+        content,
+        criteria,
+        config,
+        round,
+        delphiRationales
+      )
+      rounds.push(completedRound)
+
+      // Check for convergence - Delphi rounds converge on the interquartile range
+      const statistics = completedRound.statistics
+      if (statistics ? statistics.iqr < iqrThreshold : variance < config.convergenceThreshold) {
+        await this.eventBus.publish(run.evaluationId, 'round_converged', {
+          round,
+          variance,
+          threshold: statistics ? iqrThreshold : config.convergenceThreshold,
+          ...(statistics && { iqr: statistics.iqr }),
+        })
+        console.log(statistics
+          ? `  ✓ Converged after ${round} rounds (IQR: ${statistics.iqr.toFixed(2)})`
+          : `  ✓ Converged after ${round} rounds (variance: ${variance.toFixed(3)})`)
+        break
+      }
+    }
 
-      // Each agent reviews peer scores and provides discussion
-      for (const agent of agents) {
-        const peerScoresData = Object.entries(currentScores)
-          .filter(([id]) => id !== agent.id)
-          .map(([id, score]) => ({
-            agentId: id,
-            agentName: agents.find(a => a.id === id)?.name || id,
-            score
-          }))
-
-        try {
-          console.log(`  💬 ${agent.name} is discussing...`)
-          const discussionResult = await this.openAIService.generateDiscussion(
-            agent,
-            currentScores[agent.id],
-            peerScoresData,
-            content,
-            criteria
-          )
+    return { finalScores: currentScores, rounds }
+  }
 
-          const discussion = discussionResult.discussion
+  /**
+   * Run one discussion round in which the given speakers review peer scores
+   * Updates currentScores and currentAspects in place with adjustments and abstentions.
+   * In a Delphi round (delphiRationales given) speakers only see the median, interquartile range
+   * and anonymized rationales of the panel; their revised rationales are written back to delphiRationales
+   */
+  private async discussionRound(
+    run: EvaluationRun,
+    topicId: string,
+    speakers: Agent[],
+    agents: Agent[],
+    currentScores: Record<string, number>,
+    currentAspects: Record<string, Record<string, number>>,
+    content: string,
+    criteria: string[],
+    config: OrchestratorConfig,
+    round: number,
+    delphiRationales?: Record<string, string>
+  ): Promise<{
+    completedRound: EvaluationRound
+    variance: number
+  }> {
+    const evaluationId = run.evaluationId
+
+    run.controller.signal.throwIfAborted()
+    run.currentRound = round
+    await this.eventBus.publish(evaluationId, 'round_started', { round })
+
+    const roundStart = Date.now()
+    const roundMessages: RoundMessage[] = []
+    const feedback = delphiRationales
+      ? await this.publishDelphiFeedback(run, topicId, round, currentScores, roundMessages)
+      : undefined
+
+    for (const agent of speakers) {
+      run.controller.signal.throwIfAborted()
+
+      const peerScoresData = Object.entries(currentScores)
+        .filter(([id]) => id !== agent.id)
+        .map(([id, score]) => ({
+          agentId: id,
+          agentName: agents.find(a => a.id === id)?.name || id,
+          score,
+          aspects: currentAspects[id]
+        }))
 
-          // Publish discussion to HCS
-          await this.hcsService.broadcastDiscussion(
+      try {
+        console.log(`  💬 ${agent.name} is discussing...`)
+        const discussionResult = await this.withAgentDeadline(run, config.roundTimeout, (signal) =>
+          delphiRationales && feedback
+            ? this.openAIService.reviseDelphiEstimate(
+              agent,
+              currentScores[agent.id],
+              feedback,
+              this.anonymizedRationales(delphiRationales, agent.id, currentScores),
+              content,
+              criteria,
+              currentAspects[agent.id],
+              signal,
+              run.scale
+            )
+            : this.openAIService.generateDiscussion(
+              agent,
+              currentScores[agent.id],
+              peerScoresData,
+              content,
+              criteria,
+              currentAspects[agent.id],
+              signal,
+              run.scale
+            )
+        )
+        run.controller.signal.throwIfAborted()
+
+        const discussion = discussionResult.discussion
+        if (delphiRationales) {
+          delphiRationales[agent.id] = discussion
+        }
+
+        // Publish discussion to HCS
+        const discussionSubmission = await this.hcsService.broadcastDiscussion(
+          topicId,
+          agent.id,
+          agent.name,
+          discussion,
+          round
+        )
+        const discussionMessage: AgentMessage = {
+          type: 'discussion',
+          agentId: agent.id,
+          agentName: agent.name,
+          timestamp: Date.now(),
+          roundNumber: round,
+          data: { discussion },
+        }
+        roundMessages.push({
+          ...discussionMessage,
+          hcsTxId: discussionSubmission.txId,
+          consensusTimestamp: discussionSubmission.consensusTimestamp,
+        })
+        await this.evaluationStore.recordMessage(evaluationId, discussionMessage, discussionSubmission)
+        run.responses[agent.id]?.hcsTxIds.push(discussionSubmission.txId)
+        await this.eventBus.publish(evaluationId, 'discussion_message', {
+          agentId: agent.id,
+          agentName: agent.name,
+          round,
+          discussion,
+          hcsTxId: discussionSubmission.txId,
+        })
+
+        // Check if agent adjusted their overall or per-criterion scores
+        const originalAspects = currentAspects[agent.id] || {}
+        const changedAspects = Object.entries(discussionResult.adjustedAspects || {}).filter(
+          ([criterion, score]) =>
+            originalAspects[criterion] === undefined || Math.abs(score - originalAspects[criterion]) > 0.1
+        )
+        const newAspects = { ...originalAspects, ...Object.fromEntries(changedAspects) }
+        // With a rubric the overall score always follows the weighted criteria
+        const proposedScore = run.rubric
+          ? weightedRubricScore(run.rubric, newAspects) ?? currentScores[agent.id]
+          : discussionResult.adjustedScore
+        const scoreChanged = proposedScore !== undefined &&
+          Math.abs(proposedScore - currentScores[agent.id]) > 0.1
+
+        if (scoreChanged || changedAspects.length > 0) {
+          const originalScore = currentScores[agent.id]
+          const newScore = scoreChanged ? proposedScore! : originalScore
+
+          const adjustmentSubmission = await this.hcsService.submitAdjustment(
             topicId,
             agent.id,
             agent.name,
+            originalScore,
+            newScore,
             discussion,
-            round
+            round,
+            newAspects,
+            this.nativeScore(run, newScore)
           )
 
-          // Check if agent adjusted their score
-          if (discussionResult.adjustedScore !== undefined &&
-              Math.abs(discussionResult.adjustedScore - currentScores[agent.id]) > 0.1) {
-            const originalScore = currentScores[agent.id]
-            const newScore = discussionResult.adjustedScore
-
-            await this.hcsService.submitAdjustment(
-              topicId,
-              agent.id,
-              agent.name,
+          const adjustmentMessage: AgentMessage = {
+            type: 'adjustment',
+            agentId: agent.id,
+            agentName: agent.name,
+            timestamp: Date.now(),
+            roundNumber: round,
+            data: {
               originalScore,
-              newScore,
-              discussion,
-              round
-            )
-
-            roundMessages.push({
-              type: 'adjustment',
-              agentId: agent.id,
-              agentName: agent.name,
-              timestamp: Date.now(),
-              roundNumber: round,
-              data: {
-                originalScore,
-                adjustedScore: newScore,
-                reasoning: discussion,
-              },
-            })
-
-            currentScores[agent.id] = newScore
-            const adjustment = newScore - originalScore
-            console.log(`  ✅ ${agent.name}: ${currentScores[agent.id].toFixed(2)} (${adjustment > 0 ? '+' : ''}${adjustment.toFixed(2)})`)
-          } else {
-            console.log(`  ✅ ${agent.name}: keeping score ${currentScores[agent.id].toFixed(2)}`)
+              adjustedScore: newScore,
+              reasoning: discussion,
+              aspects: newAspects,
+              ...this.nativeScore(run, newScore),
+            },
           }
-        } catch (error) {
-          console.error(`  ❌ ${agent.name} discussion failed:`, error)
-          // Continue without discussion if OpenAI fails
+          roundMessages.push({
+            ...adjustmentMessage,
+            hcsTxId: adjustmentSubmission.txId,
+            consensusTimestamp: adjustmentSubmission.consensusTimestamp,
+          })
+          await this.evaluationStore.recordMessage(evaluationId, adjustmentMessage, adjustmentSubmission)
+          run.responses[agent.id]?.hcsTxIds.push(adjustmentSubmission.txId)
+          await this.eventBus.publish(evaluationId, 'score_adjusted', {
+            agentId: agent.id,
+            agentName: agent.name,
+            round,
+            originalScore,
+            adjustedScore: newScore,
+            ...(run.scale && { nativeAdjustedScore: toNativeScore(run.scale, newScore) }),
+            aspects: newAspects,
+            hcsTxId: adjustmentSubmission.txId,
+          })
+
+          currentScores[agent.id] = newScore
+          currentAspects[agent.id] = newAspects
+          const adjustment = newScore - originalScore
+          console.log(`  ✅ ${agent.name}: ${currentScores[agent.id].toFixed(2)} (${adjustment > 0 ? '+' : ''}${adjustment.toFixed(2)})`)
+        } else {
+          console.log(`  ✅ ${agent.name}: keeping score ${currentScores[agent.id].toFixed(2)}`)
+        }
+      } catch (error) {
+        run.controller.signal.throwIfAborted()
+        if (error instanceof AgentTimeoutError) {
+          run.outcomes[agent.id] = { ...run.outcomes[agent.id], status: 'abstained', reason: error.message }
+          roundMessages.push(await this.recordExclusion(run, topicId, agent, round, 'abstained', error.message))
+          delete currentScores[agent.id]
+          delete currentAspects[agent.id]
+          continue
         }
+        console.error(`  ❌ ${agent.name} discussion failed:`, error)
+        // Continue without discussion if OpenAI fails
       }
+    }
+
+    this.assertQuorum(config, agents.length, Object.keys(currentScores).length)
 
-      rounds.push({
-        roundNumber: round,
-        startTime: roundStart,
-        endTime: Date.now(),
-        messages: roundMessages,
+    const completedRound: EvaluationRound = {
+      roundNumber: round,
+      startTime: roundStart,
+      endTime: Date.now(),
+      messages: roundMessages,
+      ...(delphiRationales && { statistics: ConsensusAlgorithms.quartiles(currentScores) }),
+    }
+
+    const variance = ConsensusAlgorithms.calculateVariance(
+      Object.values(currentScores),
+      Object.values(currentScores).reduce((a, b) => a + b, 0) / Object.values(currentScores).length
+    )
+
+    await this.evaluationStore.recordRound(evaluationId, completedRound, variance)
+    await this.eventBus.publish(evaluationId, 'round_completed', {
+      round,
+      variance,
+      scores: { ...currentScores },
+      ...(completedRound.statistics && { statistics: completedRound.statistics }),
+    })
+
+    return { completedRound, variance }
+  }
+
+  /**
+   * Publish the anonymized statistics a Delphi round revises against
+   * The feedback message opens the round in the transcript
+   */
+  private async publishDelphiFeedback(
+    run: EvaluationRun,
+    topicId: string,
+    round: number,
+    currentScores: Record<string, number>,
+    roundMessages: RoundMessage[]
+  ): Promise<DelphiStatistics> {
+    const statistics = ConsensusAlgorithms.quartiles(currentScores)
+    const message: AgentMessage = {
+      type: 'delphi_feedback',
+      agentId: 'coordinator',
+      agentName: 'System Coordinator',
+      timestamp: Date.now(),
+      roundNumber: round,
+      data: { statistics },
+    }
+
+    let submission: HCSSubmission | undefined
+    try {
+      submission = await this.hcsService.submitScore(topicId, message)
+    } catch (error) {
+      console.error('Failed to publish Delphi feedback to HCS:', error)
+    }
+
+    roundMessages.push({ ...message, hcsTxId: submission?.txId, consensusTimestamp: submission?.consensusTimestamp })
+    await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    console.log(`  📊 Delphi feedback: median ${statistics.median.toFixed(2)}, IQR ${statistics.q1.toFixed(2)}-${statistics.q3.toFixed(2)}`)
+
+    return statistics
+  }
+
+  /**
+   * Rationales of the other judges still on the panel, shuffled and without names
+   */
+  private anonymizedRationales(
+    rationales: Record<string, string>,
+    agentId: string,
+    currentScores: Record<string, number>
+  ): string[] {
+    const others = Object.entries(rationales)
+      .filter(([id, rationale]) => id !== agentId && currentScores[id] !== undefined && rationale.trim().length > 0)
+      .map(([, rationale]) => rationale)
+
+    for (let i = others.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      const swap = others[i]
+      others[i] = others[j]
+      others[j] = swap
+    }
+    return others
+  }
+
+  /**
+   * The final consensus on the config's declared scale - unchanged when none is declared
+   * Consensus runs on 0-10, so the native scores are conversions of the final figures
+   */
+  private withNativeScores(config: OrchestratorConfig, consensus: ConsensusResult): ConsensusResult {
+    if (!config.scoreScale) return consensus
+
+    const scale = resolveScoreScale(config.scoreScale)
+    const convert = (score: number) => toNativeScore(scale, score)
+    const native: NativeConsensus = {
+      scale,
+      finalScore: convert(consensus.finalScore),
+      individualScores: Object.fromEntries(
+        Object.entries(consensus.individualScores).map(([agentId, score]) => [agentId, convert(score)])
+      ),
+      // The interval is of the panel score, so it is left out once a chief verdict replaced it
+      ...(consensus.credibleInterval && !consensus.chiefVerdict && {
+        credibleInterval: {
+          lower: convert(consensus.credibleInterval.lower),
+          upper: convert(consensus.credibleInterval.upper),
+        },
+      }),
+      ...(consensus.criteria && {
+        criteria: Object.fromEntries(consensus.criteria.map((c) => [c.criterion, convert(c.finalScore)])),
+      }),
+    }
+    return { ...consensus, native }
+  }
+
+  /**
+   * Step 5: Consensus Aggregation
+   * The overall score and each criterion are aggregated with the configured algorithm,
+   * after each judge's scores are corrected for its bias when bias correction is enabled
+   */
+  private async aggregateConsensus(
+    rawScores: Record<string, number>,
+    allAgents: Agent[],
+    config: OrchestratorConfig,
+    rounds: EvaluationRound[],
+    outliers: OutlierReport | undefined,
+    rawCriterionScores: Record<string, Record<string, number>>,
+    criteria: string[],
+    rubric?: Rubric,
+    biasProfiles: Record<string, JudgeBiasProfile> = {}
+  ): Promise<ConsensusResult> {
+    console.log('🎲 Phase 3: Consensus Aggregation...')
+
+    // Criterion scores get their judge's correction too, so a rubric's weighted score is corrected
+    const allScores = this.correctedScores(rawScores, biasProfiles, config)
+    const criterionScores = Object.fromEntries(
+      Object.entries(rawCriterionScores).map(([agentId, aspects]) => {
+        const profile = biasProfiles[agentId]
+        return [agentId, profile
+          ? Object.fromEntries(Object.entries(aspects).map(([criterion, score]) => [
+            criterion,
+            ConsensusAlgorithms.correctBias(score, profile, config.biasCorrection || 'none'),
+          ]))
+          : aspects]
       })
+    )
+    const biasCorrection = this.biasCorrectionReport(rawScores, allScores, biasProfiles, config)
+
+    let scores = allScores
+    let agents = allAgents
+    const weightMultipliers: Record<string, number> = {}
+    const flagged = outliers?.strategy === 'extra_round' ? [] : outliers?.flagged || []
+    // Algorithms without weights see down-weighted outliers pulled toward the mean of the other scores
+    const shrink = outliers?.strategy === 'down_weight' && flagged.length > 0 &&
+      !this.consensusRegistry.get(config.consensusAlgorithm)?.requires.weights
+
+    if (outliers?.strategy === 'drop' && flagged.length > 0) {
+      const dropped = new Set(flagged.map((outlier) => outlier.agentId))
+      scores = Object.fromEntries(Object.entries(allScores).filter(([agentId]) => !dropped.has(agentId)))
+      agents = allAgents.filter((agent) => !dropped.has(agent.id))
+    } else if (outliers?.strategy === 'down_weight' && flagged.length > 0) {
+      flagged.forEach((outlier) => {
+        weightMultipliers[outlier.agentId] = outlier.weight ?? 1
+      })
+      if (shrink) {
+        scores = this.shrinkOutliers(allScores, weightMultipliers)
+      }
+    }
+
+    const confidences = this.reportedConfidences(rounds)
+    const calibratedWeights = await this.calibratedWeights(config, agents)
+    const result = this.applyConsensusAlgorithm(
+      config,
+      scores,
+      agents,
+      weightMultipliers,
+      confidences,
+      calibratedWeights,
+      rounds
+    )
 
-      // Check for convergence
-      const variance = ConsensusAlgorithms['calculateVariance'](
-        Object.values(currentScores),
-        Object.values(currentScores).reduce((a, b) => a + b, 0) / Object.values(currentScores).length
+    // Same treatment per criterion, over the agents that take part in the overall consensus
+    const participants = Object.fromEntries(
+      agents
+        .filter((agent) => criterionScores[agent.id] !== undefined)
+        .map((agent) => [agent.id, criterionScores[agent.id]])
+    )
+    const criteriaBreakdown = ConsensusAlgorithms.perCriterion(participants, criteria, (scoresForCriterion) =>
+      this.applyConsensusAlgorithm(
+        config,
+        shrink ? this.shrinkOutliers(scoresForCriterion, weightMultipliers) : scoresForCriterion,
+        agents.filter((agent) => scoresForCriterion[agent.id] !== undefined),
+        weightMultipliers,
+        confidences,
+        calibratedWeights
       )
+    )
 
-      if (variance < config.convergenceThreshold) {
-        console.log(`  ✓ Converged after ${round} rounds (variance: ${variance.toFixed(3)})`)
-        break
+    // With a rubric the overall score is the weighted combination of the criterion consensus scores
+    let finalScore = result.finalScore
+    let credibleInterval = result.credibleInterval
+    if (rubric && criteriaBreakdown.length > 0) {
+      const criterionWeights = Object.fromEntries(
+        rubric.criteria.map((criterion) => [criterion.name, criterion.weight])
+      )
+      const totalWeight = criteriaBreakdown.reduce((sum, c) => sum + criterionWeights[c.criterion], 0)
+      criteriaBreakdown.forEach((c) => {
+        c.weight = criterionWeights[c.criterion] / totalWeight
+      })
+      finalScore = weightedRubricScore(
+        rubric,
+        Object.fromEntries(criteriaBreakdown.map((c) => [c.criterion, c.finalScore]))
+      ) ?? finalScore
+
+      // Criteria are scored by the same judges, so their errors are treated as fully correlated:
+      // the bounds combine like the scores, which is conservative
+      if (credibleInterval && criteriaBreakdown.every((c) => c.credibleInterval)) {
+        const bound = (key: 'lower' | 'upper' | 'stdDev') => weightedRubricScore(
+          rubric,
+          Object.fromEntries(criteriaBreakdown.map((c) => [c.criterion, c.credibleInterval![key]]))
+        )!
+        credibleInterval = {
+          lower: bound('lower'),
+          upper: bound('upper'),
+          level: credibleInterval.level,
+          stdDev: bound('stdDev'),
+        }
       }
     }
 
-    return { finalScores: currentScores, rounds }
+    // Verdict mode: every responding agent votes, outliers included - they were flagged on score, not label
+    const verdict = config.verdict
+      ? ConsensusAlgorithms.categoricalVote(this.verdictVotes(rounds, allScores), config.verdict, allAgents)
+      : undefined
+
+    return {
+      ...result,
+      finalScore,
+      ...(credibleInterval && { credibleInterval }),
+      // Agreement of the judges as they scored, before bias correction
+      reliability: this.panelReliability(rounds, rawCriterionScores, allAgents),
+      ...(verdict && { verdict }),
+      // Report the outliers' own scores even when they were dropped or adjusted
+      individualScores: {
+        ...result.individualScores,
+        ...Object.fromEntries(flagged.map((outlier) => [outlier.agentId, allScores[outlier.agentId]])),
+      },
+      ...(outliers && { outliers }),
+      ...(biasCorrection && { biasCorrection }),
+      ...(criteriaBreakdown.length > 0 && { criteria: criteriaBreakdown }),
+    }
   }
 
   /**
-   * Step 5: Consensus Aggregation
+   * Bias profile of each judge when bias correction is enabled, none otherwise
+   * Without profiles the scores are aggregated uncorrected
    */
-  private async aggregateConsensus(
+  private async biasProfiles(
+    evaluationId: string,
+    config: Pick<OrchestratorConfig, 'biasCorrection'>,
+    agents: Agent[]
+  ): Promise<Record<string, JudgeBiasProfile>> {
+    if (!config.biasCorrection || config.biasCorrection === 'none') return {}
+
+    try {
+      return await this.calibrationService.getBiasProfiles(agents.map((agent) => agent.id), evaluationId)
+    } catch (error) {
+      console.error('❌ Failed to load judge bias profiles:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Scores corrected for their judge's bias - judges without a profile keep theirs
+   */
+  private correctedScores(
+    scores: Record<string, number>,
+    biasProfiles: Record<string, JudgeBiasProfile>,
+    config: Pick<OrchestratorConfig, 'biasCorrection'>
+  ): Record<string, number> {
+    const method = config.biasCorrection || 'none'
+    return Object.fromEntries(
+      Object.entries(scores).map(([agentId, score]) => [
+        agentId,
+        biasProfiles[agentId] ? ConsensusAlgorithms.correctBias(score, biasProfiles[agentId], method) : score,
+      ])
+    )
+  }
+
+  /**
+   * Raw and corrected score of each judge with a bias profile, undefined when nothing was corrected
+   */
+  private biasCorrectionReport(
+    rawScores: Record<string, number>,
+    correctedScores: Record<string, number>,
+    biasProfiles: Record<string, JudgeBiasProfile>,
+    config: Pick<OrchestratorConfig, 'biasCorrection'>
+  ): BiasCorrectionReport | undefined {
+    const method = config.biasCorrection
+    const profiled = Object.keys(rawScores).filter((agentId) => biasProfiles[agentId])
+    if (!method || method === 'none' || profiled.length === 0) return undefined
+
+    return {
+      method,
+      rawScores,
+      adjustments: Object.fromEntries(profiled.map((agentId) => {
+        const profile = biasProfiles[agentId]
+        return [agentId, {
+          rawScore: rawScores[agentId],
+          correctedScore: correctedScores[agentId],
+          adjustment: correctedScores[agentId] - rawScores[agentId],
+          offset: profile.offset,
+          ...(method === 'z_score' && { spread: profile.spread }),
+          effectiveSamples: profile.effectiveSamples,
+        }]
+      })),
+    }
+  }
+
+  /**
+   * Inter-rater reliability of the responding agents' criterion scores, at the end and after each round
+   */
+  private panelReliability(
+    rounds: EvaluationRound[],
+    criterionScores: Record<string, Record<string, number>>,
+    agents: Agent[]
+  ): EvaluationReliability {
+    const responding = new Set(agents.map((agent) => agent.id))
+    const ratingsOf = (aspects: Record<string, Record<string, number>>) =>
+      Object.fromEntries(Object.entries(aspects).filter(([agentId]) => responding.has(agentId)))
+
+    const current: Record<string, Record<string, number>> = {}
+    const byRound = rounds.map((round) => {
+      round.messages.forEach((msg) => {
+        if ((msg.type === 'score' || msg.type === 'adjustment') && msg.data.aspects) {
+          current[msg.agentId] = msg.data.aspects
+        } else if (msg.type === 'abstain' || msg.type === 'failed') {
+          delete current[msg.agentId]
+        }
+      })
+      return { round: round.roundNumber, ...ReliabilityStatistics.compute(ratingsOf(current)) }
+    })
+
+    return {
+      final: ReliabilityStatistics.compute(ratingsOf(criterionScores)),
+      rounds: byRound,
+    }
+  }
+
+  /**
+   * Learned weights of the agents, loaded only when the algorithm reads them with its params
+   * (weighted_average with weighting: 'calibrated'). Without them it falls back to reputation weights
+   */
+  private async calibratedWeights(
+    config: Pick<OrchestratorConfig, 'consensusAlgorithm' | 'consensusParams' | 'trimFraction'>,
+    agents: Agent[]
+  ): Promise<Record<string, number>> {
+    if (!this.consensusRegistry.usesCalibratedWeights(config)) return {}
+
+    try {
+      return await this.calibrationService.getCalibratedWeights(agents.map((agent) => agent.id))
+    } catch (error) {
+      console.error('❌ Failed to load calibrated judge weights:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Confidence each agent reported with its score message
+   */
+  private reportedConfidences(rounds: EvaluationRound[]): Record<string, number> {
+    const confidences: Record<string, number> = {}
+    rounds.forEach((round) => round.messages.forEach((msg) => {
+      if (msg.type === 'score' && msg.data.confidence !== undefined) {
+        confidences[msg.agentId] = msg.data.confidence
+      }
+    }))
+    return confidences
+  }
+
+  /**
+   * Label each agent voted for with its score message, for the agents still in consensus
+   */
+  private verdictVotes(rounds: EvaluationRound[], scores: Record<string, number>): Record<string, string> {
+    const votes: Record<string, string> = {}
+    rounds.forEach((round) => round.messages.forEach((msg) => {
+      if (msg.type === 'score' && msg.data.label && scores[msg.agentId] !== undefined) {
+        votes[msg.agentId] = msg.data.label
+      }
+    }))
+    return votes
+  }
+
+  /**
+   * Run the configured consensus algorithm from the registry
+   * Without rounds (per-criterion consensus) the round-based algorithms aggregate the given scores directly
+   */
+  private applyConsensusAlgorithm(
+    config: Pick<OrchestratorConfig, 'consensusAlgorithm' | 'consensusParams' | 'trimFraction'>,
     scores: Record<string, number>,
     agents: Agent[],
+    weightMultipliers: Record<string, number>,
+    confidences: Record<string, number>,
+    calibratedWeights: Record<string, number>,
+    rounds: EvaluationRound[] = []
+  ): ConsensusResult {
+    return this.consensusRegistry.aggregate(config.consensusAlgorithm, {
+      scores,
+      agents,
+      weightMultipliers,
+      confidences,
+      calibratedWeights,
+      rounds,
+      params: this.consensusRegistry.paramsFromConfig(config),
+    })
+  }
+
+  /**
+   * Flag outlier scores before consensus
+   * Flagged agents and their z-scores are published to HCS and added to the last round of the transcript
+   */
+  private async flagOutliers(
+    run: EvaluationRun,
+    topicId: string,
+    scores: Record<string, number>,
     config: OrchestratorConfig,
     rounds: EvaluationRound[]
-  ): Promise<ConsensusResult> {
-    console.log('🎲 Phase 3: Consensus Aggregation...')
+  ): Promise<OutlierReport | undefined> {
+    const report = this.detectOutliers(scores, config)
+    if (!report || report.flagged.length === 0) {
+      return report
+    }
+    const { strategy, zScoreThreshold } = report
+
+    console.log(`  ⚠️  Outliers: ${report.flagged.map((o) => `${o.agentId} (z=${o.zScore.toFixed(2)})`).join(', ')}`)
+
+    const lastRound = rounds[rounds.length - 1]
+    const message: AgentMessage = {
+      type: 'outliers',
+      agentId: 'coordinator',
+      agentName: 'System Coordinator',
+      timestamp: Date.now(),
+      roundNumber: lastRound.roundNumber,
+      data: {
+        reasoning: `${OUTLIER_STRATEGY_DESCRIPTIONS[strategy]} (|z| > ${zScoreThreshold})`,
+        outliers: report.flagged,
+      },
+    }
+
+    let submission: HCSSubmission | undefined
+    try {
+      submission = await this.hcsService.submitScore(topicId, message)
+    } catch (error) {
+      console.error('Failed to publish outliers to HCS:', error)
+    }
 
-    let result: ConsensusResult
+    lastRound.messages.push({ ...message, hcsTxId: submission?.txId, consensusTimestamp: submission?.consensusTimestamp })
+    await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    await this.eventBus.publish(run.evaluationId, 'outliers_detected', { outliers: report, hcsTxId: submission?.txId })
 
-    switch (config.consensusAlgorithm) {
-      case 'simple_average':
-        result = ConsensusAlgorithms.simpleAverage(scores)
-        break
-      case 'weighted_average':
-        result = ConsensusAlgorithms.weightedAverage(scores, agents)
-        break
-      case 'median':
-        result = ConsensusAlgorithms.median(scores)
-        break
-      case 'trimmed_mean':
-        result = ConsensusAlgorithms.trimmedMean(scores)
-        break
-      case 'iterative_convergence':
-        const allMessages = rounds.flatMap((r) => r.messages)
-        result = ConsensusAlgorithms.iterativeConvergence(scores, allMessages, rounds.length)
-        break
-      case 'delphi_method':
-        const roundScores = rounds.map((r) =>
-          r.messages.reduce((acc, msg) => {
-            if (msg.data.score !== undefined) {
-              acc[msg.agentId] = msg.data.score
-            }
-            return acc
-          }, {} as Record<string, number>)
-        )
-        result = ConsensusAlgorithms.delphiMethod(roundScores, agents)
-        break
-      default:
-        result = ConsensusAlgorithms.weightedAverage(scores, agents)
+    return report
+  }
+
+  /**
+   * Publish how much each judge's score was corrected for its bias
+   * Added to the last round of the transcript like the outlier report
+   */
+  private async publishBiasCorrection(
+    run: EvaluationRun,
+    topicId: string,
+    report: BiasCorrectionReport | undefined,
+    rounds: EvaluationRound[]
+  ): Promise<void> {
+    if (!report) return
+
+    console.log(`  ⚖️  Bias correction (${report.method}): ${Object.entries(report.adjustments)
+      .map(([agentId, adjustment]) => `${agentId} ${adjustment.adjustment >= 0 ? '+' : ''}${adjustment.adjustment.toFixed(2)}`)
+      .join(', ')}`)
+
+    const lastRound = rounds[rounds.length - 1]
+    const message: AgentMessage = {
+      type: 'bias_correction',
+      agentId: 'coordinator',
+      agentName: 'System Coordinator',
+      timestamp: Date.now(),
+      roundNumber: lastRound.roundNumber,
+      data: {
+        reasoning: BIAS_CORRECTION_DESCRIPTIONS[report.method],
+        biasCorrection: report,
+      },
+    }
+
+    let submission: HCSSubmission | undefined
+    try {
+      submission = await this.hcsService.submitScore(topicId, message)
+    } catch (error) {
+      console.error('Failed to publish bias correction to HCS:', error)
     }
 
-    return result
+    lastRound.messages.push({ ...message, hcsTxId: submission?.txId, consensusTimestamp: submission?.consensusTimestamp })
+    await this.evaluationStore.recordMessage(run.evaluationId, message, submission)
+    await this.eventBus.publish(run.evaluationId, 'bias_corrected', { biasCorrection: report, hcsTxId: submission?.txId })
+  }
+
+  /**
+   * Find outlier scores with the configured robust z-score threshold
+   */
+  private detectOutliers(
+    scores: Record<string, number>,
+    config: OrchestratorConfig
+  ): OutlierReport | undefined {
+    if (!config.outlierDetection) {
+      return undefined
+    }
+
+    const strategy = config.outlierStrategy || 'drop'
+    const zScoreThreshold = config.outlierZScoreThreshold ?? 2
+    const { outliers, zScores } = ConsensusAlgorithms.detectOutliers(scores, zScoreThreshold)
+
+    return {
+      strategy,
+      zScoreThreshold,
+      flagged: outliers.map((agentId) => ({
+        agentId,
+        score: scores[agentId],
+        zScore: zScores[agentId],
+        ...(strategy === 'down_weight' && { weight: zScoreThreshold / Math.abs(zScores[agentId]) }),
+      })),
+    }
+  }
+
+  /**
+   * Pull outlier scores toward the mean of the other scores by their weight
+   */
+  private shrinkOutliers(
+    scores: Record<string, number>,
+    weightMultipliers: Record<string, number>
+  ): Record<string, number> {
+    const others = Object.entries(scores)
+      .filter(([agentId]) => weightMultipliers[agentId] === undefined)
+      .map(([, score]) => score)
+    if (others.length === 0) {
+      return scores
+    }
+
+    const mean = others.reduce((a, b) => a + b, 0) / others.length
+    return Object.fromEntries(
+      Object.entries(scores).map(([agentId, score]) => {
+        const weight = weightMultipliers[agentId]
+        return [agentId, weight === undefined ? score : mean + (score - mean) * weight]
+      })
+    )
   }
 
   /**
@@ -412,108 +1822,282 @@ export class MultiAgentOrchestrator {
       consensus.finalScore,
       consensus.individualScores,
       consensus.algorithm,
-      totalRounds
+      totalRounds,
+      consensus.native
     )
   }
 
   /**
    * Execute individual agent evaluation using HTTP with X402 payment
+   * Failed calls are retried with exponential backoff, then fall back to direct OpenAI.
+   * An agent is never called again once it was paid - a paid answer that is rejected goes to the fallback.
+   * Throws AgentEvaluationFailedError when every attempt fails
    */
   private async executeAgentEvaluation(
+    run: EvaluationRun,
     agent: Agent,
     content: string,
-    criteria: string[]
-  ): Promise<number> {
-    try {
-      console.log(`  🤖 ${agent.name} is evaluating via HTTP + X402...`)
+    criteria: string[],
+    signal: AbortSignal,
+    config: OrchestratorConfig,
+    review?: ReviewContext
+  ): Promise<{
+    score: number
+    aspects: Record<string, number>
+    reasoning: string
+    attempts: number
+    response: AgentJudgeResponse
+  }> {
+    const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES
+    const backoffMs = config.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS
+    let attempts = 0
+    let lastError = 'Unknown error'
+
+    for (let retry = 0; retry <= maxRetries; retry++) {
+      if (retry > 0) {
+        const wait = backoffMs * 2 ** (retry - 1)
+        console.log(`  🔁 Retrying ${agent.name} in ${wait}ms (retry ${retry}/${maxRetries})...`)
+        await delay(wait, signal)
+      }
+      attempts++
+      let paid = false
 
-      // Call agent via HTTP with automatic X402 payment handling
-      const result = await this.agentHTTPClient.callAgent(agent, {
-        content,
-        criteria
-      })
+      try {
+        console.log(`  🤖 ${agent.name} is evaluating via HTTP + X402...`)
+
+        // Call agent via HTTP with automatic X402 payment handling
+        const result = await this.agentHTTPClient.callAgent(agent, {
+          content,
+          criteria,
+          ...(run.rubric && { rubric: run.rubric }),
+          ...(review && { review }),
+          ...(config.verdict && { labels: config.verdict.labels }),
+          ...(run.scale && { scale: run.scale })
+        }, signal, run.signer)
+
+        if (result.paymentTx) {
+          paid = true
+          console.log(`  💰 Payment TX: ${result.paymentTx}`)
+          run.payments.push({
+            agentId: agent.id,
+            agentName: agent.name,
+            paymentTx: result.paymentTx,
+            status: 'settled',
+          })
+          await this.eventBus.publish(run.evaluationId, 'payment_settled', {
+            agentId: agent.id,
+            agentName: agent.name,
+            paymentTx: result.paymentTx,
+          })
+        }
+
+        // Agents answer on the declared scale; everything after this runs on 0-10
+        const internalScore = toInternalScore(run.scale ?? DEFAULT_SCORE_SCALE, result.score)
+        if (internalScore === undefined) {
+          // Like a missing label, an off-scale score goes to the fallback rather than another (paid) call
+          lastError = `${agent.name} returned an invalid score: ${JSON.stringify(result.score)}`
+          console.error(`  ❌ ${lastError}`)
+          break
+        }
+
+        const aspects = sanitizeAspects(result.aspects, criteria, run.scale)
+        const score = this.applyRubric(run, agent, internalScore, aspects)
+        const label = this.verdictLabel(config, result.label)
+        if (config.verdict && !label) {
+          // Asking again would not make the answer valid and may pay twice - the fallback picks a label
+          lastError = `${agent.name} returned no valid verdict label (${config.verdict.labels.join(', ')})`
+          console.error(`  ❌ ${lastError}`)
+          break
+        }
+
+        const confidence = clampConfidence(result.confidence)
+        console.log(`  ✅ ${agent.name} scored: ${score.toFixed(2)}/10 (confidence: ${(confidence * 100).toFixed(1)}%)`)
+        const reasoning = typeof result.reasoning === 'string' ? result.reasoning : ''
+        return {
+          score,
+          aspects,
+          reasoning,
+          attempts,
+          response: {
+            score,
+            ...(run.scale && { nativeScore: toNativeScore(run.scale, score) }),
+            reasoning,
+            confidence,
+            aspects,
+            strengths: sanitizeFeedback(result.strengths),
+            improvements: sanitizeFeedback(result.improvements),
+            ...(label && { label }),
+            source: 'agent',
+            paymentTx: result.paymentTx,
+            hcsTxIds: [],
+          },
+        }
+      } catch (error) {
+        const paymentSubmitted =
+          (error instanceof AgentCallAbortedError || error instanceof AgentCallFailedError) &&
+          error.paymentSubmitted
+        if (paymentSubmitted) {
+          // The agent may have settled the payment before the request failed
+          run.payments.push({
+            agentId: agent.id,
+            agentName: agent.name,
+            status: 'unconfirmed',
+          })
+        }
+        // Cancelled or past the deadline - no retry or fallback
+        signal.throwIfAborted()
+
+        lastError = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`  ❌ ${agent.name} evaluation failed (attempt ${attempts}):`, lastError)
 
-      console.log(`  ✅ ${agent.name} scored: ${result.score.toFixed(2)}/10 (confidence: ${(result.confidence * 100).toFixed(1)}%)`)
-      if (result.paymentTx) {
-        console.log(`  💰 Payment TX: ${result.paymentTx}`)
+        // Retrying a paid request would sign a second payment
+        if (paid || paymentSubmitted) break
       }
+    }
 
-      return result.score
-    } catch (error) {
-      console.error(`  ❌ ${agent.name} evaluation failed:`, error)
-      // Fallback to direct OpenAI if HTTP fails
-      try {
-        console.log(`  🔄 Falling back to direct OpenAI for ${agent.name}...`)
-        const fallbackResult = await this.openAIService.evaluateContent(agent, content, criteria)
-        return fallbackResult.score
-      } catch (fallbackError) {
-        console.error(`  ❌ Fallback also failed, using random score`)
-        const randomScore = 5 + Math.random() * 5
-        return Math.max(0, Math.min(10, randomScore))
+    // Fallback to direct OpenAI if HTTP fails
+    attempts++
+    try {
+      console.log(`  🔄 Falling back to direct OpenAI for ${agent.name}...`)
+      const fallbackResult = await this.openAIService.evaluateContent(
+        agent, content, criteria, run.rubric, signal, review, config.verdict?.labels, run.scale
+      )
+      const score = this.applyRubric(run, agent, fallbackResult.score, fallbackResult.aspects)
+      const label = this.verdictLabel(config, fallbackResult.label)
+      if (config.verdict && !label) {
+        throw new Error(`OpenAI returned no valid verdict label for ${agent.name}`)
+      }
+      return {
+        score,
+        aspects: fallbackResult.aspects,
+        reasoning: fallbackResult.reasoning,
+        attempts,
+        response: {
+          score,
+          ...(run.scale && { nativeScore: toNativeScore(run.scale, score) }),
+          reasoning: fallbackResult.reasoning,
+          confidence: clampConfidence(fallbackResult.confidence),
+          aspects: fallbackResult.aspects,
+          strengths: fallbackResult.strengths,
+          improvements: fallbackResult.improvements,
+          ...(label && { label }),
+          source: 'openai_fallback',
+          hcsTxIds: [],
+        },
       }
+    } catch (fallbackError) {
+      signal.throwIfAborted()
+      const fallbackMessage = fallbackError instanceof Error ? fallbackError.message : 'Unknown error'
+      console.error(`  ❌ Fallback also failed for ${agent.name}:`, fallbackMessage)
+
+      throw new AgentEvaluationFailedError(
+        `Agent call failed after ${attempts - 1} attempt(s) (${lastError}); OpenAI fallback failed (${fallbackMessage})`,
+        attempts
+      )
     }
   }
 
+  /**
+   * An internal score on the run's declared scale, for HCS messages - nothing without a declared scale
+   */
+  private nativeScore(run: EvaluationRun, score: number): Pick<AgentMessage['data'], 'nativeScore' | 'scale'> {
+    return run.scale ? { nativeScore: toNativeScore(run.scale, score), scale: run.scale } : {}
+  }
 
   /**
-   * Create judgment results for each agent
+   * Derive an agent's overall score from the rubric's weighted criteria
+   * Throws when a required criterion was left unscored so the call is retried - unless the agent was paid
+   */
+  private applyRubric(
+    run: EvaluationRun,
+    agent: Agent,
+    score: number,
+    aspects: Record<string, number>
+  ): number {
+    if (!run.rubric) return score
+
+    const missing = missingRequiredCriteria(run.rubric, aspects)
+    if (missing.length > 0) {
+      throw new Error(`${agent.name} did not score required criteria: ${missing.join(', ')}`)
+    }
+    return weightedRubricScore(run.rubric, aspects) ?? score
+  }
+
+  /**
+   * The agent's verdict label, as declared in the config's label set
+   * Undefined when verdict mode is off or the agent gave none of the labels
+   */
+  private verdictLabel(config: OrchestratorConfig, label: unknown): string | undefined {
+    if (!config.verdict) return undefined
+    return sanitizeLabel(label, config.verdict.labels)
+  }
+
+  /**
+   * Create judgment results for each agent from what the agent actually returned
    */
   private createJudgmentResults(
     request: JudgmentRequest,
     agents: Agent[],
     scores: Record<string, number>,
-    consensus: ConsensusResult
+    responses: Record<string, AgentJudgeResponse>
   ): JudgmentResult[] {
-    return agents.map((agent) => ({
-      id: `result_${request.id}_${agent.id}`,
-      requestId: request.id,
-      agentId: agent.id,
-      score: scores[agent.id],
-      feedback: `Consensus score: ${consensus.finalScore.toFixed(2)}/10. Individual assessment: ${scores[agent.id].toFixed(2)}/10`,
-      strengths: ['Collaborative evaluation', 'Multi-perspective analysis'],
-      improvements: consensus.variance > 1 ? ['High variance among evaluators'] : [],
-      completedAt: Date.now(),
-    }))
+    return agents.map((agent) => {
+      const response = responses[agent.id]
+      return {
+        id: `result_${request.id}_${agent.id}`,
+        requestId: request.id,
+        agentId: agent.id,
+        score: scores[agent.id],
+        feedback: response?.reasoning || `Individual assessment: ${scores[agent.id].toFixed(2)}/10`,
+        strengths: response?.strengths || [],
+        improvements: response?.improvements || [],
+        ...(response?.label && { label: response.label }),
+        completedAt: Date.now(),
+        paymentTx: response?.paymentTx,
+      }
+    })
   }
 
   /**
-   * Update agent reputations after evaluation
+   * Record each judge's deviation from the final consensus in its calibration history
+   * A failure here only costs the judges one calibration sample, not the evaluation
    */
-  private async updateAgentReputations(
-    agents: Agent[],
+  private async updateJudgeCalibration(
+    evaluationId: string,
     consensus: ConsensusResult
   ): Promise<void> {
-    for (const agent of agents) {
-      // High confidence evaluations boost reputation
-      if (consensus.confidence > 0.8) {
-        // Would update ERC-8004 reputation registry here
-        console.log(`  ✓ Updated reputation for ${agent.name}`)
-      }
+    try {
+      const samples = await this.calibrationService.recordConsensus(evaluationId, consensus)
+      console.log(`  ✓ Recorded calibration samples for ${samples.length} judges`)
+    } catch (error) {
+      console.error('❌ Failed to record judge calibration:', error)
     }
   }
 
   /**
    * Create evaluation transcript from rounds
    */
-  private createTranscript(
+  createTranscript(
     topicId: string,
     evaluationRounds: EvaluationRound[]
   ): EvaluationTranscript {
     const rounds = evaluationRounds.map(round => {
       const messages: ConversationMessage[] = round.messages.map(msg => ({
         id: `${msg.agentId}_${msg.timestamp}`,
-        role: 'agent' as const,
+        role: msg.agentId === 'coordinator' ? 'orchestrator' as const : 'agent' as const,
         agentId: msg.agentId,
         content: this.formatMessageContent(msg),
         timestamp: msg.timestamp,
-        phase: this.getPhaseFromMessageType(msg.type),
+        phase: this.getPhaseFromMessage(msg),
         round: msg.roundNumber,
-        hcsTxId: undefined // Would be populated from HCS service
+        hcsTxId: msg.hcsTxId,
+        consensusTimestamp: msg.consensusTimestamp
       }))
 
       return {
         round: round.roundNumber,
         variance: this.calculateRoundVariance(round.messages),
+        ...(round.statistics && { statistics: round.statistics }),
         messages
       }
     })
@@ -530,29 +2114,91 @@ export class MultiAgentOrchestrator {
   private formatMessageContent(msg: AgentMessage): string {
     switch (msg.type) {
       case 'score':
-        return `Initial score: ${msg.data.score?.toFixed(2)}/10. ${msg.data.reasoning || ''}`
+        return `Initial score: ${msg.data.score?.toFixed(2)}/10${this.formatNativeScore(msg)}${msg.data.label ? ` [${msg.data.label}]` : ''}${this.formatAspects(msg.data.aspects)}. ${msg.data.reasoning || ''}`
       case 'discussion':
         return msg.data.discussion || 'Participated in discussion'
       case 'adjustment':
-        return `Score adjusted from ${msg.data.originalScore?.toFixed(2)} to ${msg.data.adjustedScore?.toFixed(2)}. ${msg.data.reasoning || ''}`
+        return `Score adjusted from ${msg.data.originalScore?.toFixed(2)} to ${msg.data.adjustedScore?.toFixed(2)}${this.formatNativeScore(msg)}${this.formatAspects(msg.data.aspects)}. ${msg.data.reasoning || ''}`
+      case 'verdict':
+        return `Chief verdict: ${msg.data.score?.toFixed(2)}/10${this.formatNativeScore(msg)}${msg.data.label ? ` [${msg.data.label}]` : ''} (panel: ${msg.data.originalScore?.toFixed(2)})${this.formatAspects(msg.data.aspects)}. ${msg.data.reasoning || ''}`
       case 'final':
-        return `Final consensus: ${msg.data.score?.toFixed(2)}/10`
+        return `Final consensus: ${msg.data.score?.toFixed(2)}/10${this.formatNativeScore(msg)}`
+      case 'cancelled': {
+        const payments = msg.data.payments || []
+        const paymentSummary = payments.length > 0
+          ? payments.map((p) => `${p.agentName} (${p.status}${p.paymentTx ? `: ${p.paymentTx}` : ''})`).join(', ')
+          : 'none'
+        return `Evaluation cancelled: ${msg.data.reasoning || 'no reason given'}. Payments made: ${paymentSummary}`
+      }
+      case 'abstain':
+        return `Abstained (excluded from consensus): ${msg.data.reasoning || 'no response'}`
+      case 'failed':
+        return `Failed (excluded from consensus): ${msg.data.reasoning || 'unknown error'}`
+      case 'delphi_feedback': {
+        const statistics = msg.data.statistics
+        return statistics
+          ? `Delphi feedback to ${statistics.respondents} judges: median ${statistics.median.toFixed(2)}, interquartile range ${statistics.q1.toFixed(2)}-${statistics.q3.toFixed(2)}`
+          : 'Delphi feedback'
+      }
+      case 'outliers': {
+        const flagged = (msg.data.outliers || [])
+          .map((o) => `${o.agentId} (score ${o.score.toFixed(2)}, z=${o.zScore.toFixed(2)})`)
+          .join(', ')
+        return `Outliers flagged: ${flagged}. ${msg.data.reasoning || ''}`
+      }
+      case 'bias_correction': {
+        const adjusted = Object.entries(msg.data.biasCorrection?.adjustments || {})
+          .map(([agentId, a]) => {
+            const lean = a.offset > 0 ? 'lenient' : 'harsh'
+            return `${agentId} ${a.rawScore.toFixed(2)} -> ${a.correctedScore.toFixed(2)} ` +
+              `(${a.adjustment >= 0 ? '+' : ''}${a.adjustment.toFixed(2)}; ${lean} by ${Math.abs(a.offset).toFixed(2)}` +
+              `${a.spread !== undefined ? `, spread x${a.spread.toFixed(2)}` : ''} over ${a.effectiveSamples.toFixed(1)} samples)`
+          })
+          .join(', ')
+        return `Bias correction: ${adjusted}. ${msg.data.reasoning || ''}`
+      }
       default:
         return 'Unknown message type'
     }
   }
 
+  /**
+   * Format per-criterion scores for transcript
+   */
+  private formatAspects(aspects?: Record<string, number>): string {
+    const entries = Object.entries(aspects || {})
+    if (entries.length === 0) return ''
+    return ` (${entries.map(([criterion, score]) => `${criterion}: ${score.toFixed(1)}`).join(', ')})`
+  }
+
+  /**
+   * The message's score on the evaluation's scale, when one is declared
+   */
+  private formatNativeScore(msg: AgentMessage): string {
+    const native = msg.data.nativeScore
+    if (native === undefined) return ''
+    return ` (${typeof native === 'number' ? Number(native.toFixed(2)) : native} on the evaluation's scale)`
+  }
+
   /**
    * Get phase from message type
    */
-  private getPhaseFromMessageType(type: string): 'scoring' | 'discussion' | 'consensus' {
-    switch (type) {
+  private getPhaseFromMessage(msg: AgentMessage): 'scoring' | 'discussion' | 'consensus' {
+    switch (msg.type) {
       case 'score':
         return 'scoring'
+      case 'abstain':
+      case 'failed':
+        return msg.roundNumber === 0 ? 'scoring' : 'discussion'
       case 'discussion':
       case 'adjustment':
+      case 'delphi_feedback':
         return 'discussion'
       case 'final':
+      case 'cancelled':
+      case 'outliers':
+      case 'bias_correction':
+      case 'verdict':
         return 'consensus'
       default:
         return 'scoring'
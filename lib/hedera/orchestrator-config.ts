@@ -0,0 +1,208 @@
+/**
+ * Orchestrator Config
+ * Validation and defaults shared by every entry point that starts evaluations
+ */
+
+import type {
+  BiasCorrectionMethod,
+  ComparisonConfig,
+  EvaluationWorkflow,
+  OrchestratorConfig,
+  OutlierStrategy,
+  RankingMethod,
+  VerdictRule,
+  VerdictTieBreak
+} from '../../types/agent'
+import { getConsensusRegistry } from './consensus-registry'
+import { resolveScoreScale, validateScoreScale } from '../scoring/score-scale'
+
+export const OUTLIER_STRATEGIES: OutlierStrategy[] = ['drop', 'down_weight', 'extra_round']
+
+export const BIAS_CORRECTION_METHODS: BiasCorrectionMethod[] = ['none', 'mean_offset', 'z_score']
+
+export const WORKFLOWS: EvaluationWorkflow[] = ['parallel', 'sequential', 'hierarchical']
+
+export const RANKING_METHODS: RankingMethod[] = ['bradley_terry', 'elo']
+
+export const VERDICT_RULES: VerdictRule[] = ['plurality', 'supermajority', 'unanimous']
+
+export const VERDICT_TIE_BREAKS: VerdictTieBreak[] = ['weighted', 'label_order', 'none']
+
+const MAX_VERDICT_LABELS = 10
+
+const MAX_BOOTSTRAP_SAMPLES = 2000
+
+// Retries of a failed agent call when maxRetries is not set
+export const DEFAULT_MAX_RETRIES = 2
+
+/**
+ * Validate an evaluation config, returning the error message if it is invalid
+ * Pass the panel's agent ids to check that the chief judge is on the panel
+ */
+export function validateConfig(
+  config: OrchestratorConfig,
+  panelSize: number,
+  agentIds?: string[]
+): string | undefined {
+  if (!config.maxDiscussionRounds || !config.consensusAlgorithm) {
+    return 'Invalid config: missing required fields (maxDiscussionRounds, consensusAlgorithm)'
+  }
+
+  const registry = getConsensusRegistry()
+  if (!registry.has(config.consensusAlgorithm)) {
+    return `Invalid config: consensusAlgorithm must be one of ${registry.names().join(', ')}`
+  }
+  if (config.consensusParams !== undefined &&
+      (typeof config.consensusParams !== 'object' || config.consensusParams === null || Array.isArray(config.consensusParams))) {
+    return 'Invalid config: consensusParams must be an object'
+  }
+  const paramsError = registry.validateParams(config.consensusAlgorithm, registry.paramsFromConfig(config))
+  if (paramsError) {
+    return `Invalid config: ${paramsError}`
+  }
+
+  if (config.roundTimeout !== undefined && !(config.roundTimeout > 0)) {
+    return 'Invalid config: roundTimeout must be a positive number of milliseconds'
+  }
+
+  const { minAgents, minFraction } = config.quorum || {}
+  if ((minAgents !== undefined && (!Number.isInteger(minAgents) || minAgents < 1 || minAgents > panelSize)) ||
+      (minFraction !== undefined && !(minFraction > 0 && minFraction <= 1))) {
+    return 'Invalid config: quorum.minAgents must be between 1 and the number of selected agents, quorum.minFraction between 0 and 1'
+  }
+
+  if ((config.maxRetries !== undefined && !(Number.isInteger(config.maxRetries) && config.maxRetries >= 0)) ||
+      (config.retryBackoffMs !== undefined && !(config.retryBackoffMs >= 0))) {
+    return 'Invalid config: maxRetries must be a non-negative integer and retryBackoffMs non-negative'
+  }
+
+  if ((config.outlierStrategy && !OUTLIER_STRATEGIES.includes(config.outlierStrategy)) ||
+      (config.outlierZScoreThreshold !== undefined && !(config.outlierZScoreThreshold > 0))) {
+    return `Invalid config: outlierStrategy must be one of ${OUTLIER_STRATEGIES.join(', ')} and outlierZScoreThreshold positive`
+  }
+
+  if (config.trimFraction !== undefined && !(config.trimFraction >= 0 && config.trimFraction < 0.5)) {
+    return 'Invalid config: trimFraction must be at least 0 and below 0.5'
+  }
+
+  if (config.biasCorrection && !BIAS_CORRECTION_METHODS.includes(config.biasCorrection)) {
+    return `Invalid config: biasCorrection must be one of ${BIAS_CORRECTION_METHODS.join(', ')}`
+  }
+
+  if (config.workflow && !WORKFLOWS.includes(config.workflow)) {
+    return `Invalid config: workflow must be one of ${WORKFLOWS.join(', ')}`
+  }
+
+  if (config.workflow === 'hierarchical') {
+    if (!config.chiefJudgeId || panelSize < 2) {
+      return 'Invalid config: the hierarchical workflow needs a chiefJudgeId and at least one other agent on the panel'
+    }
+    if (agentIds && !agentIds.includes(config.chiefJudgeId)) {
+      return `Invalid config: chief judge ${config.chiefJudgeId} is not one of the selected agents`
+    }
+  }
+
+  if (config.verdict !== undefined) {
+    const verdictError = validateVerdictConfig(config.verdict)
+    if (verdictError) {
+      return `Invalid config: ${verdictError}`
+    }
+  }
+
+  if (config.scoreScale !== undefined) {
+    const scaleError = validateScoreScale(config.scoreScale)
+    if (scaleError) {
+      return `Invalid config: ${scaleError}`
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Validate the categorical verdict settings, returning the error message if they are invalid
+ */
+function validateVerdictConfig(verdict: OrchestratorConfig['verdict']): string | undefined {
+  if (typeof verdict !== 'object' || verdict === null || !Array.isArray(verdict.labels)) {
+    return 'verdict must be an object with a labels array'
+  }
+
+  const { labels } = verdict
+  if (labels.length < 2 || labels.length > MAX_VERDICT_LABELS ||
+      !labels.every((label) => typeof label === 'string' && label.trim().length > 0 && label === label.trim())) {
+    return `verdict.labels must be 2 to ${MAX_VERDICT_LABELS} non-empty labels without surrounding whitespace`
+  }
+  if (new Set(labels.map((label) => label.toLowerCase())).size !== labels.length) {
+    return 'verdict.labels must be unique (ignoring case)'
+  }
+
+  if (verdict.rule !== undefined && !VERDICT_RULES.includes(verdict.rule)) {
+    return `verdict.rule must be one of ${VERDICT_RULES.join(', ')}`
+  }
+  // Above one half, so two labels can never both reach the supermajority
+  if (verdict.supermajority !== undefined && !(verdict.supermajority > 0.5 && verdict.supermajority <= 1)) {
+    return 'verdict.supermajority must be above 0.5 and at most 1'
+  }
+  if (verdict.tieBreak !== undefined && !VERDICT_TIE_BREAKS.includes(verdict.tieBreak)) {
+    return `verdict.tieBreak must be one of ${VERDICT_TIE_BREAKS.join(', ')}`
+  }
+  if (verdict.fallbackLabel !== undefined && !labels.includes(verdict.fallbackLabel)) {
+    return 'verdict.fallbackLabel must be one of verdict.labels'
+  }
+
+  return undefined
+}
+
+/**
+ * Validate a pairwise comparison config, returning the error message if it is invalid
+ */
+export function validateComparisonConfig(config: ComparisonConfig, panelSize: number): string | undefined {
+  if (!config || !RANKING_METHODS.includes(config.method)) {
+    return `Invalid config: method must be one of ${RANKING_METHODS.join(', ')}`
+  }
+
+  if (config.roundTimeout !== undefined && !(config.roundTimeout > 0)) {
+    return 'Invalid config: roundTimeout must be a positive number of milliseconds'
+  }
+
+  if ((config.judgesPerPair !== undefined &&
+        !(Number.isInteger(config.judgesPerPair) && config.judgesPerPair >= 1 && config.judgesPerPair <= panelSize)) ||
+      (config.maxComparisons !== undefined && !(Number.isInteger(config.maxComparisons) && config.maxComparisons >= 1))) {
+    return 'Invalid config: judgesPerPair must be between 1 and the number of selected agents, maxComparisons a positive integer'
+  }
+
+  if ((config.confidenceLevel !== undefined && !(config.confidenceLevel > 0 && config.confidenceLevel < 1)) ||
+      (config.bootstrapSamples !== undefined &&
+        !(Number.isInteger(config.bootstrapSamples) && config.bootstrapSamples >= 1 && config.bootstrapSamples <= MAX_BOOTSTRAP_SAMPLES))) {
+    return `Invalid config: confidenceLevel must be between 0 and 1, bootstrapSamples between 1 and ${MAX_BOOTSTRAP_SAMPLES}`
+  }
+
+  return undefined
+}
+
+/**
+ * Fill in default config values
+ */
+export function withConfigDefaults(config: OrchestratorConfig): OrchestratorConfig {
+  return {
+    maxDiscussionRounds: config.maxDiscussionRounds,
+    roundTimeout: config.roundTimeout || 60000,
+    quorum: config.quorum,
+    maxRetries: config.maxRetries,
+    retryBackoffMs: config.retryBackoffMs,
+    consensusAlgorithm: config.consensusAlgorithm,
+    consensusParams: config.consensusParams,
+    enableDiscussion: config.enableDiscussion ?? true,
+    convergenceThreshold: config.convergenceThreshold || 0.5,
+    outlierDetection: config.outlierDetection ?? true,
+    outlierStrategy: config.outlierStrategy,
+    outlierZScoreThreshold: config.outlierZScoreThreshold,
+    trimFraction: config.trimFraction,
+    workflow: config.workflow || 'parallel',
+    chiefJudgeId: config.chiefJudgeId,
+    verdict: config.verdict,
+    // Presets are stored resolved, so the evaluation records the exact scale it was scored on
+    scoreScale: config.scoreScale && resolveScoreScale(config.scoreScale),
+    biasCorrection: config.biasCorrection || 'none'
+  }
+}
@@ -16,17 +16,19 @@ import {
 } from '@hashgraph/sdk'
 import { getDatabase } from '../database.js'
 import CryptoJS from 'crypto-js'
+import type { OrchestratorConfig } from '../../types/agent'
+import type { AgentPaymentSigner } from '../agents/http-client-service'
+
+// Config saved with an orchestrator and used by POST /orchestrator/:orchestratorId/evaluate
+export interface SavedOrchestratorConfig extends OrchestratorConfig {
+  agentIds?: string[] // Default panel (Agent ids)
+  criteria?: string[]
+  rubricId?: string
+}
 
 export interface CreateOrchestratorRequest {
   userAddress: string
-  config: {
-    maxDiscussionRounds: number
-    roundTimeout: number
-    consensusAlgorithm: string
-    enableDiscussion: boolean
-    convergenceThreshold: number
-    outlierDetection: boolean
-  }
+  config: SavedOrchestratorConfig
   systemPrompt: string
   network: 'testnet' | 'mainnet'
   initialFunding?: number
@@ -82,6 +84,27 @@ export interface OrchestratorStatusResponse {
   createdAt: number
 }
 
+// Saved orchestrator as used to run an evaluation
+export interface OrchestratorEvaluationContext {
+  orchestratorId: string
+  userAddress: string
+  systemPrompt: string
+  config: SavedOrchestratorConfig
+  signer: AgentPaymentSigner
+}
+
+/**
+ * Thrown when an orchestrator's stored key cannot sign for its AA wallet account
+ * Orchestrators created before evaluations could be run from them stored a key
+ * that was never the account's
+ */
+export class OrchestratorWalletKeyError extends Error {
+  constructor(public orchestratorId: string, public accountId: string) {
+    super(`The stored key of orchestrator ${orchestratorId} does not control its wallet ${accountId} - create a new orchestrator to run evaluations`)
+    this.name = 'OrchestratorWalletKeyError'
+  }
+}
+
 export class OrchestratorService {
   private client: Client
   private operatorAccountId: AccountId
@@ -127,15 +150,11 @@ export class OrchestratorService {
       const hederaAccount = await this.createHederaAccount()
       console.log(`Created Hedera account: ${hederaAccount.accountId}`)
 
-      // 3. Generate key pair
-      const keyPair = await this.generateKeyPair()
-      console.log(`Generated key pair`)
-
-      // 4. Encrypt private key
-      const encryptedPrivateKey = await this.encryptPrivateKey(keyPair.privateKey)
+      // 3. Encrypt the account's private key - it signs the orchestrator's agent payments
+      const encryptedPrivateKey = await this.encryptPrivateKey(hederaAccount.privateKey)
       console.log(`Encrypted private key`)
 
-      // 5. Store in database
+      // 4. Store in database
       await this.saveOrchestrator({
         id: orchestratorId,
         userAddress: request.userAddress,
@@ -149,7 +168,7 @@ export class OrchestratorService {
         orchestratorId,
         address: hederaAccount.address,
         accountId: hederaAccount.accountId,
-        publicKey: keyPair.publicKey,
+        publicKey: hederaAccount.publicKey,
         privateKeyEncrypted: encryptedPrivateKey,
         isActive: true
       })
@@ -161,7 +180,7 @@ export class OrchestratorService {
         wallet: {
           address: hederaAccount.address,
           accountId: hederaAccount.accountId,
-          publicKey: keyPair.publicKey,
+          publicKey: hederaAccount.publicKey,
           isActive: true,
           createdAt: Date.now(),
           lastUsed: Date.now()
@@ -283,10 +302,43 @@ export class OrchestratorService {
     }
   }
 
+  /**
+   * Load a saved orchestrator with the payment signer of its active AA wallet
+   * Throws OrchestratorWalletKeyError when the stored key cannot sign for the wallet
+   */
+  async getEvaluationContext(orchestratorId: string): Promise<OrchestratorEvaluationContext | null> {
+    const orchestrator = await this.getOrchestrator(orchestratorId)
+    if (!orchestrator) return null
+
+    const wallet = await this.getAAWallet(orchestratorId)
+    if (!wallet) {
+      throw new Error('Wallet not found')
+    }
+
+    const privateKey = PrivateKey.fromStringECDSA(await this.decryptPrivateKey(wallet.privateKeyEncrypted))
+    // The wallet address is the account's public key as created, so a foreign key would only fail mid-evaluation
+    if (privateKey.publicKey.toString() !== wallet.address) {
+      throw new OrchestratorWalletKeyError(orchestratorId, wallet.accountId)
+    }
+    await this.updateWalletLastUsed(orchestratorId)
+
+    return {
+      orchestratorId: orchestrator.id,
+      userAddress: orchestrator.userAddress,
+      systemPrompt: orchestrator.systemPrompt || '',
+      config: JSON.parse(orchestrator.config || '{}'),
+      signer: {
+        accountId: wallet.accountId,
+        evmAddress: `0x${privateKey.publicKey.toEvmAddress()}`,
+        privateKey: `0x${privateKey.toStringRaw()}`,
+      },
+    }
+  }
+
   /**
    * Create Hedera account
    */
-  private async createHederaAccount(): Promise<{ address: string; accountId: string }> {
+  private async createHederaAccount(): Promise<{ address: string; accountId: string; publicKey: string; privateKey: string }> {
     try {
       // Generate a new key pair for the AA wallet
       const newKeyPair = PrivateKey.generateECDSA()
@@ -307,7 +359,9 @@ export class OrchestratorService {
 
       return {
         address: newKeyPair.publicKey.toString(),
-        accountId: accountId.toString()
+        accountId: accountId.toString(),
+        publicKey: newKeyPair.publicKey.toString(),
+        privateKey: newKeyPair.toString()
       }
     } catch (error) {
       console.error('❌ Failed to create Hedera account:', error)
@@ -315,17 +369,6 @@ export class OrchestratorService {
     }
   }
 
-  /**
-   * Generate ECDSA key pair
-   */
-  private async generateKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
-    const keyPair = PrivateKey.generateECDSA()
-    return {
-      publicKey: keyPair.publicKey.toString(),
-      privateKey: keyPair.toString()
-    }
-  }
-
   /**
    * Encrypt private key for storage
    */
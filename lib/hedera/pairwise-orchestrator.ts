@@ -0,0 +1,275 @@
+/**
+ * Pairwise Comparison Orchestrator
+ * Judges pick the better of two candidates; the verdicts are turned into a ranking
+ * with Bradley-Terry or Elo ratings and bootstrap confidence intervals
+ */
+
+import type {
+  Agent,
+  ComparisonCandidate,
+  ComparisonConfig,
+  ComparisonOutput,
+  ComparisonRequest,
+  PairwiseVerdict
+} from '../../types/agent'
+import { getHCSService } from './hcs-communication'
+import { RankingAlgorithms } from './ranking-algorithms'
+import { getOpenAIService, sanitizePreference } from '../ai/openai-service'
+import {
+  getAgentHTTPClient,
+  AgentCallAbortedError,
+  AgentCallFailedError,
+  type AgentPaymentSigner
+} from '../agents/http-client-service'
+import { getComparisonStore } from '../evaluations/comparison-store-service'
+
+export const DEFAULT_COMPARISON_CRITERIA = ['Accuracy', 'Clarity', 'Completeness', 'Relevance']
+
+const DEFAULT_COMPARISON_PROMPT = 'Which of the two candidates is the better response?'
+
+// One judge call: candidateA is shown first
+export interface PlannedComparison {
+  agent: Agent
+  candidateA: ComparisonCandidate
+  candidateB: ComparisonCandidate
+}
+
+export class PairwiseComparisonOrchestrator {
+  private hcsService = getHCSService()
+  private openAIService = getOpenAIService()
+  private agentHTTPClient = getAgentHTTPClient()
+  private comparisonStore = getComparisonStore()
+
+  /**
+   * Plan which judge compares which pair
+   * Pairs are ordered so every candidate is compared as evenly as possible, which keeps
+   * the ranking connected when maxComparisons cuts the plan short. Judges are rotated
+   * across pairs, and the A/B order alternates to cancel out position bias.
+   */
+  planComparisons(
+    candidates: ComparisonCandidate[],
+    agents: Agent[],
+    config: ComparisonConfig
+  ): PlannedComparison[] {
+    const judgesPerPair = Math.min(config.judgesPerPair ?? 1, agents.length)
+    const remaining: Array<[number, number]> = []
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        remaining.push([i, j])
+      }
+    }
+
+    const limit = Math.min(config.maxComparisons ?? Infinity, remaining.length * judgesPerPair)
+    const counts = new Array(candidates.length).fill(0)
+    const plan: PlannedComparison[] = []
+    let pairIndex = 0
+
+    while (plan.length < limit && remaining.length > 0) {
+      // Least-compared pair first
+      let best = 0
+      for (let p = 1; p < remaining.length; p++) {
+        const [a, b] = remaining[p]
+        const [bestA, bestB] = remaining[best]
+        if (counts[a] + counts[b] < counts[bestA] + counts[bestB]) best = p
+      }
+      const [a, b] = remaining.splice(best, 1)[0]
+      counts[a]++
+      counts[b]++
+
+      for (let j = 0; j < judgesPerPair && plan.length < limit; j++) {
+        const agent = agents[(pairIndex * judgesPerPair + j) % agents.length]
+        const swap = (pairIndex + j) % 2 === 1
+        plan.push({
+          agent,
+          candidateA: candidates[swap ? b : a],
+          candidateB: candidates[swap ? a : b],
+        })
+      }
+      pairIndex++
+    }
+
+    return plan
+  }
+
+  /**
+   * Run every planned comparison and rank the candidates
+   * Judges work through their own queue one call at a time, in parallel with each other.
+   * Each verdict is published to HCS and stored as it comes in.
+   */
+  async executeComparison(
+    request: ComparisonRequest,
+    config: ComparisonConfig,
+    existingTopicId?: string,
+    signer?: AgentPaymentSigner
+  ): Promise<ComparisonOutput> {
+    const plan = this.planComparisons(request.candidates, request.selectedAgents, config)
+    const criteria = request.criteria?.length ? request.criteria : DEFAULT_COMPARISON_CRITERIA
+    console.log('⚖️  Starting Pairwise Comparison')
+    console.log(`Candidates: ${request.candidates.length}, comparisons: ${plan.length}, method: ${config.method}`)
+
+    try {
+      const topicId = existingTopicId || await this.hcsService.createEvaluationTopic(request.id, {
+        title: `Comparison-${request.id}`,
+        numberOfAgents: request.selectedAgents.length,
+        maxRounds: plan.length,
+      })
+
+      const queues = new Map<string, Array<{ comparison: PlannedComparison; index: number }>>()
+      plan.forEach((comparison, index) => {
+        const queue = queues.get(comparison.agent.id) || []
+        queue.push({ comparison, index })
+        queues.set(comparison.agent.id, queue)
+      })
+
+      const verdicts: Array<PairwiseVerdict | undefined> = new Array(plan.length)
+      let failedComparisons = 0
+
+      await Promise.all(Array.from(queues.values()).map(async (queue) => {
+        for (const { comparison, index } of queue) {
+          try {
+            const verdict = await this.judgePair(request, comparison, criteria, config, signer)
+            try {
+              verdict.hcsTxId = (await this.hcsService.submitComparison(topicId, verdict, index + 1)).txId
+            } catch (error) {
+              console.error(`  ⚠️  Failed to publish verdict from ${verdict.agentName} to HCS:`, error)
+            }
+            await this.comparisonStore.recordVerdict(request.id, verdict)
+            verdicts[index] = verdict
+          } catch (error) {
+            failedComparisons++
+            console.error(
+              `  ❌ ${comparison.agent.name} failed to compare ${comparison.candidateA.id} vs ${comparison.candidateB.id}:`,
+              error instanceof Error ? error.message : error
+            )
+          }
+        }
+      }))
+
+      // Keep plan order so Elo ratings do not depend on which judge answered first
+      const completed = verdicts.filter((verdict): verdict is PairwiseVerdict => verdict !== undefined)
+      if (completed.length === 0) {
+        throw new Error('Every comparison failed')
+      }
+
+      const confidenceLevel = config.confidenceLevel ?? 0.95
+      const rankings = RankingAlgorithms.rank(config.method, request.candidates, completed, {
+        confidenceLevel,
+        bootstrapSamples: config.bootstrapSamples,
+      })
+
+      let hcsTxId: string | undefined
+      try {
+        const submission = await this.hcsService.publishFinalRanking(
+          topicId,
+          request.id,
+          rankings,
+          config.method,
+          completed.length
+        )
+        hcsTxId = submission.txId
+      } catch (error) {
+        console.error('  ⚠️  Failed to publish final ranking to HCS:', error)
+      }
+
+      const output: ComparisonOutput = {
+        requestId: request.id,
+        topicId,
+        method: config.method,
+        confidenceLevel,
+        rankings,
+        verdicts: completed,
+        failedComparisons,
+        hcsTxId,
+        completedAt: Date.now(),
+      }
+      await this.comparisonStore.completeComparison(request.id, output)
+
+      console.log(`✅ Comparison complete: ${rankings.map((r) => `${r.rank}. ${r.label || r.candidateId}`).join(', ')}`)
+      return output
+    } catch (error) {
+      await this.comparisonStore.failComparison(
+        request.id,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Ask one judge for its preference, paying it through the HTTP endpoint
+   * Falls back to direct OpenAI only when no payment was submitted
+   */
+  private async judgePair(
+    request: ComparisonRequest,
+    comparison: PlannedComparison,
+    criteria: string[],
+    config: ComparisonConfig,
+    signer?: AgentPaymentSigner
+  ): Promise<PairwiseVerdict> {
+    const { agent, candidateA, candidateB } = comparison
+    const prompt = request.prompt || DEFAULT_COMPARISON_PROMPT
+    const verdict = {
+      agentId: agent.id,
+      agentName: agent.name,
+      candidateA: candidateA.id,
+      candidateB: candidateB.id,
+    }
+
+    try {
+      console.log(`  🤖 ${agent.name} is comparing ${candidateA.id} vs ${candidateB.id}...`)
+      const result = await this.agentHTTPClient.callAgent(agent, {
+        content: prompt,
+        criteria,
+        comparison: { candidateA: candidateA.content, candidateB: candidateB.content },
+      }, AbortSignal.timeout(config.roundTimeout), signer)
+
+      if (!result.preference) {
+        throw new Error('Agent did not return a preference')
+      }
+      const preference = sanitizePreference(result.preference)
+
+      return {
+        ...verdict,
+        winner: preference.winner,
+        margin: preference.margin,
+        reasoning: result.reasoning,
+        paymentTx: result.paymentTx,
+        timestamp: Date.now(),
+      }
+    } catch (error) {
+      const paymentSubmitted =
+        (error instanceof AgentCallAbortedError || error instanceof AgentCallFailedError) &&
+        error.paymentSubmitted
+      // Falling back after a paid request would judge the pair twice for one payment
+      if (paymentSubmitted) throw error
+
+      console.log(`  🔄 Falling back to direct OpenAI for ${agent.name}...`)
+      const fallback = await this.openAIService.comparePair(
+        agent,
+        prompt,
+        candidateA.content,
+        candidateB.content,
+        criteria,
+        AbortSignal.timeout(config.roundTimeout)
+      )
+
+      return {
+        ...verdict,
+        winner: fallback.winner,
+        margin: fallback.margin,
+        reasoning: fallback.reasoning,
+        timestamp: Date.now(),
+      }
+    }
+  }
+}
+
+// Singleton instance
+let pairwiseOrchestrator: PairwiseComparisonOrchestrator | null = null
+
+export function getPairwiseOrchestrator(): PairwiseComparisonOrchestrator {
+  if (!pairwiseOrchestrator) {
+    pairwiseOrchestrator = new PairwiseComparisonOrchestrator()
+  }
+  return pairwiseOrchestrator
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { PairwiseVerdict } from '../../types/agent'
+import { RankingAlgorithms } from './ranking-algorithms'
+
+function verdict(candidateA: string, candidateB: string, winner: PairwiseVerdict['winner'], margin = 1): PairwiseVerdict {
+  return { agentId: 'judge', agentName: 'Judge', candidateA, candidateB, winner, margin, reasoning: '', timestamp: 0 }
+}
+
+describe('RankingAlgorithms.outcomeScore', () => {
+  it('counts any win for at least 0.75', () => {
+    expect(RankingAlgorithms.outcomeScore({ winner: 'tie', margin: 0 })).toBe(0.5)
+    expect(RankingAlgorithms.outcomeScore({ winner: 'A', margin: 1 })).toBe(1)
+    expect(RankingAlgorithms.outcomeScore({ winner: 'B', margin: 0 })).toBe(0.25)
+  })
+})
+
+describe('RankingAlgorithms.bradleyTerry', () => {
+  it('matches the closed form for a single decisive win', () => {
+    // With the virtual tie A has won 1.5 of 2 games: odds of 3, so strengths sqrt(3) and 1/sqrt(3)
+    const ratings = RankingAlgorithms.bradleyTerry(['a', 'b'], [{ candidateA: 'a', candidateB: 'b', scoreA: 1 }])
+
+    expect(ratings.a).toBeCloseTo(1500 + 200 * Math.log10(3))
+    expect(ratings.b).toBeCloseTo(1500 - 200 * Math.log10(3))
+  })
+
+  it('orders a transitive set of wins and keeps losers finite', () => {
+    const ratings = RankingAlgorithms.bradleyTerry(['a', 'b', 'c'], [
+      { candidateA: 'a', candidateB: 'b', scoreA: 1 },
+      { candidateA: 'b', candidateB: 'c', scoreA: 1 },
+      { candidateA: 'a', candidateB: 'c', scoreA: 1 },
+    ])
+
+    expect(ratings.a).toBeGreaterThan(ratings.b)
+    expect(ratings.b).toBeGreaterThan(ratings.c)
+    expect(Number.isFinite(ratings.c)).toBe(true)
+  })
+})
+
+describe('RankingAlgorithms.elo', () => {
+  it('moves both ratings by K times the surprise', () => {
+    expect(RankingAlgorithms.elo(['a', 'b'], [{ candidateA: 'a', candidateB: 'b', scoreA: 1 }]))
+      .toEqual({ a: 1516, b: 1484 })
+  })
+
+  it('ignores outcomes of unknown candidates', () => {
+    expect(RankingAlgorithms.elo(['a'], [{ candidateA: 'a', candidateB: 'x', scoreA: 1 }])).toEqual({ a: 1500 })
+  })
+})
+
+describe('RankingAlgorithms.rank', () => {
+  const candidates = [{ id: 'a', label: 'First' }, { id: 'b' }, { id: 'c' }]
+  const verdicts = [
+    verdict('a', 'b', 'A'),
+    verdict('b', 'c', 'A'),
+    verdict('c', 'a', 'B'),
+    verdict('b', 'c', 'tie', 0),
+  ]
+
+  it('ranks by rating with win/loss/tie records and bootstrap bounds', () => {
+    const ranking = RankingAlgorithms.rank('bradley_terry', candidates, verdicts)
+
+    expect(ranking.map((r) => [r.candidateId, r.rank])).toEqual([['a', 1], ['b', 2], ['c', 3]])
+    expect(ranking[0]).toMatchObject({ label: 'First', wins: 2, losses: 0, ties: 0, comparisons: 2 })
+    expect(ranking[1]).toMatchObject({ wins: 1, losses: 1, ties: 1, comparisons: 3 })
+    ranking.forEach((r) => {
+      expect(r.lower).toBeLessThanOrEqual(r.upper)
+    })
+  })
+
+  it('gives the same intervals for the same verdicts', () => {
+    expect(RankingAlgorithms.rank('elo', candidates, verdicts)).toEqual(RankingAlgorithms.rank('elo', candidates, verdicts))
+  })
+
+  it('rates every candidate at the base without verdicts', () => {
+    expect(RankingAlgorithms.rank('elo', candidates, []).map((r) => [r.rating, r.lower, r.upper]))
+      .toEqual([[1500, 1500, 1500], [1500, 1500, 1500], [1500, 1500, 1500]])
+  })
+})
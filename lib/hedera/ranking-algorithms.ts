@@ -0,0 +1,205 @@
+/**
+ * Ranking Algorithms for Pairwise Comparisons
+ * Turn pairwise verdicts into candidate ratings with bootstrap confidence intervals
+ */
+
+import type {
+  CandidateRanking,
+  PairwisePreference,
+  PairwiseVerdict,
+  RankingMethod
+} from '../../types/agent'
+
+// One comparison outcome: scoreA is A's share of the win (1 = A decisively, 0.5 = tie, 0 = B decisively)
+export interface PairwiseOutcome {
+  candidateA: string
+  candidateB: string
+  scoreA: number
+}
+
+const ELO_BASE = 1500
+const ELO_SCALE = 400
+const ELO_K = 32
+
+export class RankingAlgorithms {
+  /**
+   * Convert a judge's preference into A's share of the win
+   * Any win counts for at least 0.75 so a slight preference still beats a tie
+   */
+  static outcomeScore(preference: PairwisePreference): number {
+    if (preference.winner === 'tie') return 0.5
+    const share = 0.75 + 0.25 * Math.max(0, Math.min(1, preference.margin))
+    return preference.winner === 'A' ? share : 1 - share
+  }
+
+  /**
+   * Bradley-Terry - Maximum likelihood strengths via the MM algorithm (Hunter, 2004)
+   * Every compared pair gets one virtual tie so candidates that never won keep a finite rating
+   * Strengths are reported on the Elo scale (1500 = geometric-mean strength)
+   */
+  static bradleyTerry(
+    candidates: string[],
+    outcomes: PairwiseOutcome[],
+    iterations: number = 200
+  ): Record<string, number> {
+    const index = new Map(candidates.map((id, i) => [id, i]))
+    const n = candidates.length
+    const wins = new Array(n).fill(0)
+    const games: number[][] = Array.from({ length: n }, () => new Array(n).fill(0))
+
+    outcomes.forEach(({ candidateA, candidateB, scoreA }) => {
+      const a = index.get(candidateA)
+      const b = index.get(candidateB)
+      if (a === undefined || b === undefined || a === b) return
+      wins[a] += scoreA
+      wins[b] += 1 - scoreA
+      games[a][b] += 1
+      games[b][a] += 1
+    })
+
+    // Virtual tie per compared pair
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (games[i][j] > 0) {
+          games[i][j] += 1
+          games[j][i] += 1
+          wins[i] += 0.5
+          wins[j] += 0.5
+        }
+      }
+    }
+
+    let strengths = new Array(n).fill(1)
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const next = strengths.map((strength, i) => {
+        let denominator = 0
+        for (let j = 0; j < n; j++) {
+          if (games[i][j] > 0) denominator += games[i][j] / (strength + strengths[j])
+        }
+        return denominator > 0 ? wins[i] / denominator : strength
+      })
+
+      // Normalize to geometric mean 1
+      const logMean = next.reduce((sum, s) => sum + Math.log(s), 0) / n
+      const normalized = next.map((s) => s / Math.exp(logMean))
+      const change = Math.max(...normalized.map((s, i) => Math.abs(s - strengths[i])))
+      strengths = normalized
+      if (change < 1e-9) break
+    }
+
+    return Object.fromEntries(
+      candidates.map((id, i) => [id, ELO_BASE + ELO_SCALE * Math.log10(strengths[i])])
+    )
+  }
+
+  /**
+   * Elo - Sequential rating updates in verdict order
+   */
+  static elo(
+    candidates: string[],
+    outcomes: PairwiseOutcome[],
+    k: number = ELO_K
+  ): Record<string, number> {
+    const ratings: Record<string, number> = Object.fromEntries(candidates.map((id) => [id, ELO_BASE]))
+
+    outcomes.forEach(({ candidateA, candidateB, scoreA }) => {
+      if (ratings[candidateA] === undefined || ratings[candidateB] === undefined) return
+      const expectedA = 1 / (1 + Math.pow(10, (ratings[candidateB] - ratings[candidateA]) / ELO_SCALE))
+      const delta = k * (scoreA - expectedA)
+      ratings[candidateA] += delta
+      ratings[candidateB] -= delta
+    })
+
+    return ratings
+  }
+
+  /**
+   * Rank candidates with the given method
+   * Confidence intervals are percentile bootstrap intervals over resampled verdicts,
+   * with a fixed seed so the same verdicts always give the same ranking
+   */
+  static rank(
+    method: RankingMethod,
+    candidates: Array<{ id: string; label?: string }>,
+    verdicts: PairwiseVerdict[],
+    options: { confidenceLevel?: number; bootstrapSamples?: number } = {}
+  ): CandidateRanking[] {
+    const confidenceLevel = options.confidenceLevel ?? 0.95
+    const samples = options.bootstrapSamples ?? 200
+    const ids = candidates.map((candidate) => candidate.id)
+    const outcomes: PairwiseOutcome[] = verdicts.map((verdict) => ({
+      candidateA: verdict.candidateA,
+      candidateB: verdict.candidateB,
+      scoreA: this.outcomeScore(verdict),
+    }))
+    const rate = (sample: PairwiseOutcome[]) =>
+      method === 'elo' ? this.elo(ids, sample) : this.bradleyTerry(ids, sample)
+
+    const ratings = rate(outcomes)
+
+    const random = seededRandom(outcomes.length * 7919 + ids.length)
+    const bootstrap: Record<string, number[]> = Object.fromEntries(ids.map((id) => [id, []]))
+    if (outcomes.length > 0) {
+      for (let s = 0; s < samples; s++) {
+        const sample = outcomes.map(() => outcomes[Math.floor(random() * outcomes.length)])
+        const sampleRatings = rate(sample)
+        ids.forEach((id) => bootstrap[id].push(sampleRatings[id]))
+      }
+    }
+
+    const alpha = (1 - confidenceLevel) / 2
+    return candidates
+      .map((candidate) => {
+        const id = candidate.id
+        const record = outcomes.reduce(
+          (acc, outcome) => {
+            if (outcome.candidateA !== id && outcome.candidateB !== id) return acc
+            const score = outcome.candidateA === id ? outcome.scoreA : 1 - outcome.scoreA
+            acc.comparisons++
+            if (score > 0.5) acc.wins++
+            else if (score < 0.5) acc.losses++
+            else acc.ties++
+            return acc
+          },
+          { wins: 0, losses: 0, ties: 0, comparisons: 0 }
+        )
+        const sorted = [...bootstrap[id]].sort((a, b) => a - b)
+
+        return {
+          candidateId: id,
+          ...(candidate.label && { label: candidate.label }),
+          rank: 0,
+          rating: ratings[id],
+          lower: sorted.length > 0 ? percentile(sorted, alpha) : ratings[id],
+          upper: sorted.length > 0 ? percentile(sorted, 1 - alpha) : ratings[id],
+          ...record,
+        }
+      })
+      .sort((a, b) => b.rating - a.rating)
+      .map((ranking, position) => ({ ...ranking, rank: position + 1 }))
+  }
+}
+
+/**
+ * Percentile of sorted values with linear interpolation
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Deterministic PRNG (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
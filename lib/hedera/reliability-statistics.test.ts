@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { ReliabilityStatistics } from './reliability-statistics'
+
+// Shrout and Fleiss (1979): six targets rated by four judges, rows here are judges
+const SHROUT_FLEISS = [
+  [9, 6, 8, 7, 10, 6],
+  [2, 1, 4, 1, 5, 2],
+  [5, 3, 6, 2, 6, 4],
+  [8, 2, 8, 6, 9, 7],
+]
+
+describe('ReliabilityStatistics.krippendorffAlpha', () => {
+  it('is 1 for identical ratings', () => {
+    const ratings = { a: { x: 0, y: 10 }, b: { x: 0, y: 10 } }
+    expect(ReliabilityStatistics.krippendorffAlpha(ratings, ['x', 'y'])).toBe(1)
+  })
+
+  it('is below chance for opposed ratings', () => {
+    const ratings = { a: { x: 1, y: 2 }, b: { x: 2, y: 1 } }
+    expect(ReliabilityStatistics.krippendorffAlpha(ratings, ['x', 'y'])).toBeCloseTo(-0.5)
+  })
+
+  it('skips items only one judge rated', () => {
+    const ratings = { a: { x: 0, y: 10, z: 3 }, b: { x: 0, y: 10 } }
+    expect(ReliabilityStatistics.krippendorffAlpha(ratings, ['x', 'y', 'z'])).toBe(1)
+  })
+
+  it('is null without two pairable items or without variation', () => {
+    expect(ReliabilityStatistics.krippendorffAlpha({ a: { x: 1 }, b: { x: 2 } }, ['x'])).toBeNull()
+    expect(ReliabilityStatistics.krippendorffAlpha({ a: { x: 5, y: 5 }, b: { x: 5, y: 5 } }, ['x', 'y'])).toBeNull()
+  })
+})
+
+describe('ReliabilityStatistics.icc', () => {
+  it('matches the published ICC(2,1) and ICC(2,k)', () => {
+    const { single, average } = ReliabilityStatistics.icc(SHROUT_FLEISS)
+    expect(single).toBeCloseTo(0.29, 2)
+    expect(average).toBeCloseTo(0.62, 2)
+  })
+
+  it('needs two judges and two items', () => {
+    expect(ReliabilityStatistics.icc([[1, 2]])).toEqual({ single: null, average: null })
+  })
+})
+
+describe('ReliabilityStatistics.kendallW', () => {
+  it('is 1 for identical rankings and 0 for opposite ones', () => {
+    expect(ReliabilityStatistics.kendallW([[1, 2, 3], [4, 5, 9]])).toBeCloseTo(1)
+    expect(ReliabilityStatistics.kendallW([[1, 2, 3], [3, 2, 1]])).toBeCloseTo(0)
+  })
+
+  it('corrects for ties', () => {
+    // Both judges tie the first two items and rank the third highest: perfect agreement
+    expect(ReliabilityStatistics.kendallW([[5, 5, 7], [2, 2, 9]])).toBeCloseTo(1)
+  })
+})
+
+describe('ReliabilityStatistics.compute', () => {
+  it('reports pairwise agreement within one point', () => {
+    const reliability = ReliabilityStatistics.compute({
+      a: { x: 5, y: 8 },
+      b: { x: 6, y: 4 },
+    })
+
+    expect(reliability.raters).toBe(2)
+    expect(reliability.items).toEqual(['x', 'y'])
+    expect(reliability.pairwise).toEqual([
+      { agentA: 'a', agentB: 'b', items: 2, meanAbsoluteDifference: 2.5, agreement: 0.5 },
+    ])
+    expect(reliability.meanAgreement).toBe(0.5)
+  })
+})
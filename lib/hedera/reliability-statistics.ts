@@ -0,0 +1,169 @@
+/**
+ * Inter-Rater Reliability Statistics
+ * How much the judges of an evaluation agree: Krippendorff's alpha, ICC, Kendall's W
+ * and pairwise agreement over the criteria each judge scored
+ */
+
+import type { InterRaterReliability, PairwiseAgreement } from '../../types/agent'
+
+// Judge id to its score for each item (criterion)
+export type RatingMatrix = Record<string, Record<string, number>>
+
+// Two judges agree on an item when their scores are at most this far apart
+const AGREEMENT_TOLERANCE = 1
+
+export class ReliabilityStatistics {
+  /**
+   * Every statistic for one set of ratings
+   * Alpha, ICC and W need at least two judges and two items; ICC and W only use the items every judge scored
+   */
+  static compute(ratings: RatingMatrix): InterRaterReliability {
+    const raters = Object.keys(ratings)
+    const items = [...new Set(raters.flatMap((rater) => Object.keys(ratings[rater])))]
+    const completeItems = items.filter((item) => raters.every((rater) => ratings[rater][item] !== undefined))
+    const complete = raters.map((rater) => completeItems.map((item) => ratings[rater][item]))
+
+    const pairwise = this.pairwiseAgreement(ratings)
+    const agreements = pairwise.filter((pair) => pair.items > 0).map((pair) => pair.agreement)
+
+    return {
+      raters: raters.length,
+      items,
+      krippendorffAlpha: this.krippendorffAlpha(ratings, items),
+      icc: this.icc(complete),
+      kendallW: this.kendallW(complete),
+      pairwise,
+      meanAgreement: agreements.length > 0 ? agreements.reduce((a, b) => a + b, 0) / agreements.length : null,
+    }
+  }
+
+  /**
+   * Krippendorff's alpha with the interval metric - tolerates missing ratings
+   * 1 = perfect agreement, 0 = agreement at chance level; null without variation to explain
+   */
+  static krippendorffAlpha(ratings: RatingMatrix, items: string[]): number | null {
+    if (items.length < 2) return null
+
+    // Only items scored by at least two judges are pairable
+    const units = items
+      .map((item) => Object.values(ratings).map((scores) => scores[item]).filter((value) => value !== undefined))
+      .filter((values) => values.length >= 2)
+    const values = units.flat()
+    const n = values.length
+    if (units.length < 2 || n < 2) return null
+
+    const squaredDifferences = (a: number[], b: number[]) =>
+      a.reduce((sum, x) => sum + b.reduce((inner, y) => inner + Math.pow(x - y, 2), 0), 0)
+
+    const observed = units.reduce((sum, unit) => sum + squaredDifferences(unit, unit) / (unit.length - 1), 0) / n
+    const expected = squaredDifferences(values, values) / (n * (n - 1))
+    if (expected === 0) return null
+
+    return 1 - observed / expected
+  }
+
+  /**
+   * Two-way random effects ICC for absolute agreement (Shrout and Fleiss ICC(2,1) and ICC(2,k))
+   * rows are judges, columns the items every judge scored
+   */
+  static icc(matrix: number[][]): { single: number | null; average: number | null } {
+    const k = matrix.length
+    const n = matrix[0]?.length || 0
+    if (k < 2 || n < 2) return { single: null, average: null }
+
+    const grandMean = matrix.flat().reduce((a, b) => a + b, 0) / (k * n)
+    const itemMeans = Array.from({ length: n }, (_, i) => matrix.reduce((sum, row) => sum + row[i], 0) / k)
+    const raterMeans = matrix.map((row) => row.reduce((a, b) => a + b, 0) / n)
+
+    const ssItems = k * itemMeans.reduce((sum, mean) => sum + Math.pow(mean - grandMean, 2), 0)
+    const ssRaters = n * raterMeans.reduce((sum, mean) => sum + Math.pow(mean - grandMean, 2), 0)
+    const ssTotal = matrix.flat().reduce((sum, value) => sum + Math.pow(value - grandMean, 2), 0)
+    const ssError = ssTotal - ssItems - ssRaters
+
+    const msItems = ssItems / (n - 1)
+    const msRaters = ssRaters / (k - 1)
+    const msError = ssError / ((n - 1) * (k - 1))
+
+    const singleDenominator = msItems + (k - 1) * msError + k * (msRaters - msError) / n
+    const averageDenominator = msItems + (msRaters - msError) / n
+    return {
+      single: singleDenominator > 0 ? (msItems - msError) / singleDenominator : null,
+      average: averageDenominator > 0 ? (msItems - msError) / averageDenominator : null,
+    }
+  }
+
+  /**
+   * Kendall's W - agreement of the judges on how the items rank, corrected for ties
+   * rows are judges, columns the items every judge scored; 1 = identical rankings
+   */
+  static kendallW(matrix: number[][]): number | null {
+    const m = matrix.length
+    const n = matrix[0]?.length || 0
+    if (m < 2 || n < 2) return null
+
+    let ties = 0
+    const rankSums = new Array(n).fill(0)
+    matrix.forEach((row) => {
+      const { ranks, tieCorrection } = this.rank(row)
+      ranks.forEach((rank, i) => { rankSums[i] += rank })
+      ties += tieCorrection
+    })
+
+    const meanRankSum = rankSums.reduce((a, b) => a + b, 0) / n
+    const s = rankSums.reduce((sum, rankSum) => sum + Math.pow(rankSum - meanRankSum, 2), 0)
+    const denominator = m * m * (Math.pow(n, 3) - n) - m * ties
+    return denominator > 0 ? 12 * s / denominator : null
+  }
+
+  /**
+   * Agreement of every pair of judges over the items both scored
+   */
+  static pairwiseAgreement(ratings: RatingMatrix): PairwiseAgreement[] {
+    const raters = Object.keys(ratings)
+    const pairs: PairwiseAgreement[] = []
+
+    raters.forEach((agentA, i) => {
+      raters.slice(i + 1).forEach((agentB) => {
+        const differences = Object.keys(ratings[agentA])
+          .filter((item) => ratings[agentB][item] !== undefined)
+          .map((item) => Math.abs(ratings[agentA][item] - ratings[agentB][item]))
+
+        pairs.push({
+          agentA,
+          agentB,
+          items: differences.length,
+          meanAbsoluteDifference: differences.length > 0
+            ? differences.reduce((a, b) => a + b, 0) / differences.length
+            : 0,
+          agreement: differences.length > 0
+            ? differences.filter((difference) => difference <= AGREEMENT_TOLERANCE).length / differences.length
+            : 0,
+        })
+      })
+    })
+
+    return pairs
+  }
+
+  /**
+   * Ranks 1..n with tied values sharing their average rank, and the sum of t^3 - t over tie groups
+   */
+  private static rank(values: number[]): { ranks: number[]; tieCorrection: number } {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+    const ranks = new Array(values.length).fill(0)
+    let tieCorrection = 0
+
+    let start = 0
+    while (start < order.length) {
+      let end = start
+      while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+      const averageRank = (start + end) / 2 + 1
+      for (let i = start; i <= end; i++) ranks[order[i].index] = averageRank
+      const t = end - start + 1
+      tieCorrection += Math.pow(t, 3) - t
+      start = end + 1
+    }
+
+    return { ranks, tieCorrection }
+  }
+}
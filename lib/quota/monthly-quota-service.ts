@@ -5,6 +5,13 @@
 
 import { PrismaClient } from '@prisma/client'
 
+// Quotas are kept in USD; HBAR amounts are converted at this rate
+export const HBAR_USD_RATE = parseFloat(process.env.HBAR_USD_RATE || '0.05')
+
+export function hbarToUsd(hbar: number): number {
+  return hbar * HBAR_USD_RATE
+}
+
 export interface QuotaCheckResult {
   allowed: boolean
   currentUsage: number
@@ -99,8 +106,10 @@ export class MonthlyQuotaService {
 
   /**
    * Record usage after successful payment
+   * HBAR payments count against the quota at their USD value
    */
   async recordUsage(usage: UsageRecord): Promise<void> {
+    const usd = usage.currency === 'HBAR' ? hbarToUsd(usage.amount) : usage.amount
     try {
       // Record the usage
       await this.prisma.usageLog.create({
@@ -119,13 +128,13 @@ export class MonthlyQuotaService {
         where: { userAddress: usage.userAddress },
         update: {
           currentUsage: {
-            increment: usage.amount
+            increment: usd
           }
         },
         create: {
           userAddress: usage.userAddress,
           monthlyCap: 100.0,
-          currentUsage: usage.amount,
+          currentUsage: usd,
           lastResetDate: new Date(),
           isActive: true
         }
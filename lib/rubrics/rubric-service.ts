@@ -0,0 +1,302 @@
+/**
+ * Rubric Service
+ * Stores named, versioned scoring rubrics. Rubrics are immutable once created -
+ * updating one creates a new version so past evaluations keep pointing at the
+ * exact criteria, weights and anchors they were scored against
+ */
+
+import { randomUUID } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import type { Rubric, RubricCriterion, ScoreScale } from '../../types/agent'
+import { DEFAULT_SCORE_SCALE, formatScore } from '../scoring/score-scale.js'
+
+export interface RubricInput {
+  name: string
+  description?: string
+  criteria: RubricCriterion[]
+  isPreset?: boolean
+  createdBy?: string
+}
+
+export interface ListRubricsOptions {
+  name?: string
+  preset?: boolean
+  allVersions?: boolean // Default: only the latest version of each rubric
+}
+
+/**
+ * Thrown when a rubric definition is invalid
+ */
+export class RubricValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RubricValidationError'
+  }
+}
+
+/**
+ * Thrown when a rubric id does not exist
+ */
+export class RubricNotFoundError extends Error {
+  constructor(public rubricId: string) {
+    super(`Rubric ${rubricId} not found`)
+    this.name = 'RubricNotFoundError'
+  }
+}
+
+export class RubricService {
+  private db: PrismaClient
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Create version 1 of a new rubric
+   */
+  async createRubric(input: RubricInput): Promise<Rubric> {
+    const criteria = validateRubric(input)
+
+    const existing = await this.db.rubric.findFirst({ where: { name: input.name } })
+    if (existing) {
+      throw new RubricValidationError(`Rubric "${input.name}" already exists - update it to create a new version`)
+    }
+
+    const row = await this.db.rubric.create({
+      data: {
+        id: randomUUID(),
+        name: input.name,
+        version: 1,
+        description: input.description || null,
+        criteria: JSON.stringify(criteria),
+        isPreset: input.isPreset ?? false,
+        createdBy: input.createdBy || null,
+      },
+    })
+
+    return this.toRubric(row)
+  }
+
+  /**
+   * Create a new version of an existing rubric
+   * Fields not given are carried over from the version being updated
+   */
+  async updateRubric(rubricId: string, input: Partial<RubricInput>): Promise<Rubric> {
+    const current = await this.getRubric(rubricId)
+    if (!current) throw new RubricNotFoundError(rubricId)
+
+    const merged: RubricInput = {
+      name: current.name,
+      description: input.description ?? current.description,
+      criteria: input.criteria ?? current.criteria,
+      isPreset: current.isPreset,
+      createdBy: input.createdBy ?? current.createdBy,
+    }
+    const criteria = validateRubric(merged)
+
+    const latest = await this.db.rubric.findFirst({
+      where: { name: current.name },
+      orderBy: { version: 'desc' },
+    })
+
+    const row = await this.db.rubric.create({
+      data: {
+        id: randomUUID(),
+        name: current.name,
+        version: (latest?.version ?? current.version) + 1,
+        description: merged.description || null,
+        criteria: JSON.stringify(criteria),
+        isPreset: merged.isPreset ?? false,
+        createdBy: merged.createdBy || null,
+      },
+    })
+
+    return this.toRubric(row)
+  }
+
+  /**
+   * Get a single rubric version
+   */
+  async getRubric(rubricId: string): Promise<Rubric | null> {
+    const row = await this.db.rubric.findUnique({ where: { id: rubricId } })
+    return row ? this.toRubric(row) : null
+  }
+
+  /**
+   * List rubrics, newest version first
+   */
+  async listRubrics(options: ListRubricsOptions = {}): Promise<Rubric[]> {
+    const rows = await this.db.rubric.findMany({
+      where: {
+        ...(options.name && { name: options.name }),
+        ...(options.preset !== undefined && { isPreset: options.preset }),
+      },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    })
+
+    const rubrics = rows.map((row) => this.toRubric(row))
+    if (options.allVersions) return rubrics
+
+    const seen = new Set<string>()
+    return rubrics.filter((rubric) => {
+      if (seen.has(rubric.name)) return false
+      seen.add(rubric.name)
+      return true
+    })
+  }
+
+  /**
+   * Delete a rubric version
+   * Evaluations keep their rubricId, so deleting only prevents new evaluations from using it
+   */
+  async deleteRubric(rubricId: string): Promise<void> {
+    const result = await this.db.rubric.deleteMany({ where: { id: rubricId } })
+    if (result.count === 0) throw new RubricNotFoundError(rubricId)
+  }
+
+  private toRubric(row: any): Rubric {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      description: row.description || undefined,
+      criteria: JSON.parse(row.criteria),
+      isPreset: row.isPreset,
+      createdBy: row.createdBy || undefined,
+      createdAt: row.createdAt.getTime(),
+      updatedAt: row.updatedAt.getTime(),
+    }
+  }
+}
+
+/**
+ * Validate a rubric definition and return its normalized criteria
+ * (required defaults to true, anchors sorted by score)
+ */
+export function validateRubric(input: Partial<RubricInput>): RubricCriterion[] {
+  if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+    throw new RubricValidationError('name is required')
+  }
+  if (!Array.isArray(input.criteria) || input.criteria.length === 0) {
+    throw new RubricValidationError('criteria must be a non-empty array')
+  }
+
+  const names = new Set<string>()
+  const criteria = input.criteria.map((criterion, index) => {
+    if (!criterion || typeof criterion.name !== 'string' || !criterion.name.trim()) {
+      throw new RubricValidationError(`criteria[${index}].name is required`)
+    }
+    if (names.has(criterion.name)) {
+      throw new RubricValidationError(`Duplicate criterion "${criterion.name}"`)
+    }
+    names.add(criterion.name)
+
+    const weight = criterion.weight ?? 1
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+      throw new RubricValidationError(`Criterion "${criterion.name}" weight must be a positive number`)
+    }
+
+    const anchors = criterion.anchors ?? []
+    if (!Array.isArray(anchors)) {
+      throw new RubricValidationError(`Criterion "${criterion.name}" anchors must be an array`)
+    }
+    anchors.forEach((anchor) => {
+      if (typeof anchor?.score !== 'number' || anchor.score < 0 || anchor.score > 10) {
+        throw new RubricValidationError(`Criterion "${criterion.name}" anchor scores must be between 0 and 10`)
+      }
+      if (typeof anchor.description !== 'string' || !anchor.description.trim()) {
+        throw new RubricValidationError(`Criterion "${criterion.name}" anchors need a description`)
+      }
+    })
+
+    return {
+      name: criterion.name,
+      ...(criterion.description && { description: criterion.description }),
+      weight,
+      required: criterion.required ?? true,
+      ...(anchors.length > 0 && {
+        anchors: [...anchors].sort((a, b) => a.score - b.score),
+      }),
+    }
+  })
+
+  if (!criteria.some((criterion) => criterion.required)) {
+    throw new RubricValidationError('At least one criterion must be required')
+  }
+
+  return criteria
+}
+
+/**
+ * Normalized weight of each criterion (weights sum to 1)
+ */
+export function normalizedRubricWeights(rubric: Rubric): Record<string, number> {
+  const total = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0)
+  return Object.fromEntries(
+    rubric.criteria.map((criterion) => [criterion.name, criterion.weight / total])
+  )
+}
+
+/**
+ * Weighted overall score from per-criterion scores
+ * Weights are renormalized over the criteria actually scored, so a skipped
+ * optional criterion neither counts as 0 nor inflates the others' share unevenly
+ * Returns undefined when none of the rubric's criteria were scored
+ */
+export function weightedRubricScore(
+  rubric: Rubric,
+  aspects: Record<string, number>
+): number | undefined {
+  const scored = rubric.criteria.filter((criterion) => aspects[criterion.name] !== undefined)
+  if (scored.length === 0) return undefined
+
+  const totalWeight = scored.reduce((sum, criterion) => sum + criterion.weight, 0)
+  return scored.reduce(
+    (sum, criterion) => sum + aspects[criterion.name] * criterion.weight,
+    0
+  ) / totalWeight
+}
+
+/**
+ * Required criteria an agent left unscored
+ */
+export function missingRequiredCriteria(
+  rubric: Rubric,
+  aspects: Record<string, number>
+): string[] {
+  return rubric.criteria
+    .filter((criterion) => criterion.required && aspects[criterion.name] === undefined)
+    .map((criterion) => criterion.name)
+}
+
+/**
+ * Render a rubric as judge prompt text
+ * Anchors are defined on 0-10 and shown on the evaluation's scale
+ */
+export function describeRubric(rubric: Rubric, scale: ScoreScale = DEFAULT_SCORE_SCALE): string {
+  const weights = normalizedRubricWeights(rubric)
+  const lines = rubric.criteria.map((criterion) => {
+    const header = `- ${criterion.name} (weight ${Math.round(weights[criterion.name] * 100)}%${criterion.required ? '' : ', optional'})` +
+      (criterion.description ? `: ${criterion.description}` : '')
+    const anchors = (criterion.anchors || []).map(
+      (anchor) => `    ${formatScore(scale, anchor.score, 1)} = ${anchor.description}`
+    )
+    return [header, ...anchors].join('\n')
+  })
+
+  return [
+    `Rubric: ${rubric.name} (v${rubric.version})${rubric.description ? ` - ${rubric.description}` : ''}`,
+    ...lines,
+  ].join('\n')
+}
+
+// Singleton instance
+let rubricService: RubricService | null = null
+
+export function getRubricService(): RubricService {
+  if (!rubricService) {
+    rubricService = new RubricService()
+  }
+  return rubricService
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { ScoreScale } from '../../types/agent'
+import {
+  DEFAULT_SCORE_SCALE,
+  SCORE_SCALE_PRESETS,
+  describeScoreRange,
+  formatScore,
+  resolveScoreScale,
+  toInternalScore,
+  toNativeDifference,
+  toNativeScore,
+  validateScoreScale
+} from './score-scale'
+
+const likert = SCORE_SCALE_PRESETS.likert_5
+const letters = SCORE_SCALE_PRESETS.letter
+
+describe('validateScoreScale', () => {
+  it('accepts presets and well-formed scales', () => {
+    expect(validateScoreScale('percent')).toBeUndefined()
+    expect(validateScoreScale({ type: 'numeric', min: 1, max: 7, step: 0.5 })).toBeUndefined()
+    expect(validateScoreScale({ type: 'letter', grades: ['Poor', 'Good'] })).toBeUndefined()
+  })
+
+  it('rejects unknown presets, inverted ranges, uneven steps and duplicate grades', () => {
+    expect(validateScoreScale('stars')).toMatch(/must be one of/)
+    expect(validateScoreScale({ type: 'numeric', min: 5, max: 1 })).toMatch(/min below max/)
+    expect(validateScoreScale({ type: 'numeric', min: 0, max: 10, step: 3 })).toMatch(/step must divide/)
+    expect(validateScoreScale({ type: 'letter', grades: ['A', 'a'] })).toMatch(/unique/)
+    expect(validateScoreScale({ type: 'stars' })).toMatch(/numeric or letter/)
+  })
+})
+
+describe('resolveScoreScale', () => {
+  it('defaults to 0-10 and resolves presets', () => {
+    expect(resolveScoreScale()).toBe(DEFAULT_SCORE_SCALE)
+    expect(resolveScoreScale('likert_5')).toEqual({ type: 'numeric', min: 1, max: 5, step: 1 })
+  })
+})
+
+describe('toInternalScore', () => {
+  it('maps numeric scales linearly onto 0-10', () => {
+    expect(toInternalScore(likert, 1)).toBe(0)
+    expect(toInternalScore(likert, 3)).toBe(5)
+    expect(toInternalScore(SCORE_SCALE_PRESETS.percent, 85)).toBeCloseTo(8.5)
+  })
+
+  it('snaps to the step', () => {
+    expect(toInternalScore(likert, 3.4)).toBe(5)
+  })
+
+  it('rejects out-of-range numbers and numeric strings unless clamping', () => {
+    expect(toInternalScore(likert, 7)).toBeUndefined()
+    expect(toInternalScore(likert, '4')).toBeUndefined()
+    expect(toInternalScore(likert, 7, true)).toBe(10)
+    expect(toInternalScore(likert, '4', true)).toBe(7.5)
+  })
+
+  it('matches grades case-insensitively', () => {
+    expect(toInternalScore(letters, 'f')).toBe(0)
+    expect(toInternalScore(letters, ' A ')).toBe(10)
+    expect(toInternalScore(letters, 'E')).toBeUndefined()
+    expect(toInternalScore(letters, 3)).toBeUndefined()
+  })
+})
+
+describe('toNativeScore', () => {
+  it('round-trips numeric scores', () => {
+    const scale: ScoreScale = { type: 'numeric', min: 0, max: 100 }
+    expect(toNativeScore(scale, toInternalScore(scale, 42)!)).toBeCloseTo(42)
+  })
+
+  it('gives the nearest grade and clamps out-of-range scores', () => {
+    expect(toNativeScore(letters, 6.4)).toBe('B')
+    expect(toNativeScore(letters, 12)).toBe('A')
+    expect(toNativeScore(likert, -1)).toBe(1)
+  })
+})
+
+describe('formatting', () => {
+  it('shows scores on the scale', () => {
+    expect(formatScore(DEFAULT_SCORE_SCALE, 7.2)).toBe('7.20/10')
+    expect(formatScore(likert, 6)).toBe('3.40 on 1-5')
+    expect(formatScore(letters, 7.5)).toBe('B')
+  })
+
+  it('describes ranges on the scale', () => {
+    expect(describeScoreRange(DEFAULT_SCORE_SCALE, 7, 10)).toBe('7-10')
+    expect(describeScoreRange(likert, 7, 10)).toBe('4-5')
+    expect(describeScoreRange(letters, 9, 10)).toBe('A')
+  })
+
+  it('converts differences to units of the scale', () => {
+    expect(toNativeDifference(SCORE_SCALE_PRESETS.percent, 1.5)).toBe(15)
+    expect(toNativeDifference(letters, 2.5)).toBe(1)
+  })
+})
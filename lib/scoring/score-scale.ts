@@ -0,0 +1,169 @@
+/**
+ * Score Scales
+ * Judges score on the scale an evaluation declares (1-5 Likert, 0-100, letter grades, ...).
+ * Everything downstream - consensus, outliers, calibration - runs on the internal 0-10 scale;
+ * these helpers convert between the two
+ */
+
+import type { NativeScore, ScoreScale, ScoreScalePreset } from '../../types/agent'
+
+const INTERNAL_MAX = 10
+const MAX_GRADES = 20
+const MAX_SCALE_STEPS = 1000
+
+export const DEFAULT_SCORE_SCALE: ScoreScale = { type: 'numeric', min: 0, max: INTERNAL_MAX }
+
+export const SCORE_SCALE_PRESETS: Record<ScoreScalePreset, ScoreScale> = {
+  default: DEFAULT_SCORE_SCALE,
+  likert_5: { type: 'numeric', min: 1, max: 5, step: 1 },
+  percent: { type: 'numeric', min: 0, max: 100 },
+  letter: { type: 'letter', grades: ['F', 'D', 'C', 'B', 'A'] },
+}
+
+/**
+ * Check a scale or preset name
+ * Returns the error message, or undefined when valid
+ */
+export function validateScoreScale(scale: unknown): string | undefined {
+  if (typeof scale === 'string') {
+    return scale in SCORE_SCALE_PRESETS
+      ? undefined
+      : `scoreScale must be one of ${Object.keys(SCORE_SCALE_PRESETS).join(', ')} or a scale object`
+  }
+  if (typeof scale !== 'object' || scale === null || Array.isArray(scale)) {
+    return 'scoreScale must be a preset name or a scale object'
+  }
+
+  const candidate = scale as Record<string, unknown>
+  if (candidate.type === 'numeric') {
+    const { min, max, step } = candidate
+    if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+      return 'numeric scoreScale needs finite min and max with min below max'
+    }
+    if (step !== undefined) {
+      if (typeof step !== 'number' || !Number.isFinite(step) || step <= 0) {
+        return 'scoreScale.step must be a positive number'
+      }
+      const steps = (max - min) / step
+      if (Math.abs(steps - Math.round(steps)) > 1e-9 || steps > MAX_SCALE_STEPS) {
+        return `scoreScale.step must divide max - min into at most ${MAX_SCALE_STEPS} steps`
+      }
+    }
+    return undefined
+  }
+
+  if (candidate.type === 'letter') {
+    const grades = candidate.grades
+    if (!Array.isArray(grades) || grades.length < 2 || grades.length > MAX_GRADES) {
+      return `letter scoreScale needs 2-${MAX_GRADES} grades`
+    }
+    if (grades.some((grade) => typeof grade !== 'string' || grade.trim().length === 0)) {
+      return 'scoreScale.grades must be non-empty strings'
+    }
+    if (new Set(grades.map((grade: string) => grade.trim().toLowerCase())).size !== grades.length) {
+      return 'scoreScale.grades must be unique'
+    }
+    return undefined
+  }
+
+  return 'scoreScale.type must be numeric or letter'
+}
+
+/**
+ * The scale a config declares - presets resolved, 0-10 when none is declared
+ */
+export function resolveScoreScale(scale?: ScoreScale | ScoreScalePreset): ScoreScale {
+  if (!scale) return DEFAULT_SCORE_SCALE
+  return typeof scale === 'string' ? SCORE_SCALE_PRESETS[scale] : scale
+}
+
+/**
+ * Convert a score given on the scale to the internal 0-10 scale
+ * Numbers are rounded to the scale's step. With clamp - for model output - numeric strings are read
+ * and out-of-range numbers are pulled into range instead of rejected.
+ * Returns undefined for anything that is not a score on the scale
+ */
+export function toInternalScore(scale: ScoreScale, value: unknown, clamp: boolean = false): number | undefined {
+  if (scale.type === 'letter') {
+    if (typeof value !== 'string') return undefined
+    const normalized = value.trim().toLowerCase()
+    const index = scale.grades.findIndex((grade) => grade.toLowerCase() === normalized)
+    return index === -1 ? undefined : index / (scale.grades.length - 1) * INTERNAL_MAX
+  }
+
+  const parsed = clamp && typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return undefined
+  let score = parsed
+  if (score < scale.min || score > scale.max) {
+    if (!clamp) return undefined
+    score = Math.max(scale.min, Math.min(scale.max, score))
+  }
+  if (scale.step) {
+    score = scale.min + Math.round((score - scale.min) / scale.step) * scale.step
+  }
+  return (score - scale.min) / (scale.max - scale.min) * INTERNAL_MAX
+}
+
+/**
+ * Convert an internal 0-10 score to the scale - letter scales give the nearest grade
+ * Numbers are not rounded to the step, so consensus keeps its precision
+ */
+export function toNativeScore(scale: ScoreScale, score: number): NativeScore {
+  const fraction = Math.max(0, Math.min(1, score / INTERNAL_MAX))
+  if (scale.type === 'letter') {
+    return scale.grades[Math.round(fraction * (scale.grades.length - 1))]
+  }
+  return scale.min + fraction * (scale.max - scale.min)
+}
+
+/**
+ * Internal score shown on the scale for prompts and logs, e.g. "7.20/10", "3.40 on 1-5" or "B"
+ */
+export function formatScore(scale: ScoreScale, score: number, digits: number = 2): string {
+  const value = formatScoreValue(scale, score, digits)
+  if (scale.type !== 'numeric') return value
+  return scale.min === 0 ? `${value}/${scale.max}` : `${value} on ${scale.min}-${scale.max}`
+}
+
+/**
+ * Internal score on the scale without the range, e.g. "7.2" or "B"
+ */
+export function formatScoreValue(scale: ScoreScale, score: number, digits: number = 1): string {
+  const native = toNativeScore(scale, score)
+  return typeof native === 'string' ? native : native.toFixed(digits)
+}
+
+/**
+ * Difference of two internal scores in units of the scale (grades on letter scales)
+ */
+export function toNativeDifference(scale: ScoreScale, difference: number): number {
+  const span = scale.type === 'letter' ? scale.grades.length - 1 : scale.max - scale.min
+  return difference / INTERNAL_MAX * span
+}
+
+/**
+ * What a judge must answer with, for prompts
+ */
+export function describeScale(scale: ScoreScale): string {
+  if (scale.type === 'letter') {
+    return `one of the grades ${scale.grades.map((grade) => `"${grade}"`).join(', ')} (worst to best)`
+  }
+  return `a number from ${scale.min} to ${scale.max}${scale.step ? ` in steps of ${scale.step}` : ''}`
+}
+
+/**
+ * Range of internal scores on the scale, e.g. "7-10" on 0-10, "4-5" on Likert, "B-A" on letters
+ */
+export function describeScoreRange(scale: ScoreScale, low: number, high: number): string {
+  const bound = (score: number) => {
+    const native = toNativeScore(scale, score)
+    if (typeof native === 'string' || scale.type !== 'numeric') return String(native)
+    const rounded = scale.step
+      ? scale.min + Math.round((native - scale.min) / scale.step) * scale.step
+      : Math.round(native * 100) / 100
+    return String(rounded)
+  }
+  const from = bound(low)
+  const to = bound(high)
+  return from === to ? from : `${from}-${to}`
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('../database.js', () => ({ getDatabase: () => ({}) }))
+vi.mock('../evaluations/evaluation-store-service', () => ({ getEvaluationStore: () => ({}), IN_PROGRESS_STATUSES: [] }))
+
+const { signCallback, validateCallback } = await import('./callback-service')
+
+const SECRET = '0123456789abcdef'
+
+describe('signCallback', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    expect(signCallback(SECRET, 1700000000, '{"ok":true}'))
+      .toBe('sha256=ed9ca58e4ef0cc7f1adfb065c2922b70d963a47298466f8ea44a290876b0704b')
+  })
+
+  it('changes with the timestamp', () => {
+    expect(signCallback(SECRET, 1700000001, '{"ok":true}')).not.toBe(signCallback(SECRET, 1700000000, '{"ok":true}'))
+  })
+})
+
+describe('validateCallback', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('accepts a public address', async () => {
+    expect(await validateCallback('https://93.184.216.34/hook', SECRET)).toBeNull()
+  })
+
+  it('rejects loopback, private and link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1/hook',
+      'http://localhost:8080/hook',
+      'http://10.1.2.3/hook',
+      'http://192.168.0.10/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://[fd00::1]/hook',
+    ]) {
+      expect(await validateCallback(url, SECRET), url).toMatch(/loopback, private or link-local/)
+    }
+  })
+
+  it('trusts hosts listed in CALLBACK_ALLOWED_HOSTS', async () => {
+    vi.stubEnv('CALLBACK_ALLOWED_HOSTS', 'receiver.internal, localhost')
+    expect(await validateCallback('http://localhost:8080/hook', SECRET)).toBeNull()
+  })
+
+  it('requires an http(s) URL and a long enough secret', async () => {
+    expect(await validateCallback('ftp://93.184.216.34/hook', SECRET)).toMatch(/http or https/)
+    expect(await validateCallback('not a url', SECRET)).toMatch(/valid URL/)
+    expect(await validateCallback('https://93.184.216.34/hook', 'short')).toMatch(/at least 16 characters/)
+  })
+})
@@ -0,0 +1,382 @@
+/**
+ * Callback Service
+ * POSTs an evaluation's final result (or failure) to the caller's callbackUrl,
+ * signed with HMAC-SHA256 and retried with exponential backoff
+ */
+
+import { createHmac, randomUUID } from 'crypto'
+import type { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { BlockList } from 'net'
+import { PrismaClient } from '@prisma/client'
+import type { CallbackAttempt as CallbackAttemptRow, CallbackDelivery as CallbackDeliveryRow } from '@prisma/client'
+import { getDatabase } from '../database.js'
+import { getEvaluationStore, IN_PROGRESS_STATUSES } from '../evaluations/evaluation-store-service'
+import type {
+  CallbackDelivery,
+  CallbackDeliveryStatus,
+  CallbackEventType,
+  CallbackPayload,
+  OrchestratorOutput
+} from '../../types/agent'
+
+// Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare it with the signature header
+export const CALLBACK_SIGNATURE_HEADER = 'X-Callback-Signature'
+export const CALLBACK_TIMESTAMP_HEADER = 'X-Callback-Timestamp'
+
+const MAX_DELIVERY_ATTEMPTS = 5
+const INITIAL_RETRY_DELAY = 2000 // Doubles after every failed attempt
+const DELIVERY_TIMEOUT = 10000
+const MIN_SECRET_LENGTH = 16
+
+// Callbacks must not reach the server's own network - loopback, private, link-local
+// (cloud metadata at 169.254.169.254), shared, multicast and reserved ranges
+const BLOCKED_IPV4_NETWORKS = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16',
+  '172.16.0.0/12', '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/3',
+]
+// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges by BlockList
+const BLOCKED_IPV6_NETWORKS = ['::/127', '64:ff9b::/96', 'fc00::/7', 'fe80::/10', 'ff00::/8']
+
+const BLOCKED_NETWORKS = new BlockList()
+BLOCKED_IPV4_NETWORKS.forEach((cidr) => {
+  const [network, prefix] = cidr.split('/')
+  BLOCKED_NETWORKS.addSubnet(network, Number(prefix), 'ipv4')
+})
+BLOCKED_IPV6_NETWORKS.forEach((cidr) => {
+  const [network, prefix] = cidr.split('/')
+  BLOCKED_NETWORKS.addSubnet(network, Number(prefix), 'ipv6')
+})
+
+/**
+ * Thrown when a callback cannot be redelivered in its current state
+ */
+export class CallbackStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CallbackStateError'
+  }
+}
+
+/**
+ * Validate a callback URL and secret
+ * Returns an error message, or null when valid
+ */
+export async function validateCallback(url: unknown, secret: unknown): Promise<string | null> {
+  if (typeof url !== 'string') {
+    return 'callbackUrl must be a string'
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'callbackUrl must be a valid URL'
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'callbackUrl must use http or https'
+  }
+
+  if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH) {
+    return `callbackSecret of at least ${MIN_SECRET_LENGTH} characters is required with callbackUrl`
+  }
+
+  return checkCallbackHost(parsed)
+}
+
+/**
+ * Check that every address a callback host resolves to is public
+ * Hosts listed in CALLBACK_ALLOWED_HOSTS (comma-separated) are trusted as they are.
+ * Returns an error message, or null when the host may receive callbacks
+ */
+export async function checkCallbackHost(url: URL): Promise<string | null> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  const allowed = (process.env.CALLBACK_ALLOWED_HOSTS || '').split(',').map((host) => host.trim().toLowerCase())
+  if (allowed.includes(hostname)) return null
+
+  let addresses: LookupAddress[]
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true })
+  } catch {
+    return `callbackUrl host ${hostname} could not be resolved`
+  }
+
+  const blocked = addresses.find(({ address, family }) => BLOCKED_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4'))
+  return blocked
+    ? `callbackUrl must not point to a loopback, private or link-local address (${hostname} is ${blocked.address})`
+    : null
+}
+
+/**
+ * Signature header value for a callback body
+ */
+export function signCallback(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+export class CallbackService {
+  private db: PrismaClient
+  private delivering = new Set<string>() // Deliveries with a retry loop in this process
+
+  constructor() {
+    this.db = getDatabase()
+  }
+
+  /**
+   * Register a callback for an evaluation - it fires when the evaluation ends
+   */
+  async registerCallback(evaluationId: string, url: string, secret: string): Promise<string> {
+    const id = `cb_${randomUUID()}`
+    await this.db.callbackDelivery.create({
+      data: { id, evaluationId, url, secret },
+    })
+    return id
+  }
+
+  /**
+   * Send the final result to the evaluation's callbacks
+   */
+  async notifyCompleted(evaluationId: string, output: OrchestratorOutput): Promise<void> {
+    await this.dispatch(evaluationId, 'evaluation.completed', {
+      event: 'evaluation.completed',
+      evaluationId,
+      status: 'completed',
+      result: output,
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Send a failure payload (failed, cancelled or interrupted) to the evaluation's callbacks
+   * Status and payments are read back from the evaluation record
+   */
+  async notifyFailed(evaluationId: string, error: string): Promise<void> {
+    const evaluation = await getEvaluationStore().getEvaluation(evaluationId)
+    const status = evaluation?.progress.status
+    await this.dispatch(evaluationId, 'evaluation.failed', {
+      event: 'evaluation.failed',
+      evaluationId,
+      status: status === 'cancelled' || status === 'interrupted' ? status : 'failed',
+      error: evaluation?.error || error,
+      payments: evaluation?.payments || [],
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * List the callbacks of an evaluation with their delivery attempts
+   */
+  async listDeliveries(evaluationId: string): Promise<CallbackDelivery[]> {
+    const rows = await this.db.callbackDelivery.findMany({
+      where: { evaluationId },
+      include: { attempts: { orderBy: { id: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    })
+    return rows.map((row) => this.toCallbackDelivery(row))
+  }
+
+  /**
+   * Send a finished callback again, with a fresh round of retries
+   * Returns null when the callback does not exist
+   */
+  async redeliver(evaluationId: string, deliveryId: string): Promise<CallbackDelivery | null> {
+    const row = await this.db.callbackDelivery.findFirst({
+      where: { id: deliveryId, evaluationId },
+    })
+    if (!row) return null
+
+    if (row.status === 'waiting') {
+      throw new CallbackStateError('The evaluation has not finished yet')
+    }
+    if (row.status === 'pending' || this.delivering.has(deliveryId)) {
+      throw new CallbackStateError('The callback is already being delivered')
+    }
+
+    await this.db.callbackDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'pending', lastError: null },
+    })
+    void this.deliver(deliveryId)
+
+    const deliveries = await this.listDeliveries(evaluationId)
+    return deliveries.find((delivery) => delivery.id === deliveryId) || null
+  }
+
+  /**
+   * Resume callbacks cut off by a shutdown
+   * Called once at startup, after interrupted evaluations are marked: their callbacks
+   * get a failure payload, and deliveries that were mid-retry start over
+   */
+  async recoverDeliveries(): Promise<number> {
+    const waiting = await this.db.callbackDelivery.findMany({
+      where: { status: 'waiting', evaluation: { status: { notIn: IN_PROGRESS_STATUSES } } },
+      select: { evaluationId: true },
+      distinct: ['evaluationId'],
+    })
+    for (const { evaluationId } of waiting) {
+      await this.notifyFailed(evaluationId, 'Server stopped before the evaluation finished')
+    }
+
+    const pending = await this.db.callbackDelivery.findMany({
+      where: { status: 'pending' },
+      select: { id: true },
+    })
+    pending.forEach(({ id }) => void this.deliver(id))
+
+    return waiting.length + pending.length
+  }
+
+  /**
+   * Attach the payload to the evaluation's waiting callbacks and start delivering them
+   */
+  private async dispatch(evaluationId: string, event: CallbackEventType, payload: CallbackPayload): Promise<void> {
+    const waiting = await this.db.callbackDelivery.findMany({
+      where: { evaluationId, status: 'waiting' },
+      select: { id: true },
+    })
+    if (waiting.length === 0) return
+
+    await this.db.callbackDelivery.updateMany({
+      where: { id: { in: waiting.map(({ id }) => id) } },
+      data: { status: 'pending', event, payload: JSON.stringify(payload) },
+    })
+    waiting.forEach(({ id }) => void this.deliver(id))
+  }
+
+  /**
+   * POST the payload until the receiver answers 2xx or the attempts run out
+   * Client errors other than 408 and 429, redirects and refused hosts are not retried
+   */
+  private async deliver(deliveryId: string): Promise<void> {
+    if (this.delivering.has(deliveryId)) return
+    this.delivering.add(deliveryId)
+
+    try {
+      const row = await this.db.callbackDelivery.findUnique({ where: { id: deliveryId } })
+      if (!row?.payload) return
+
+      let lastError = 'No attempt made'
+      for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000)
+        const startedAt = Date.now()
+        let statusCode: number | undefined
+        // Resolved again for every attempt - the host's DNS may have changed since it was validated
+        const refused = await checkCallbackHost(new URL(row.url))
+
+        if (refused) {
+          lastError = refused
+        } else {
+          try {
+            const response = await fetch(row.url, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'X-Callback-Id': row.id,
+                'X-Callback-Event': row.event || '',
+                [CALLBACK_TIMESTAMP_HEADER]: String(timestamp),
+                [CALLBACK_SIGNATURE_HEADER]: signCallback(row.secret, timestamp, row.payload),
+              },
+              body: row.payload,
+              redirect: 'manual', // A redirect could lead to an address the host check would refuse
+              signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+            })
+            statusCode = response.status
+            lastError = response.ok ? '' : `Receiver answered ${response.status}`
+          } catch (error) {
+            lastError = error instanceof Error ? error.message : 'Unknown error'
+          }
+        }
+
+        await this.recordAttempt(deliveryId, statusCode, lastError, Date.now() - startedAt)
+
+        if (statusCode !== undefined && statusCode >= 200 && statusCode < 300) {
+          await this.setStatus(deliveryId, 'delivered')
+          console.log(`📬 Callback ${deliveryId} delivered to ${row.url}`)
+          return
+        }
+
+        const retryable = !refused &&
+          (statusCode === undefined || statusCode >= 500 || statusCode === 408 || statusCode === 429)
+        if (!retryable || attempt === MAX_DELIVERY_ATTEMPTS) break
+
+        await new Promise((resolve) => setTimeout(resolve, INITIAL_RETRY_DELAY * Math.pow(2, attempt - 1)))
+      }
+
+      await this.setStatus(deliveryId, 'failed', lastError)
+      console.error(`❌ Callback ${deliveryId} to ${row.url} failed: ${lastError}`)
+    } catch (error) {
+      console.error(`❌ Failed to deliver callback ${deliveryId}:`, error)
+    } finally {
+      this.delivering.delete(deliveryId)
+    }
+  }
+
+  private async recordAttempt(
+    deliveryId: string,
+    statusCode: number | undefined,
+    error: string,
+    durationMs: number
+  ): Promise<void> {
+    await this.db.$transaction(async (tx) => {
+      const delivery = await tx.callbackDelivery.update({
+        where: { id: deliveryId },
+        data: { attemptCount: { increment: 1 }, ...(error && { lastError: error }) },
+      })
+      await tx.callbackAttempt.create({
+        data: {
+          deliveryId,
+          attempt: delivery.attemptCount,
+          statusCode: statusCode ?? null,
+          error: error || null,
+          durationMs,
+        },
+      })
+    })
+  }
+
+  private async setStatus(deliveryId: string, status: CallbackDeliveryStatus, error?: string): Promise<void> {
+    await this.db.callbackDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status,
+        ...(status === 'delivered' && { deliveredAt: new Date(), lastError: null }),
+        ...(error && { lastError: error }),
+      },
+    })
+  }
+
+  /**
+   * Map a database record to the API shape
+   */
+  private toCallbackDelivery(row: CallbackDeliveryRow & { attempts?: CallbackAttemptRow[] }): CallbackDelivery {
+    return {
+      id: row.id,
+      evaluationId: row.evaluationId,
+      url: row.url,
+      status: row.status as CallbackDeliveryStatus,
+      event: (row.event as CallbackEventType) || undefined,
+      attemptCount: row.attemptCount,
+      lastError: row.lastError || undefined,
+      attempts: (row.attempts || []).map((attempt) => ({
+        attempt: attempt.attempt,
+        statusCode: attempt.statusCode ?? undefined,
+        error: attempt.error || undefined,
+        durationMs: attempt.durationMs,
+        attemptedAt: attempt.attemptedAt.getTime(),
+      })),
+      createdAt: row.createdAt.getTime(),
+      deliveredAt: row.deliveredAt?.getTime(),
+    }
+  }
+}
+
+// Singleton instance
+let callbackService: CallbackService | null = null
+
+export function getCallbackService(): CallbackService {
+  if (!callbackService) {
+    callbackService = new CallbackService()
+  }
+  return callbackService
+}
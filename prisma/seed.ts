@@ -354,6 +354,63 @@ async function main() {
 
   console.log('✅ Created sample audit log')
 
+  // Preset rubrics (upserted so evaluations that reference them keep working)
+  const rubrics = [
+    {
+      id: 'preset-general-quality-v1',
+      name: 'General Quality',
+      description: 'Balanced rubric for general written content',
+      criteria: [
+        { name: 'Accuracy', description: 'Claims are factually correct', weight: 3, required: true, anchors: [
+          { score: 2, description: 'Several factual errors' },
+          { score: 5, description: 'Mostly correct with minor errors' },
+          { score: 8, description: 'Accurate, claims are supported' },
+        ] },
+        { name: 'Clarity', description: 'Easy to follow and well structured', weight: 2, required: true, anchors: [
+          { score: 3, description: 'Hard to follow' },
+          { score: 7, description: 'Clear with occasional rough spots' },
+        ] },
+        { name: 'Completeness', description: 'Covers what the reader needs', weight: 2, required: true },
+        { name: 'Relevance', description: 'Stays on topic', weight: 1, required: false },
+      ],
+    },
+    {
+      id: 'preset-code-review-v1',
+      name: 'Code Review',
+      description: 'Rubric for source code submissions',
+      criteria: [
+        { name: 'Correctness', description: 'Does what it claims, handles edge cases', weight: 4, required: true, anchors: [
+          { score: 2, description: 'Broken on common inputs' },
+          { score: 5, description: 'Works on the happy path only' },
+          { score: 8, description: 'Correct including edge cases' },
+        ] },
+        { name: 'Readability', description: 'Naming, structure and comments', weight: 2, required: true },
+        { name: 'Security', description: 'No injection, secret leaks or unsafe defaults', weight: 3, required: true, anchors: [
+          { score: 3, description: 'Exploitable issue present' },
+          { score: 7, description: 'No obvious issues, some hardening missing' },
+        ] },
+        { name: 'Performance', description: 'Reasonable complexity and resource use', weight: 1, required: false },
+      ],
+    },
+  ]
+
+  for (const rubric of rubrics) {
+    const data = {
+      name: rubric.name,
+      version: 1,
+      description: rubric.description,
+      criteria: JSON.stringify(rubric.criteria),
+      isPreset: true,
+    }
+    await prisma.rubric.upsert({
+      where: { id: rubric.id },
+      update: data,
+      create: { id: rubric.id, ...data },
+    })
+  }
+
+  console.log(`✅ Created ${rubrics.length} preset rubrics`)
+
   console.log('🎉 Database seeding completed!')
 }
 
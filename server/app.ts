@@ -1,6 +1,10 @@
 import Fastify, { FastifyInstance } from 'fastify'
 import { config } from './config'
 import { connectDatabase, disconnectDatabase } from '../lib/database.js'
+import { getEvaluationStore } from '../lib/evaluations/evaluation-store-service.js'
+import { getBatchJobService } from '../lib/batch/batch-job-service.js'
+import { getComparisonStore } from '../lib/evaluations/comparison-store-service.js'
+import { getCallbackService } from '../lib/webhooks/callback-service.js'
 
 // Plugins
 import corsPlugin from './plugins/cors'
@@ -17,6 +21,8 @@ import tasksRoutes from './routes/tasks'
 import auditRoutes from './routes/audit'
 import facilitatorRoutes from './routes/facilitator'
 import feedbackRoutes from './routes/feedback'
+import rubricsRoutes from './routes/rubrics'
+import batchesRoutes from './routes/batches'
 
 export async function buildApp(): Promise<FastifyInstance> {
   const fastify = Fastify({
@@ -44,6 +50,25 @@ export async function buildApp(): Promise<FastifyInstance> {
     throw error
   }
 
+  // Evaluations this instance or a stopped one left running were cut off by a shutdown
+  const interruptedEvaluations = await getEvaluationStore().markInterruptedEvaluations()
+  if (interruptedEvaluations.length > 0) {
+    fastify.log.warn(`Marked ${interruptedEvaluations.length} evaluation(s) as interrupted: ${interruptedEvaluations.join(', ')}`)
+  }
+  getEvaluationStore().startHeartbeat()
+  const interruptedBatches = await getBatchJobService().markInterruptedJobs()
+  if (interruptedBatches.length > 0) {
+    fastify.log.warn(`Marked ${interruptedBatches.length} batch job(s) as interrupted: ${interruptedBatches.join(', ')}`)
+  }
+  const interruptedComparisons = await getComparisonStore().markInterruptedComparisons()
+  if (interruptedComparisons.length > 0) {
+    fastify.log.warn(`Marked ${interruptedComparisons.length} comparison(s) as interrupted: ${interruptedComparisons.join(', ')}`)
+  }
+  const recoveredCallbacks = await getCallbackService().recoverDeliveries()
+  if (recoveredCallbacks > 0) {
+    fastify.log.warn(`Resuming ${recoveredCallbacks} evaluation callback(s) cut off by the previous shutdown`)
+  }
+
   // Register plugins
   await fastify.register(corsPlugin)
   await fastify.register(helmetPlugin)
@@ -69,6 +94,8 @@ export async function buildApp(): Promise<FastifyInstance> {
   await fastify.register(auditRoutes, { prefix: '/api/audit' })
   await fastify.register(facilitatorRoutes, { prefix: '/api/facilitator' })
   await fastify.register(feedbackRoutes, { prefix: '/api/feedback' })
+  await fastify.register(rubricsRoutes, { prefix: '/api/rubrics' })
+  await fastify.register(batchesRoutes, { prefix: '/api/batches' })
 
   // Graceful shutdown
   fastify.addHook('onClose', async () => {
@@ -3,6 +3,7 @@ import { getViemRegistryService } from '../../lib/erc8004/viem-registry-service'
 import { getHederaService } from '../../lib/hedera/agent-service'
 import { getAgentEndpointService, type AgentChatRequest } from '../../lib/agents/agent-endpoint-service'
 import { getDatabase } from '../../lib/database'
+import { getJudgeCalibrationService } from '../../lib/calibration/judge-calibration-service'
 import type { AgentMetadata } from '../../lib/ipfs/pinata-service'
 import { CONTRACT_ADDRESSES } from '../../lib/erc8004/contract-addresses'
 import type { PaymentPayload } from 'a2a-x402'
@@ -277,6 +278,37 @@ const agentsRoutes: FastifyPluginAsync = async (fastify) => {
       })
     }
   })
+
+  /**
+   * GET /api/agents/:agentId/calibration
+   * Learned consensus weight of a judge with its recent deviation history
+   */
+  fastify.get<{
+    Params: { agentId: string }
+    Querystring: { limit?: string }
+  }>('/:agentId/calibration', async (request, reply) => {
+    try {
+      const { agentId } = request.params
+      const limit = Math.min(Math.max(parseInt(request.query.limit || '50', 10) || 50, 1), 500)
+
+      const calibrationService = getJudgeCalibrationService()
+      const [calibrations, history] = await Promise.all([
+        calibrationService.getCalibrations([agentId]),
+        calibrationService.getHistory(agentId, limit),
+      ])
+
+      return reply.status(200).send({
+        calibration: calibrations[agentId],
+        history
+      })
+    } catch (error: any) {
+      fastify.log.error({ error }, 'Agent calibration error')
+      return reply.status(500).send({
+        error: 'Failed to get agent calibration',
+        message: error.message
+      })
+    }
+  })
 }
 
 export default agentsRoutes
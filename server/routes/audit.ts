@@ -63,7 +63,8 @@ export default async function auditRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            report: { type: 'object' },
+            // Without additionalProperties the serializer would drop every report field
+            report: { type: 'object', additionalProperties: true },
           },
         },
       },
@@ -168,6 +169,43 @@ export default async function auditRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Get inter-rater reliability across evaluations, by judge panel and rubric
+  fastify.get('/reliability', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 10000 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            reliability: { type: 'object', additionalProperties: true },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: { limit?: number } }>, reply: FastifyReply) => {
+    try {
+      const auditService = getAuditService()
+      const reliability = await auditService.getReliabilityStatistics(request.query.limit)
+
+      return {
+        success: true,
+        reliability,
+      }
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to get reliability statistics')
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get reliability statistics',
+      })
+    }
+  })
+
   // Get audit logs by time range
   fastify.get('/logs/range', {
     schema: {
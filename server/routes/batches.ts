@@ -0,0 +1,307 @@
+import { FastifyPluginAsync } from 'fastify'
+import { MultipartFile } from '@fastify/multipart'
+import {
+  getBatchJobService,
+  BatchValidationError,
+  BatchBudgetExceededError,
+  type CreateBatchJobInput,
+} from '../../lib/batch/batch-job-service.js'
+import {
+  parseBatchItems,
+  detectBatchFormat,
+  formatBatchResults,
+  BatchParseError,
+  type BatchFileFormat,
+} from '../../lib/batch/batch-format.js'
+import { validateConfig, withConfigDefaults } from '../../lib/hedera/orchestrator-config.js'
+import type { BatchItemStatus } from '../../types/agent'
+
+// Batch options sent as JSON body, or as the `options` field of a multipart upload
+type BatchJobOptions = Omit<CreateBatchJobInput, 'items'> & {
+  items?: CreateBatchJobInput['items']
+}
+
+const RESULT_CONTENT_TYPES: Record<BatchFileFormat, string> = {
+  json: 'application/json',
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+}
+
+const batchesRoutes: FastifyPluginAsync = async (fastify) => {
+  const batchJobService = getBatchJobService()
+
+  const batchIdSchema = {
+    params: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string' },
+      },
+    },
+  }
+
+  /**
+   * POST /api/batches
+   * Create a batch job from a JSON body ({ items, agentIds, config, ... }) or a
+   * multipart upload: a JSONL/CSV/JSON `file` plus an `options` JSON field
+   */
+  fastify.post('/', async (request, reply) => {
+    try {
+      let options: BatchJobOptions
+      let items: CreateBatchJobInput['items'] | undefined
+
+      if (request.isMultipart()) {
+        const file = (await request.file()) as MultipartFile | undefined
+        if (!file) {
+          return reply.code(400).send({
+            success: false,
+            error: 'No file provided',
+            message: 'Upload a JSONL, CSV or JSON file in the "file" field',
+          })
+        }
+
+        const format = detectBatchFormat(file.filename, file.mimetype)
+        if (!format) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Unsupported file type',
+            message: 'Batch uploads must be .jsonl, .csv or .json',
+          })
+        }
+
+        const text = (await file.toBuffer()).toString('utf8')
+        const optionsField = file.fields.options as { value?: string } | undefined
+        options = optionsField?.value ? JSON.parse(optionsField.value) : {}
+        items = parseBatchItems(text, format)
+      } else {
+        options = request.body as BatchJobOptions
+        items = options?.items && parseBatchItems(JSON.stringify(options.items), 'json')
+      }
+
+      if (!options?.config) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid batch',
+          message: 'config is required',
+        })
+      }
+
+      const configError = validateConfig(options.config, options.agentIds?.length ?? 0, options.agentIds)
+      if (configError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid batch',
+          message: configError,
+        })
+      }
+
+      const job = await batchJobService.createJob({
+        ...options,
+        items: items || [],
+        config: withConfigDefaults(options.config),
+      })
+
+      return reply.code(202).send({
+        success: true,
+        data: job,
+      })
+    } catch (error: any) {
+      if (error instanceof BatchValidationError || error instanceof BatchParseError || error instanceof SyntaxError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid batch',
+          message: error.message,
+        })
+      }
+      if (error instanceof BatchBudgetExceededError) {
+        return reply.code(402).send({
+          success: false,
+          error: 'Batch budget exceeded',
+          message: error.message,
+          estimatedCost: error.estimatedCost,
+          maxCost: error.maxCost,
+        })
+      }
+      fastify.log.error('Create batch error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to create batch',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * GET /api/batches
+   * List batch jobs, most recent first
+   */
+  fastify.get('/', async (request, reply) => {
+    try {
+      const { limit } = request.query as { limit?: string }
+      const parsedLimit = limit ? parseInt(limit, 10) : NaN
+      const jobs = await batchJobService.listJobs(parsedLimit > 0 ? parsedLimit : undefined)
+
+      return reply.code(200).send({
+        success: true,
+        data: jobs,
+      })
+    } catch (error: any) {
+      fastify.log.error('List batches error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch batches',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * GET /api/batches/:id
+   * Batch job with per-status item counts and spent/estimated cost
+   */
+  fastify.get('/:id', { schema: batchIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const job = await batchJobService.getJob(id)
+
+      if (!job) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Batch not found',
+          message: `Batch with ID ${id} does not exist`,
+        })
+      }
+
+      return reply.code(200).send({
+        success: true,
+        data: job,
+      })
+    } catch (error: any) {
+      fastify.log.error('Get batch error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch batch',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * GET /api/batches/:id/items
+   * Per-item status, optionally filtered with ?status=
+   */
+  fastify.get('/:id/items', { schema: batchIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { status } = request.query as { status?: BatchItemStatus }
+
+      if (!(await batchJobService.getJob(id))) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Batch not found',
+          message: `Batch with ID ${id} does not exist`,
+        })
+      }
+
+      const items = await batchJobService.getItems(id, status)
+
+      return reply.code(200).send({
+        success: true,
+        data: items,
+      })
+    } catch (error: any) {
+      fastify.log.error('Get batch items error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch batch items',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * GET /api/batches/:id/results
+   * Download results as ?format=jsonl (default), csv or json
+   */
+  fastify.get('/:id/results', { schema: batchIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { format = 'jsonl' } = request.query as { format?: string }
+
+      if (!(format in RESULT_CONTENT_TYPES)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid format',
+          message: 'format must be one of jsonl, csv, json',
+        })
+      }
+
+      if (!(await batchJobService.getJob(id))) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Batch not found',
+          message: `Batch with ID ${id} does not exist`,
+        })
+      }
+
+      const resultFormat = format as BatchFileFormat
+      const items = await batchJobService.getItems(id)
+
+      return reply
+        .code(200)
+        .header('Content-Type', RESULT_CONTENT_TYPES[resultFormat])
+        .header('Content-Disposition', `attachment; filename="${id}-results.${resultFormat}"`)
+        .send(formatBatchResults(items, resultFormat))
+    } catch (error: any) {
+      fastify.log.error('Get batch results error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch batch results',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * POST /api/batches/:id/cancel
+   * Cancel pending items and abort running evaluations
+   */
+  fastify.post('/:id/cancel', { schema: batchIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+
+      const job = await batchJobService.getJob(id)
+      if (!job) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Batch not found',
+          message: `Batch with ID ${id} does not exist`,
+        })
+      }
+
+      if (!(await batchJobService.cancelJob(id))) {
+        return reply.code(409).send({
+          success: false,
+          error: 'Batch not running',
+          message: job.status === 'running'
+            ? 'Batch is running on another server instance'
+            : `Batch already ${job.status}`,
+        })
+      }
+
+      return reply.code(200).send({
+        success: true,
+        message: `Batch ${id} cancelled`,
+      })
+    } catch (error: any) {
+      fastify.log.error('Cancel batch error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to cancel batch',
+        message: error.message,
+      })
+    }
+  })
+}
+
+export default batchesRoutes
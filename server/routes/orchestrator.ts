@@ -4,27 +4,78 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
-import { getOrchestrator } from '../../lib/hedera/multi-agent-orchestrator'
+import { getOrchestrator, EvaluationCancelledError } from '../../lib/hedera/multi-agent-orchestrator'
 import { getAAWalletService } from '../../lib/hedera/aa-wallet-service'
-import { getOrchestratorService } from '../../lib/hedera/orchestrator-service'
+import { getOrchestratorService, OrchestratorWalletKeyError, type CreateOrchestratorRequest } from '../../lib/hedera/orchestrator-service'
+import type { AgentPaymentSigner } from '../../lib/agents/http-client-service'
+import { loadPanel, toPanelAgent } from '../../lib/agents/agent-panel'
+import { estimateEvaluationCost } from '../../lib/agents/cost-estimate'
 import { getDatabase } from '../../lib/database'
+import { getEvaluationStore, EvaluationExistsError, IN_PROGRESS_STATUSES } from '../../lib/evaluations/evaluation-store-service'
+import { getEvaluationEventBus, TERMINAL_EVENT_TYPES } from '../../lib/evaluations/evaluation-event-bus'
+import { getRubricService } from '../../lib/rubrics/rubric-service'
+import { validateConfig, validateComparisonConfig, withConfigDefaults } from '../../lib/hedera/orchestrator-config'
+import { getPairwiseOrchestrator } from '../../lib/hedera/pairwise-orchestrator'
+import { getConsensusRegistry } from '../../lib/hedera/consensus-registry'
+import { getComparisonStore } from '../../lib/evaluations/comparison-store-service'
+import { getCallbackService, validateCallback, CallbackStateError } from '../../lib/webhooks/callback-service'
+import { getJudgeCalibrationService, CalibrationFeedbackError } from '../../lib/calibration/judge-calibration-service'
 import type {
+  ComparisonCandidate,
+  ComparisonConfig,
+  ComparisonRequest,
+  ConsensusRecomputation,
+  ConsensusRecomputeOptions,
+  CalibrationSample,
+  EvaluationFeedback,
   JudgmentRequest,
   OrchestratorConfig,
   OrchestratorOutput,
-  EvaluationProgress
+  EvaluationProgress,
+  EvaluationEvent
 } from '../../types/agent'
 
-// In-memory storage for active evaluations (in production, use Redis or database)
-const activeEvaluations = new Map<string, {
-  progress: EvaluationProgress
-  output?: OrchestratorOutput
-  startTime: number
-}>()
+// Keeps idle SSE connections open through proxies
+const SSE_HEARTBEAT_INTERVAL = 15000
+
+// Feedback requests a client IP may send per window
+const FEEDBACK_RATE_LIMIT = 10
+const FEEDBACK_RATE_WINDOW = 60000
+
+// Pairwise comparisons grow quadratically with the number of candidates
+const MAX_COMPARISON_CANDIDATES = 50
 
 interface EvaluationRequest {
   request: JudgmentRequest
   config: OrchestratorConfig
+  callbackUrl?: string // Receives the final result or failure as a signed POST
+  callbackSecret?: string
+}
+
+// Where to POST the result of an evaluation
+interface EvaluationCallback {
+  url: string
+  secret: string
+}
+
+// Body of POST /orchestrator/:orchestratorId/evaluate - anything omitted comes from the saved orchestrator
+interface SavedOrchestratorEvaluationRequest {
+  userAddress: string // Must be the orchestrator's owner - its AA wallet pays the agents
+  content: string
+  criteria?: string[]
+  rubricId?: string
+  agentIds?: string[]
+  config?: Partial<OrchestratorConfig>
+}
+
+// Body of POST /orchestrator/compare
+interface ComparisonStartRequest {
+  prompt?: string
+  candidates: ComparisonCandidate[]
+  criteria?: string[]
+  agentIds: string[]
+  requestedBy?: string
+  config: ComparisonConfig
 }
 
 interface EvaluationResponse {
@@ -43,6 +94,70 @@ interface ProgressResponse {
 
 export default async function orchestratorRoutes(fastify: FastifyInstance) {
   const orchestrator = getOrchestrator()
+  const evaluationStore = getEvaluationStore()
+  const eventBus = getEvaluationEventBus()
+  const rubricService = getRubricService()
+  const callbackService = getCallbackService()
+
+  /**
+   * Resolve request.rubricId - the rubric's criteria replace any free-form criteria
+   * Returns false when the rubric does not exist
+   */
+  async function resolveRubric(judgmentRequest: JudgmentRequest): Promise<boolean> {
+    delete judgmentRequest.rubric
+    if (!judgmentRequest.rubricId) return true
+
+    const rubric = await rubricService.getRubric(judgmentRequest.rubricId)
+    if (!rubric) return false
+
+    judgmentRequest.rubric = rubric
+    judgmentRequest.criteria = rubric.criteria.map((criterion) => criterion.name)
+    return true
+  }
+
+  /**
+   * Create the HCS topic and evaluation record, then run the evaluation in the background
+   * Progress, result and failures are persisted by the orchestrator; a callback is sent when it ends
+   */
+  async function startEvaluation(
+    judgmentRequest: JudgmentRequest,
+    config: OrchestratorConfig,
+    signer?: AgentPaymentSigner,
+    callback?: EvaluationCallback
+  ): Promise<string> {
+    // Create HCS topic immediately before starting evaluation
+    const hcsService = (await import('../../lib/hedera/hcs-communication.js')).getHCSService()
+    const topicId = await hcsService.createEvaluationTopic(judgmentRequest.id, {
+      title: `Evaluation-${judgmentRequest.id}`,
+      numberOfAgents: judgmentRequest.selectedAgents.length,
+      maxRounds: config.maxDiscussionRounds,
+    })
+
+    console.log(`📡 HCS Topic created: ${topicId}`)
+
+    // Initialize progress tracking
+    await evaluationStore.createEvaluation(judgmentRequest, config, topicId)
+    if (callback) {
+      await callbackService.registerCallback(judgmentRequest.id, callback.url, callback.secret)
+    }
+
+    orchestrator.executeEvaluation(judgmentRequest, config, topicId, signer)
+      .then(async (output) => {
+        if (callback) await callbackService.notifyCompleted(judgmentRequest.id, output)
+      }, async (error) => {
+        if (!(error instanceof EvaluationCancelledError)) {
+          console.error('Evaluation failed:', error)
+        }
+        if (callback) {
+          await callbackService.notifyFailed(judgmentRequest.id, error instanceof Error ? error.message : 'Unknown error')
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to send evaluation callback:', error)
+      })
+
+    return topicId
+  }
 
   /**
    * POST /orchestrator/evaluate
@@ -53,7 +168,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
     Reply: EvaluationResponse
   }>('/evaluate', async (request: FastifyRequest<{ Body: EvaluationRequest & { userWalletAddress?: string } }>, reply: FastifyReply) => {
     try {
-      const { request: judgmentRequest, config, userWalletAddress } = request.body
+      const { request: judgmentRequest, config, userWalletAddress, callbackUrl, callbackSecret } = request.body
 
       // Validate request
       if (!judgmentRequest.id || !judgmentRequest.content || !judgmentRequest.selectedAgents?.length) {
@@ -65,69 +180,53 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
       }
 
       // Validate config
-      if (!config.maxDiscussionRounds || !config.consensusAlgorithm) {
+      const configError = validateConfig(
+        config,
+        judgmentRequest.selectedAgents.length,
+        judgmentRequest.selectedAgents.map((agent) => agent.id)
+      )
+      if (configError) {
         return reply.status(400).send({
           evaluationId: '',
           status: 'failed',
-          message: 'Invalid config: missing required fields (maxDiscussionRounds, consensusAlgorithm)'
+          message: configError
         })
       }
 
-      // Set default config values
-      const finalConfig: OrchestratorConfig = {
-        maxDiscussionRounds: config.maxDiscussionRounds,
-        roundTimeout: config.roundTimeout || 60000,
-        consensusAlgorithm: config.consensusAlgorithm,
-        enableDiscussion: config.enableDiscussion ?? true,
-        convergenceThreshold: config.convergenceThreshold || 0.5,
-        outlierDetection: config.outlierDetection ?? true
+      if (callbackUrl !== undefined) {
+        const callbackError = await validateCallback(callbackUrl, callbackSecret)
+        if (callbackError) {
+          return reply.status(400).send({
+            evaluationId: '',
+            status: 'failed',
+            message: callbackError
+          })
+        }
       }
 
-      // Create HCS topic immediately before starting evaluation
-      const hcsService = (await import('../../lib/hedera/hcs-communication.js')).getHCSService()
-      const topicId = await hcsService.createEvaluationTopic(judgmentRequest.id, {
-        title: `Evaluation-${judgmentRequest.id}`,
-        numberOfAgents: judgmentRequest.selectedAgents.length,
-        maxRounds: finalConfig.maxDiscussionRounds,
-      })
-
-      console.log(`📡 HCS Topic created: ${topicId}`)
-
-      // Initialize progress tracking
-      const progress: EvaluationProgress = {
-        status: 'initializing',
-        currentRound: 0,
-        totalRounds: finalConfig.maxDiscussionRounds,
-        scoresReceived: 0,
-        totalAgents: judgmentRequest.selectedAgents.length,
-        topicId,
-        currentScores: undefined,
-        variance: undefined
+      if (!(await resolveRubric(judgmentRequest))) {
+        return reply.status(404).send({
+          evaluationId: '',
+          status: 'failed',
+          message: `Rubric ${judgmentRequest.rubricId} not found`
+        })
       }
 
-      activeEvaluations.set(judgmentRequest.id, {
-        progress,
-        startTime: Date.now()
-      })
-
-      // Start evaluation asynchronously (topic already created)
-      orchestrator.executeEvaluation(judgmentRequest, finalConfig, topicId)
-        .then((result) => {
-          const evaluation = activeEvaluations.get(judgmentRequest.id)
-          if (evaluation) {
-            evaluation.output = result
-            evaluation.progress = result.progress
-            activeEvaluations.set(judgmentRequest.id, evaluation)
-          }
-        })
-        .catch((error) => {
-          console.error('Evaluation failed:', error)
-          const evaluation = activeEvaluations.get(judgmentRequest.id)
-          if (evaluation) {
-            evaluation.progress.status = 'failed'
-            activeEvaluations.set(judgmentRequest.id, evaluation)
-          }
+      // Checked before the topic is paid for; the record itself rejects a request that races this one
+      if (await evaluationStore.getEvaluation(judgmentRequest.id)) {
+        return reply.status(409).send({
+          evaluationId: '',
+          status: 'failed',
+          message: `Evaluation ${judgmentRequest.id} already exists`
         })
+      }
+
+      const topicId = await startEvaluation(
+        judgmentRequest,
+        withConfigDefaults(config),
+        undefined,
+        callbackUrl ? { url: callbackUrl, secret: callbackSecret! } : undefined
+      )
 
       // Generate feedback auth if user wallet provided
       const evaluationResponse: any = {
@@ -190,6 +289,13 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
       return reply.status(202).send(evaluationResponse)
 
     } catch (error) {
+      if (error instanceof EvaluationExistsError) {
+        return reply.status(409).send({
+          evaluationId: '',
+          status: 'failed',
+          message: error.message
+        })
+      }
       console.error('Error starting evaluation:', error)
       return reply.status(500).send({
         evaluationId: '',
@@ -199,6 +305,65 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
     }
   })
 
+  /**
+   * GET /orchestrator/algorithms
+   * Consensus algorithms that evaluations can select, with their parameter schemas
+   */
+  fastify.get('/algorithms', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      algorithms: getConsensusRegistry().list()
+    })
+  })
+
+  /**
+   * POST /orchestrator/estimate
+   * Dry run of /evaluate: worst-case cost and whether the quota and AA wallet cover it
+   * Nothing is created or paid
+   */
+  fastify.post<{
+    Body: EvaluationRequest & { userWalletAddress?: string }
+  }>('/estimate', async (request: FastifyRequest<{ Body: EvaluationRequest & { userWalletAddress?: string } }>, reply: FastifyReply) => {
+    try {
+      const { request: judgmentRequest, config, userWalletAddress } = request.body || {} as EvaluationRequest
+
+      if (!judgmentRequest?.content || !judgmentRequest.selectedAgents?.length || !config) {
+        return reply.status(400).send({
+          error: 'Invalid request: missing required fields (request.content, request.selectedAgents, config)'
+        })
+      }
+
+      const configError = validateConfig(
+        config,
+        judgmentRequest.selectedAgents.length,
+        judgmentRequest.selectedAgents.map((agent) => agent.id)
+      )
+      if (configError) {
+        return reply.status(400).send({
+          error: configError
+        })
+      }
+
+      if (judgmentRequest.selectedAgents.some((agent) => !(agent.paymentConfig?.pricePerJudgment >= 0))) {
+        return reply.status(400).send({
+          error: 'Invalid request: every selected agent needs paymentConfig.pricePerJudgment'
+        })
+      }
+
+      const estimate = await estimateEvaluationCost(judgmentRequest, withConfigDefaults(config), {
+        userAddress: userWalletAddress || judgmentRequest.requestedBy || undefined,
+        orchestratorId: judgmentRequest.orchestratorId
+      })
+
+      return reply.send(estimate)
+    } catch (error: any) {
+      console.error('Error estimating evaluation cost:', error)
+      return reply.status(500).send({
+        error: 'Failed to estimate evaluation cost',
+        message: error.message
+      })
+    }
+  })
+
   /**
    * GET /orchestrator/progress/:evaluationId
    * Get real-time progress of an evaluation
@@ -209,7 +374,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
   }>('/progress/:evaluationId', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
     try {
       const { evaluationId } = request.params
-      const evaluation = activeEvaluations.get(evaluationId)
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
 
       if (!evaluation) {
         return reply.status(404).send({
@@ -226,7 +391,8 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
         })
       }
 
-      const isComplete = evaluation.output !== undefined || evaluation.progress.status === 'failed'
+      const isComplete = evaluation.output !== undefined ||
+        !IN_PROGRESS_STATUSES.includes(evaluation.progress.status)
 
       return reply.send({
         evaluationId,
@@ -261,7 +427,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
   }>('/result/:evaluationId', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
     try {
       const { evaluationId } = request.params
-      const evaluation = activeEvaluations.get(evaluationId)
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
 
       if (!evaluation) {
         return reply.status(404).send({
@@ -295,7 +461,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
   }>('/transcript/:evaluationId', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
     try {
       const { evaluationId } = request.params
-      const evaluation = activeEvaluations.get(evaluationId)
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
 
       if (!evaluation) {
         return reply.status(404).send({
@@ -303,13 +469,19 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
         })
       }
 
-      if (!evaluation.output) {
+      if (evaluation.output) {
+        return reply.send(evaluation.output.transcript)
+      }
+
+      if (IN_PROGRESS_STATUSES.includes(evaluation.progress.status)) {
         return reply.status(202).send({
           error: 'Evaluation not yet complete'
         })
       }
 
-      return reply.send(evaluation.output.transcript)
+      // Cancelled, failed or interrupted - return what was recorded before it stopped
+      const rounds = await evaluationStore.getRounds(evaluationId)
+      return reply.send(orchestrator.createTranscript(evaluation.progress.topicId || '', rounds))
 
     } catch (error) {
       console.error('Error getting transcript:', error)
@@ -319,14 +491,112 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
     }
   })
 
+  /**
+   * GET /orchestrator/stream/:evaluationId
+   * Stream evaluation lifecycle events over Server-Sent Events
+   * Replays persisted events (after Last-Event-ID when reconnecting), then streams live ones
+   */
+  fastify.get<{
+    Params: { evaluationId: string }
+  }>('/stream/:evaluationId', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
+    const { evaluationId } = request.params
+
+    try {
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
+      if (!evaluation) {
+        return reply.status(404).send({
+          error: 'Evaluation not found'
+        })
+      }
+    } catch (error) {
+      console.error('Error opening evaluation stream:', error)
+      return reply.status(500).send({
+        error: 'Internal server error'
+      })
+    }
+
+    const lastEventId = parseInt(String(request.headers['last-event-id'] || '0'), 10) || 0
+
+    reply.hijack()
+    reply.raw.writeHead(200, {
+      // Keep headers set by plugins (CORS, Helmet) - hijacked replies skip their hooks
+      ...(reply.getHeaders() as Record<string, string | number | string[]>),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+
+    let lastSequence = lastEventId
+    let replaying = true
+    let closed = false
+    const buffered: EvaluationEvent[] = []
+
+    const close = () => {
+      if (closed) return
+      closed = true
+      clearInterval(heartbeat)
+      unsubscribe()
+      reply.raw.end()
+    }
+
+    const send = (event: EvaluationEvent) => {
+      if (closed) return
+      if (event.sequence !== undefined) {
+        // Skip events already delivered by the replay or a previous connection
+        if (event.sequence <= lastSequence) return
+        lastSequence = event.sequence
+      }
+
+      const id = event.sequence !== undefined ? `id: ${event.sequence}\n` : ''
+      reply.raw.write(`${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+
+      if (TERMINAL_EVENT_TYPES.includes(event.type)) {
+        close()
+      }
+    }
+
+    // Subscribe before replaying so no event slips between the two
+    const unsubscribe = eventBus.subscribe(evaluationId, (event) => {
+      if (replaying) {
+        buffered.push(event)
+      } else {
+        send(event)
+      }
+    })
+    const heartbeat = setInterval(() => reply.raw.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL)
+    request.raw.on('close', close)
+
+    try {
+      const history = await evaluationStore.getEvents(evaluationId, lastEventId)
+      history.forEach(send)
+      replaying = false
+      buffered.forEach(send)
+
+      // Evaluations that ended without a terminal event (e.g. interrupted) publish nothing more
+      const latest = await evaluationStore.getEvaluation(evaluationId)
+      if (latest && !IN_PROGRESS_STATUSES.includes(latest.progress.status)) {
+        close()
+      }
+    } catch (error) {
+      console.error('Error replaying evaluation events:', error)
+      close()
+    }
+  })
+
   /**
    * GET /orchestrator/active
-   * Get list of active evaluations
+   * Get list of active evaluations (pass includeFinished=true to include finished ones)
    */
-  fastify.get('/active', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.get<{
+    Querystring: { includeFinished?: string }
+  }>('/active', async (request: FastifyRequest<{ Querystring: { includeFinished?: string } }>, reply: FastifyReply) => {
     try {
-      const active = Array.from(activeEvaluations.entries()).map(([id, evaluation]) => ({
-        evaluationId: id,
+      const evaluations = await evaluationStore.listEvaluations({
+        includeFinished: request.query.includeFinished === 'true'
+      })
+
+      const active = evaluations.map((evaluation) => ({
+        evaluationId: evaluation.evaluationId,
         status: evaluation.progress.status,
         startTime: evaluation.startTime,
         currentRound: evaluation.progress.currentRound,
@@ -347,23 +617,44 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
 
   /**
    * DELETE /orchestrator/:evaluationId
-   * Cancel/cleanup an evaluation
+   * Cancel a running evaluation, or clean up a finished one
    */
   fastify.delete<{
     Params: { evaluationId: string }
   }>('/:evaluationId', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
     try {
       const { evaluationId } = request.params
-      const deleted = activeEvaluations.delete(evaluationId)
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
 
-      if (!deleted) {
+      if (!evaluation) {
         return reply.status(404).send({
           error: 'Evaluation not found'
         })
       }
 
+      if (IN_PROGRESS_STATUSES.includes(evaluation.progress.status)) {
+        // Aborts in-flight agent calls and waits until the cancellation is recorded
+        const cancelled = await orchestrator.cancelEvaluation(evaluationId, 'Cancelled via API')
+
+        if (!cancelled) {
+          return reply.status(409).send({
+            error: 'Evaluation is not running on this server instance'
+          })
+        }
+
+        const updated = await evaluationStore.getEvaluation(evaluationId)
+
+        return reply.send({
+          message: 'Evaluation cancelled successfully',
+          status: updated?.progress.status,
+          payments: updated?.payments || []
+        })
+      }
+
+      await evaluationStore.deleteEvaluation(evaluationId)
+
       return reply.send({
-        message: 'Evaluation cancelled successfully'
+        message: 'Evaluation deleted successfully'
       })
 
     } catch (error) {
@@ -374,6 +665,238 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
     }
   })
 
+  /**
+   * POST /orchestrator/:evaluationId/recompute
+   * Recompute a completed evaluation's consensus with another algorithm or outlier, trim or bias correction settings
+   * Settings not given are taken from the original run; the stored result is not changed
+   */
+  fastify.post<{
+    Params: { evaluationId: string }
+    Body: ConsensusRecomputeOptions
+  }>('/:evaluationId/recompute', async (request: FastifyRequest<{
+    Params: { evaluationId: string }
+    Body: ConsensusRecomputeOptions
+  }>, reply: FastifyReply) => {
+    try {
+      const { evaluationId } = request.params
+      const {
+        consensusAlgorithm,
+        consensusParams,
+        outlierDetection,
+        outlierStrategy,
+        outlierZScoreThreshold,
+        trimFraction,
+        biasCorrection
+      } = request.body || {} as ConsensusRecomputeOptions
+
+      if (!consensusAlgorithm) {
+        return reply.status(400).send({
+          error: 'Invalid request: consensusAlgorithm is required'
+        })
+      }
+
+      const [evaluation, inputs] = await Promise.all([
+        evaluationStore.getEvaluation(evaluationId),
+        evaluationStore.getEvaluationInputs(evaluationId),
+      ])
+      if (!evaluation || !inputs) {
+        return reply.status(404).send({
+          error: 'Evaluation not found'
+        })
+      }
+
+      if (!evaluation.output) {
+        return reply.status(409).send({
+          error: `Only completed evaluations can be recomputed (status: ${evaluation.progress.status})`
+        })
+      }
+
+      const config: OrchestratorConfig = {
+        ...inputs.config,
+        consensusAlgorithm,
+        // The original parameters only apply to the original algorithm
+        consensusParams: consensusParams ??
+          (consensusAlgorithm === inputs.config.consensusAlgorithm ? inputs.config.consensusParams : undefined),
+        ...(outlierDetection !== undefined && { outlierDetection }),
+        ...(outlierStrategy !== undefined && { outlierStrategy }),
+        ...(outlierZScoreThreshold !== undefined && { outlierZScoreThreshold }),
+        ...(trimFraction !== undefined && { trimFraction }),
+        ...(biasCorrection !== undefined && { biasCorrection }),
+      }
+      const configError = validateConfig(
+        config,
+        inputs.selectedAgents.length,
+        inputs.selectedAgents.map((agent) => agent.id)
+      )
+      if (configError) {
+        return reply.status(400).send({
+          error: configError
+        })
+      }
+
+      const rubric = inputs.rubricId ? await rubricService.getRubric(inputs.rubricId) : null
+      const { consensus, transcriptSource } = await orchestrator.recomputeConsensus(
+        evaluationId,
+        evaluation.progress.topicId,
+        inputs.selectedAgents,
+        config,
+        inputs.criteria,
+        rubric || undefined
+      )
+
+      const recomputation: ConsensusRecomputation = {
+        evaluationId,
+        transcriptSource,
+        settings: {
+          consensusAlgorithm: config.consensusAlgorithm,
+          consensusParams: config.consensusParams,
+          outlierDetection: config.outlierDetection,
+          outlierStrategy: config.outlierStrategy,
+          outlierZScoreThreshold: config.outlierZScoreThreshold,
+          trimFraction: config.trimFraction,
+          biasCorrection: config.biasCorrection,
+        },
+        original: evaluation.output.consensus,
+        recomputed: consensus,
+        computedAt: Date.now()
+      }
+
+      return reply.send(recomputation)
+    } catch (error: any) {
+      console.error('Error recomputing consensus:', error)
+      return reply.status(500).send({
+        error: 'Failed to recompute consensus',
+        message: error.message
+      })
+    }
+  })
+
+  // Recent feedback request times per client IP
+  const feedbackRequests = new Map<string, number[]>()
+
+  /**
+   * Count a feedback request against the client's window; true when it is over the limit
+   */
+  function feedbackRateLimited(ip: string): boolean {
+    const now = Date.now()
+    if (feedbackRequests.size > 10000) {
+      feedbackRequests.forEach((times, key) => {
+        if (times[times.length - 1] <= now - FEEDBACK_RATE_WINDOW) feedbackRequests.delete(key)
+      })
+    }
+
+    const recent = (feedbackRequests.get(ip) || []).filter((time) => time > now - FEEDBACK_RATE_WINDOW)
+    if (recent.length >= FEEDBACK_RATE_LIMIT) return true
+    feedbackRequests.set(ip, [...recent, now])
+    return false
+  }
+
+  /**
+   * POST /orchestrator/:evaluationId/feedback
+   * Score a completed evaluation after the fact - each judge's deviation from it feeds its calibrated weight
+   * Only the requester may, once per evaluation (resubmitting replaces it), and at a limited rate
+   */
+  fastify.post<{
+    Params: { evaluationId: string }
+    Body: EvaluationFeedback
+    Reply: { evaluationId: string; samples: CalibrationSample[] } | { error: string; message?: string }
+  }>('/:evaluationId/feedback', async (request: FastifyRequest<{
+    Params: { evaluationId: string }
+    Body: EvaluationFeedback
+  }>, reply: FastifyReply) => {
+    try {
+      if (feedbackRateLimited(request.ip)) {
+        return reply.status(429).send({
+          error: `At most ${FEEDBACK_RATE_LIMIT} feedback requests per minute`
+        })
+      }
+
+      const { evaluationId } = request.params
+      const { score, submittedBy } = request.body || {} as EvaluationFeedback
+
+      const samples = await getJudgeCalibrationService().recordFeedback(evaluationId, score, submittedBy)
+      return reply.status(201).send({ evaluationId, samples })
+    } catch (error: any) {
+      if (error instanceof CalibrationFeedbackError) {
+        return reply.status(error.statusCode).send({
+          error: error.message
+        })
+      }
+      console.error('Error recording evaluation feedback:', error)
+      return reply.status(500).send({
+        error: 'Failed to record feedback',
+        message: error.message
+      })
+    }
+  })
+
+  /**
+   * GET /orchestrator/:evaluationId/callbacks
+   * Completion callbacks of an evaluation with every delivery attempt
+   */
+  fastify.get<{
+    Params: { evaluationId: string }
+  }>('/:evaluationId/callbacks', async (request: FastifyRequest<{ Params: { evaluationId: string } }>, reply: FastifyReply) => {
+    try {
+      const { evaluationId } = request.params
+      const evaluation = await evaluationStore.getEvaluation(evaluationId)
+
+      if (!evaluation) {
+        return reply.status(404).send({
+          error: 'Evaluation not found'
+        })
+      }
+
+      return reply.send({
+        evaluationId,
+        callbacks: await callbackService.listDeliveries(evaluationId)
+      })
+    } catch (error: any) {
+      console.error('Error listing evaluation callbacks:', error)
+      return reply.status(500).send({
+        error: 'Failed to list callbacks',
+        message: error.message
+      })
+    }
+  })
+
+  /**
+   * POST /orchestrator/:evaluationId/callbacks/:callbackId/redeliver
+   * Send a failed (or already delivered) callback again
+   */
+  fastify.post<{
+    Params: { evaluationId: string; callbackId: string }
+  }>('/:evaluationId/callbacks/:callbackId/redeliver', async (request: FastifyRequest<{
+    Params: { evaluationId: string; callbackId: string }
+  }>, reply: FastifyReply) => {
+    try {
+      const { evaluationId, callbackId } = request.params
+      const callback = await callbackService.redeliver(evaluationId, callbackId)
+
+      if (!callback) {
+        return reply.status(404).send({
+          error: 'Callback not found'
+        })
+      }
+
+      return reply.status(202).send({
+        message: 'Callback redelivery started',
+        callback
+      })
+    } catch (error: any) {
+      if (error instanceof CallbackStateError) {
+        return reply.status(409).send({
+          error: error.message
+        })
+      }
+      console.error('Error redelivering callback:', error)
+      return reply.status(500).send({
+        error: 'Failed to redeliver callback',
+        message: error.message
+      })
+    }
+  })
+
   /**
    * POST /orchestrator/register
    * Create an AA wallet for orchestrator registration
@@ -470,37 +993,20 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
    * Create orchestrator with AA wallet
    */
   fastify.post<{
-    Body: {
-      userAddress: string
-      config: {
-        maxDiscussionRounds: number
-        roundTimeout: number
-        consensusAlgorithm: string
-        enableDiscussion: boolean
-        convergenceThreshold: number
-        outlierDetection: boolean
-      }
-      systemPrompt: string
-      network: 'testnet' | 'mainnet'
-      initialFunding?: number
-    }
-  }>('/create', async (request: FastifyRequest<{ 
-    Body: {
-      userAddress: string
-      config: {
-        maxDiscussionRounds: number
-        roundTimeout: number
-        consensusAlgorithm: string
-        enableDiscussion: boolean
-        convergenceThreshold: number
-        outlierDetection: boolean
-      }
-      systemPrompt: string
-      network: 'testnet' | 'mainnet'
-      initialFunding?: number
-    }
-  }>, reply: FastifyReply) => {
+    Body: CreateOrchestratorRequest
+  }>('/create', async (request: FastifyRequest<{ Body: CreateOrchestratorRequest }>, reply: FastifyReply) => {
     try {
+      // The saved config is what POST /orchestrator/:orchestratorId/evaluate runs with
+      const { config } = request.body
+      const configError = config
+        ? validateConfig(config, config.agentIds?.length ?? Number.MAX_SAFE_INTEGER, config.agentIds)
+        : 'Invalid config: missing required fields (maxDiscussionRounds, consensusAlgorithm)'
+      if (configError) {
+        return reply.status(400).send({
+          error: configError
+        })
+      }
+
       const orchestratorService = getOrchestratorService()
       const result = await orchestratorService.createOrchestrator(request.body)
 
@@ -595,6 +1101,263 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
     }
   })
 
+  /**
+   * POST /orchestrator/:orchestratorId/evaluate
+   * Start an evaluation with a saved orchestrator's config and default panel
+   * Agents are paid from the orchestrator's AA wallet, so only its owner may start one
+   */
+  fastify.post<{
+    Params: { orchestratorId: string }
+    Body: SavedOrchestratorEvaluationRequest
+  }>('/:orchestratorId/evaluate', async (request: FastifyRequest<{
+    Params: { orchestratorId: string }
+    Body: SavedOrchestratorEvaluationRequest
+  }>, reply: FastifyReply) => {
+    try {
+      const { orchestratorId } = request.params
+      const { userAddress, content, criteria, rubricId, agentIds, config: overrides } = request.body || {} as SavedOrchestratorEvaluationRequest
+
+      if (!content || !userAddress) {
+        return reply.status(400).send({
+          error: 'Invalid request: userAddress and content are required'
+        })
+      }
+
+      const context = await getOrchestratorService().getEvaluationContext(orchestratorId)
+      if (!context) {
+        return reply.status(404).send({
+          error: 'Orchestrator not found'
+        })
+      }
+      if (context.userAddress.toLowerCase() !== userAddress.toLowerCase()) {
+        return reply.status(403).send({
+          error: 'Only the owner of the orchestrator can spend its wallet'
+        })
+      }
+
+      const { agentIds: defaultPanel, criteria: defaultCriteria, rubricId: defaultRubricId, ...savedConfig } = context.config
+      const panel = agentIds?.length ? agentIds : defaultPanel || []
+      if (panel.length === 0) {
+        return reply.status(400).send({
+          error: 'No panel: pass agentIds or save agentIds in the orchestrator config'
+        })
+      }
+
+      const { agents, missing } = await loadPanel(panel)
+      if (missing.length > 0) {
+        return reply.status(400).send({
+          error: `Unknown agent(s): ${missing.join(', ')}`
+        })
+      }
+
+      const config = { ...savedConfig, ...overrides } as OrchestratorConfig
+      const configError = validateConfig(config, agents.length, agents.map((agent) => agent.id))
+      if (configError) {
+        return reply.status(400).send({
+          error: configError
+        })
+      }
+
+      const judgmentRequest: JudgmentRequest = {
+        id: `eval_${orchestratorId}_${Date.now()}`,
+        content,
+        criteria: criteria || defaultCriteria,
+        rubricId: rubricId || defaultRubricId,
+        orchestratorId,
+        selectedAgents: agents,
+        requestedBy: context.userAddress,
+        createdAt: Date.now(),
+        status: 'pending'
+      }
+
+      if (!(await resolveRubric(judgmentRequest))) {
+        return reply.status(404).send({
+          error: `Rubric ${judgmentRequest.rubricId} not found`
+        })
+      }
+
+      const topicId = await startEvaluation(judgmentRequest, withConfigDefaults(config), context.signer)
+
+      return reply.status(202).send({
+        evaluationId: judgmentRequest.id,
+        orchestratorId,
+        status: 'started',
+        topicId,
+        message: 'Evaluation started successfully'
+      })
+    } catch (error: any) {
+      if (error instanceof OrchestratorWalletKeyError) {
+        return reply.status(409).send({
+          error: error.message
+        })
+      }
+      console.error('Error starting orchestrator evaluation:', error)
+      return reply.status(500).send({
+        error: 'Failed to start evaluation',
+        message: error.message
+      })
+    }
+  })
+
+  /**
+   * GET /orchestrator/:orchestratorId/evaluations
+   * Evaluation history of a saved orchestrator, most recent first
+   */
+  fastify.get<{
+    Params: { orchestratorId: string }
+    Querystring: { limit?: string }
+  }>('/:orchestratorId/evaluations', async (request: FastifyRequest<{
+    Params: { orchestratorId: string }
+    Querystring: { limit?: string }
+  }>, reply: FastifyReply) => {
+    try {
+      const { orchestratorId } = request.params
+      const limit = request.query.limit ? parseInt(request.query.limit, 10) : undefined
+
+      const evaluations = await evaluationStore.listEvaluations({
+        includeFinished: true,
+        orchestratorId,
+        ...(limit && limit > 0 && { limit }),
+      })
+
+      return reply.send({
+        orchestratorId,
+        evaluations: evaluations.map((evaluation) => ({
+          evaluationId: evaluation.evaluationId,
+          status: evaluation.progress.status,
+          startTime: evaluation.startTime,
+          completedAt: evaluation.completedAt,
+          topicId: evaluation.progress.topicId,
+          finalScore: evaluation.output?.consensus.finalScore,
+          confidence: evaluation.output?.consensus.confidence,
+          error: evaluation.error,
+          payments: evaluation.payments
+        }))
+      })
+    } catch (error: any) {
+      console.error('Error listing orchestrator evaluations:', error)
+      return reply.status(500).send({
+        error: 'Failed to list evaluations',
+        message: error.message
+      })
+    }
+  })
+
+  /**
+   * POST /orchestrator/compare
+   * Rank candidates by pairwise judge verdicts (Bradley-Terry or Elo)
+   * Each verdict and the final ranking are published to the comparison's HCS topic
+   */
+  fastify.post<{
+    Body: ComparisonStartRequest
+  }>('/compare', async (request: FastifyRequest<{ Body: ComparisonStartRequest }>, reply: FastifyReply) => {
+    try {
+      const { prompt, candidates, criteria, agentIds, requestedBy, config } = request.body || {} as ComparisonStartRequest
+
+      if (!Array.isArray(candidates) || candidates.length < 2 || candidates.length > MAX_COMPARISON_CANDIDATES) {
+        return reply.status(400).send({
+          error: `Invalid request: provide between 2 and ${MAX_COMPARISON_CANDIDATES} candidates`
+        })
+      }
+
+      const ids = candidates.map((candidate) => candidate?.id)
+      if (candidates.some((candidate) => !candidate?.id || !candidate.content) || new Set(ids).size !== ids.length) {
+        return reply.status(400).send({
+          error: 'Invalid request: every candidate needs a unique id and content'
+        })
+      }
+
+      if (!agentIds?.length) {
+        return reply.status(400).send({
+          error: 'Invalid request: agentIds is required'
+        })
+      }
+
+      const { agents, missing } = await loadPanel(agentIds)
+      if (missing.length > 0) {
+        return reply.status(400).send({
+          error: `Unknown agent(s): ${missing.join(', ')}`
+        })
+      }
+
+      const configError = validateComparisonConfig(config, agents.length)
+      if (configError) {
+        return reply.status(400).send({
+          error: configError
+        })
+      }
+
+      const comparisonConfig: ComparisonConfig = { ...config, roundTimeout: config.roundTimeout || 60000 }
+      const comparisonRequest: ComparisonRequest = {
+        id: `cmp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        prompt,
+        candidates: candidates.map(({ id, content, label }) => ({ id: String(id), content, ...(label && { label }) })),
+        criteria,
+        selectedAgents: agents,
+        requestedBy: requestedBy || '',
+        createdAt: Date.now()
+      }
+
+      const pairwiseOrchestrator = getPairwiseOrchestrator()
+      const plannedComparisons = pairwiseOrchestrator
+        .planComparisons(comparisonRequest.candidates, agents, comparisonConfig).length
+
+      const hcsService = (await import('../../lib/hedera/hcs-communication.js')).getHCSService()
+      const topicId = await hcsService.createEvaluationTopic(comparisonRequest.id, {
+        title: `Comparison-${comparisonRequest.id}`,
+        numberOfAgents: agents.length,
+        maxRounds: plannedComparisons,
+      })
+
+      await getComparisonStore().createComparison(comparisonRequest, comparisonConfig, topicId, plannedComparisons)
+
+      pairwiseOrchestrator.executeComparison(comparisonRequest, comparisonConfig, topicId)
+        .catch((error) => {
+          console.error('Comparison failed:', error)
+        })
+
+      return reply.status(202).send({
+        comparisonId: comparisonRequest.id,
+        status: 'started',
+        topicId,
+        plannedComparisons,
+        message: 'Comparison started successfully'
+      })
+    } catch (error: any) {
+      console.error('Error starting comparison:', error)
+      return reply.status(500).send({
+        error: 'Failed to start comparison',
+        message: error.message
+      })
+    }
+  })
+
+  /**
+   * GET /orchestrator/compare/:comparisonId
+   * Comparison status, verdicts so far and (once completed) the ranking with confidence intervals
+   */
+  fastify.get<{
+    Params: { comparisonId: string }
+  }>('/compare/:comparisonId', async (request: FastifyRequest<{ Params: { comparisonId: string } }>, reply: FastifyReply) => {
+    try {
+      const comparison = await getComparisonStore().getComparison(request.params.comparisonId)
+
+      if (!comparison) {
+        return reply.status(404).send({
+          error: 'Comparison not found'
+        })
+      }
+
+      return reply.send(comparison)
+    } catch (error: any) {
+      console.error('Error getting comparison:', error)
+      return reply.status(500).send({
+        error: 'Failed to get comparison',
+        message: error.message
+      })
+    }
+  })
+
   /**
    * POST /orchestrator/test
    * Test endpoint: Create multi-agent orchestrator round with HCS topic creation
@@ -657,54 +1420,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
         id: evaluationId,
         content,
         criteria,
-        selectedAgents: dbAgents.map(agent => ({
-          id: agent.id.toString(),
-          name: agent.name,
-          title: agent.name,
-          tagline: agent.bio || '',
-          bio: agent.bio || '',
-          avatar: agent.avatar || '',
-          color: (agent.color || 'purple') as 'purple' | 'cyan' | 'gold',
-          hederaAccount: {
-            accountId: agent.accountId,
-            publicKey: '',
-            balance: 0
-          },
-          paymentConfig: {
-            enabled: true,
-            acceptedTokens: ['HBAR'],
-            pricePerJudgment: agent.fee,
-            paymentAddress: agent.payToAddress,
-            minimumPayment: agent.fee
-          },
-          identity: {
-            registryId: '',
-            agentId: agent.id.toString(),
-            verified: false,
-            registeredAt: agent.createdAt.getTime()
-          },
-          reputation: {
-            totalReviews: 0,
-            averageRating: agent.reputation,
-            completedJudgments: 0,
-            successRate: 1.0,
-            lastUpdated: Date.now()
-          },
-          capabilities: {
-            specialties: JSON.parse(agent.specialties || '[]'),
-            languages: ['en'],
-            modelProvider: 'openai' as const,
-            modelName: 'gpt-4',
-            systemPrompt: agent.bio || '',
-            temperature: 0.7,
-            maxTokens: 2000
-          },
-          createdBy: '',
-          createdAt: agent.createdAt.getTime(),
-          updatedAt: agent.updatedAt.getTime(),
-          isActive: true,
-          trending: agent.trending || false
-        })),
+        selectedAgents: dbAgents.map(toPanelAgent),
         requestedBy: process.env.HEDERA_ACCOUNT_ID || '',
         createdAt: Date.now(),
         status: 'pending' as const
@@ -717,10 +1433,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
       console.log('\n⚙️  Step 3: Configuring Orchestrator')
 
       // Validate consensus algorithm
-      const validAlgorithms = ['simple_average', 'weighted_average', 'median', 'trimmed_mean', 'iterative_convergence', 'delphi_method']
-      const algorithm = validAlgorithms.includes(consensusAlgorithm)
-        ? consensusAlgorithm as OrchestratorConfig['consensusAlgorithm']
-        : 'weighted_average' as const
+      const algorithm = getConsensusRegistry().has(consensusAlgorithm) ? consensusAlgorithm : 'weighted_average'
 
       const config: OrchestratorConfig = {
         maxDiscussionRounds: maxRounds,
@@ -745,21 +1458,7 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
       console.log(`📡 HCS Topic created: ${topicId}`)
 
       // Initialize progress tracking
-      const progress: EvaluationProgress = {
-        status: 'initializing',
-        currentRound: 0,
-        totalRounds: config.maxDiscussionRounds,
-        scoresReceived: 0,
-        totalAgents: judgmentRequest.selectedAgents.length,
-        topicId,
-        currentScores: undefined,
-        variance: undefined
-      }
-
-      activeEvaluations.set(judgmentRequest.id, {
-        progress,
-        startTime: Date.now()
-      })
+      await evaluationStore.createEvaluation(judgmentRequest, config, topicId)
 
       // Step 5: Execute multi-agent evaluation asynchronously (topic already created)
       console.log('\n🚀 Step 5: Executing Multi-Agent Evaluation (async)')
@@ -773,12 +1472,6 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
       const orchestratorInstance = getOrchestrator()
       orchestratorInstance.executeEvaluation(judgmentRequest, config, topicId)
         .then((result) => {
-          const evaluation = activeEvaluations.get(judgmentRequest.id)
-          if (evaluation) {
-            evaluation.output = result
-            evaluation.progress = result.progress
-            activeEvaluations.set(judgmentRequest.id, evaluation)
-          }
           console.log('\n✅ Evaluation Complete!')
           console.log(`   📡 Topic ID: ${result.topicId}`)
           console.log(`   🎯 Final Score: ${result.consensus.finalScore.toFixed(2)}/10`)
@@ -789,11 +1482,6 @@ export default async function orchestratorRoutes(fastify: FastifyInstance) {
         })
         .catch((error) => {
           console.error('❌ Evaluation failed:', error)
-          const evaluation = activeEvaluations.get(judgmentRequest.id)
-          if (evaluation) {
-            evaluation.progress.status = 'failed'
-            activeEvaluations.set(judgmentRequest.id, evaluation)
-          }
         })
 
       // Generate feedback auth for the user
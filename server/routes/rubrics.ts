@@ -0,0 +1,193 @@
+import { FastifyPluginAsync } from 'fastify'
+import {
+  getRubricService,
+  RubricValidationError,
+  RubricNotFoundError,
+  type RubricInput,
+} from '../../lib/rubrics/rubric-service.js'
+
+const rubricsRoutes: FastifyPluginAsync = async (fastify) => {
+  const rubricService = getRubricService()
+
+  const listRubricsSchema = {
+    querystring: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        preset: { type: 'boolean' },
+        allVersions: { type: 'boolean' },
+      },
+    },
+  }
+
+  const rubricIdSchema = {
+    params: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string' },
+      },
+    },
+  }
+
+  /**
+   * GET /api/rubrics
+   * List rubrics (latest version of each unless allVersions=true)
+   */
+  fastify.get('/', { schema: listRubricsSchema }, async (request, reply) => {
+    try {
+      const { name, preset, allVersions } = request.query as {
+        name?: string
+        preset?: boolean
+        allVersions?: boolean
+      }
+
+      const rubrics = await rubricService.listRubrics({ name, preset, allVersions })
+
+      return reply.code(200).send({
+        success: true,
+        data: rubrics,
+      })
+    } catch (error: any) {
+      fastify.log.error('List rubrics error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch rubrics',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * GET /api/rubrics/:id
+   * Get a single rubric version
+   */
+  fastify.get('/:id', { schema: rubricIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const rubric = await rubricService.getRubric(id)
+
+      if (!rubric) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Rubric not found',
+          message: `Rubric with ID ${id} does not exist`,
+        })
+      }
+
+      return reply.code(200).send({
+        success: true,
+        data: rubric,
+      })
+    } catch (error: any) {
+      fastify.log.error('Get rubric error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to fetch rubric',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * POST /api/rubrics
+   * Create a new rubric (version 1)
+   */
+  fastify.post('/', async (request, reply) => {
+    try {
+      const { name, description, criteria, createdBy } = request.body as RubricInput
+
+      const rubric = await rubricService.createRubric({ name, description, criteria, createdBy })
+
+      return reply.code(201).send({
+        success: true,
+        data: rubric,
+      })
+    } catch (error: any) {
+      if (error instanceof RubricValidationError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid rubric',
+          message: error.message,
+        })
+      }
+      fastify.log.error('Create rubric error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to create rubric',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * PUT /api/rubrics/:id
+   * Create a new version of a rubric - the given version is left unchanged
+   */
+  fastify.put('/:id', { schema: rubricIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      const { description, criteria, createdBy } = request.body as Partial<RubricInput>
+
+      const rubric = await rubricService.updateRubric(id, { description, criteria, createdBy })
+
+      return reply.code(201).send({
+        success: true,
+        data: rubric,
+      })
+    } catch (error: any) {
+      if (error instanceof RubricNotFoundError) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Rubric not found',
+          message: error.message,
+        })
+      }
+      if (error instanceof RubricValidationError) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid rubric',
+          message: error.message,
+        })
+      }
+      fastify.log.error('Update rubric error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to update rubric',
+        message: error.message,
+      })
+    }
+  })
+
+  /**
+   * DELETE /api/rubrics/:id
+   * Delete a rubric version
+   */
+  fastify.delete('/:id', { schema: rubricIdSchema }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string }
+      await rubricService.deleteRubric(id)
+
+      return reply.code(200).send({
+        success: true,
+        message: `Rubric ${id} deleted`,
+      })
+    } catch (error: any) {
+      if (error instanceof RubricNotFoundError) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Rubric not found',
+          message: error.message,
+        })
+      }
+      fastify.log.error('Delete rubric error:', error)
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to delete rubric',
+        message: error.message,
+      })
+    }
+  })
+}
+
+export default rubricsRoutes
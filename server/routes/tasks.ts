@@ -6,6 +6,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { getOrchestratorService } from '../../lib/hedera/orchestrator-service.js'
 import { dbService } from '../../lib/database.js'
+import { resolveScoreScale, toInternalScore, validateScoreScale, describeScale } from '../../lib/scoring/score-scale.js'
+import type { NativeScore, ScoreScale, ScoreScalePreset } from '../../types/agent'
 
 // Validation schemas
 const createTaskSchema = {
@@ -28,7 +30,8 @@ const submitScoreSchema = {
     taskId: { type: 'string' },
     judgeId: { type: 'number' },
     round: { type: 'number' },
-    score: { type: 'number', minimum: 0, maximum: 10 },
+    score: { type: ['number', 'string'] }, // On the scale, 0-10 when none is given
+    scale: { type: ['object', 'string'] }, // ScoreScale or preset name
     reasoning: { type: 'string', minLength: 1 }
   },
   required: ['taskId', 'judgeId', 'round', 'score', 'reasoning']
@@ -132,9 +135,20 @@ export default async function tasksRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async (request: FastifyRequest<{ Body: { taskId: string; judgeId: number; round: number; score: number; reasoning: string } }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Body: { taskId: string; judgeId: number; round: number; score: NativeScore; scale?: ScoreScale | ScoreScalePreset; reasoning: string } }>, reply: FastifyReply) => {
     try {
-      const { taskId, judgeId, round, score, reasoning } = request.body
+      const { taskId, judgeId, round, scale: declaredScale, reasoning } = request.body
+
+      // Scores are stored on 0-10, along with the score and scale they were given on
+      const scaleError = declaredScale !== undefined ? validateScoreScale(declaredScale) : undefined
+      if (scaleError) {
+        return reply.status(400).send({ success: false, error: scaleError })
+      }
+      const scale = resolveScoreScale(declaredScale)
+      const score = toInternalScore(scale, request.body.score)
+      if (score === undefined) {
+        return reply.status(400).send({ success: false, error: `score must be ${describeScale(scale)}` })
+      }
       
       // Submit score to database
       await dbService.submitScore({
@@ -142,6 +156,7 @@ export default async function tasksRoutes(fastify: FastifyInstance) {
         judgeId,
         round,
         score,
+        ...(declaredScale !== undefined && { nativeScore: request.body.score, scale }),
         reasoning,
       })
       
@@ -79,12 +79,149 @@ export interface JudgmentRequest {
   id: string
   content: string
   criteria?: string[]
+  rubricId?: string
+  rubric?: Rubric // Resolved from rubricId; its criteria replace `criteria`
+  orchestratorId?: string // Saved orchestrator that ran the evaluation
   selectedAgents: Agent[]
   requestedBy: string
   createdAt: number
   status: 'pending' | 'processing' | 'completed' | 'failed'
 }
 
+// Scoring rubric: named, versioned set of weighted criteria
+export interface RubricCriterion {
+  name: string
+  description?: string
+  weight: number // Relative weight, normalized over the scored criteria
+  required: boolean // Judges must score required criteria
+  anchors?: Array<{ score: number; description: string }> // e.g. 3 = "...", 7 = "..."
+}
+
+export interface Rubric {
+  id: string
+  name: string
+  version: number
+  description?: string
+  criteria: RubricCriterion[]
+  isPreset: boolean
+  createdBy?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// Pairwise comparison mode: judges state a preference between two candidates
+export type RankingMethod = 'bradley_terry' | 'elo'
+
+export interface ComparisonCandidate {
+  id: string
+  content: string
+  label?: string
+}
+
+// Judge's preference between two candidates
+export interface PairwisePreference {
+  winner: 'A' | 'B' | 'tie'
+  margin: number // 0-1: 0 = barely better, 1 = decisively better (0 for ties)
+}
+
+export interface PairwiseVerdict extends PairwisePreference {
+  agentId: string
+  agentName: string
+  candidateA: string // Candidate ids, in the order shown to the judge
+  candidateB: string
+  reasoning: string
+  paymentTx?: string
+  hcsTxId?: string
+  timestamp: number
+}
+
+export interface ComparisonConfig {
+  method: RankingMethod
+  judgesPerPair?: number // Defaults to 1; judges are rotated across pairs
+  maxComparisons?: number // Cap on judge calls; defaults to every pair once per judge slot
+  roundTimeout: number // Per-call deadline (ms)
+  confidenceLevel?: number // Defaults to 0.95
+  bootstrapSamples?: number // Defaults to 200
+}
+
+export interface ComparisonRequest {
+  id: string
+  prompt?: string // Task the candidates respond to
+  candidates: ComparisonCandidate[]
+  criteria?: string[]
+  selectedAgents: Agent[]
+  requestedBy: string
+  createdAt: number
+}
+
+export interface CandidateRanking {
+  candidateId: string
+  label?: string
+  rank: number
+  rating: number // Elo-scale rating (1500 = average)
+  lower: number // Confidence interval bounds
+  upper: number
+  wins: number
+  losses: number
+  ties: number
+  comparisons: number
+}
+
+export interface ComparisonOutput {
+  requestId: string
+  topicId: string
+  method: RankingMethod
+  confidenceLevel: number
+  rankings: CandidateRanking[]
+  verdicts: PairwiseVerdict[]
+  failedComparisons: number
+  hcsTxId?: string // Final ranking message
+  completedAt: number
+}
+
+// Batch evaluation jobs: many submissions scored by one panel/config
+export type BatchJobStatus = 'running' | 'completed' | 'cancelled' | 'interrupted'
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled'
+
+export interface BatchItemInput {
+  id?: string // Caller's id for the submission, echoed in results
+  content: string
+  metadata?: Record<string, any>
+}
+
+export interface BatchItem {
+  index: number
+  externalId?: string
+  status: BatchItemStatus
+  evaluationId?: string
+  finalScore?: number
+  confidence?: number
+  criteriaScores?: Record<string, number> // Per-criterion consensus scores
+  cost?: number // HBAR paid to agents for this item
+  error?: string
+  metadata?: Record<string, any>
+  startedAt?: number
+  completedAt?: number
+}
+
+export interface BatchJob {
+  id: string
+  status: BatchJobStatus
+  concurrency: number
+  agentIds: string[]
+  criteria?: string[]
+  rubricId?: string
+  config: OrchestratorConfig
+  estimatedCost: number // HBAR for the whole batch
+  maxCost?: number // Budget cap in HBAR - items that would exceed it are skipped
+  spentCost: number
+  totalItems: number
+  counts: Record<BatchItemStatus, number>
+  requestedBy?: string
+  createdAt: number
+  completedAt?: number
+}
+
 export interface JudgmentResult {
   id: string
   requestId: string
@@ -93,6 +230,7 @@ export interface JudgmentResult {
   feedback: string
   strengths: string[]
   improvements: string[]
+  label?: string // Verdict mode: label the agent voted for
   completedAt: number
   paymentTx?: string // Hedera transaction ID
 }
@@ -109,28 +247,215 @@ export interface PaymentRequest {
   createdAt: number
 }
 
+// parallel: independent scoring; sequential: each judge sees the previous judges' reasoning;
+// hierarchical: a chief judge reviews the panel and issues the binding verdict
+export type EvaluationWorkflow = 'parallel' | 'sequential' | 'hierarchical'
+
 export interface MultiAgentSystem {
   id: string
   name: string
   description: string
   agents: Agent[]
-  workflow: 'parallel' | 'sequential' | 'hierarchical'
+  workflow: EvaluationWorkflow
   totalCost: number
   createdBy: string
   createdAt: number
 }
 
+// Minimum panel that must respond for an evaluation to reach consensus
+// When both are set, both must hold
+export interface QuorumRule {
+  minAgents?: number
+  minFraction?: number // 0-1 share of the selected agents
+}
+
+// How flagged outliers are handled before the consensus algorithm runs
+// drop: excluded; down_weight: weight scaled by threshold/|z|; extra_round: one more discussion round for the outliers
+export type OutlierStrategy = 'drop' | 'down_weight' | 'extra_round'
+
+export interface OutlierReport {
+  strategy: OutlierStrategy
+  zScoreThreshold: number
+  flagged: Array<{
+    agentId: string
+    score: number
+    zScore: number // Robust z-score: distance from the median in MADs
+    weight?: number // down_weight only
+  }>
+}
+
+// Per-judge correction of persistent harshness or leniency before consensus, learned from each judge's
+// scores against the consensus of the evaluations it judged before
+// mean_offset: the judge's average offset is removed; z_score: its spread is also rescaled to the consensus spread
+export type BiasCorrectionMethod = 'none' | 'mean_offset' | 'z_score'
+
+// How a judge's scores compare to consensus historically
+export interface JudgeBiasProfile {
+  agentId: string
+  offset: number // Mean of score - consensus shrunk toward 0; positive = lenient, negative = harsh
+  spread: number // Consensus over judge standard deviation shrunk toward 1; above 1 = the judge scores too narrowly
+  meanScore: number | null // Decayed mean of the judge's scores, null without history
+  effectiveSamples: number // Sum of the decayed sample weights
+}
+
+export interface JudgeBiasAdjustment {
+  rawScore: number
+  correctedScore: number
+  adjustment: number // correctedScore - rawScore
+  offset: number
+  spread?: number // z_score only
+  effectiveSamples: number
+}
+
+export interface BiasCorrectionReport {
+  method: Exclude<BiasCorrectionMethod, 'none'>
+  rawScores: Record<string, number> // Judges' scores before correction; individualScores are corrected
+  adjustments: Record<string, JudgeBiasAdjustment>
+}
+
+// What happened to a selected agent during an evaluation
+// timed_out: missed the scoring deadline; abstained: dropped out during discussion; failed: every attempt errored
+export type AgentOutcomeStatus = 'scored' | 'failed' | 'timed_out' | 'abstained'
+
 export interface OrchestratorConfig {
   maxDiscussionRounds: number
-  roundTimeout: number
-  consensusAlgorithm: 'simple_average' | 'weighted_average' | 'median' | 'trimmed_mean' | 'iterative_convergence' | 'delphi_method'
+  roundTimeout: number // Per-agent deadline (ms) for each scoring/discussion call
+  quorum?: QuorumRule // Defaults to at least one responding agent
+  maxRetries?: number // Retries of a failed agent call, defaults to 2
+  retryBackoffMs?: number // First retry delay, doubled on each retry (defaults to 1000)
+  consensusAlgorithm: string // Name of a registered consensus algorithm (GET /orchestrator/algorithms)
+  consensusParams?: Record<string, unknown> // Parameters of the consensus algorithm, checked against its schema
   enableDiscussion: boolean
   convergenceThreshold: number
   outlierDetection: boolean
+  outlierStrategy?: OutlierStrategy // Defaults to 'drop'
+  outlierZScoreThreshold?: number // Robust z-score above which a score is an outlier, defaults to 2 (needs 3+ scores)
+  trimFraction?: number // Share of scores trimmed from each end by trimmed_mean, defaults to 0.2
+  workflow?: EvaluationWorkflow // Defaults to 'parallel'
+  chiefJudgeId?: string // Hierarchical workflow: selected agent that issues the binding verdict
+  verdict?: VerdictConfig // Categorical verdict alongside the numeric score
+  scoreScale?: ScoreScale | ScoreScalePreset // Scale judges score on, defaults to 0-10
+  biasCorrection?: BiasCorrectionMethod // Defaults to 'none'
+}
+
+// Scale an evaluation is scored on. Judges, prompts and HCS messages use it; consensus runs on the
+// internal 0-10 scale, so consensus parameters (thresholds, priors) stay on 0-10
+export type ScoreScale =
+  | { type: 'numeric'; min: number; max: number; step?: number } // Scores are rounded to step, e.g. 1 for Likert
+  | { type: 'letter'; grades: string[] } // Worst to best, spread evenly over 0-10
+
+// likert_5: 1-5 in whole steps; percent: 0-100; letter: F, D, C, B, A
+export type ScoreScalePreset = 'default' | 'likert_5' | 'percent' | 'letter'
+
+// A score as given on its scale - grades on letter scales
+export type NativeScore = number | string
+
+// Consensus converted back to the evaluation's scale
+export interface NativeConsensus {
+  scale: ScoreScale
+  finalScore: NativeScore // Letter scales: the nearest grade
+  individualScores: Record<string, NativeScore>
+  credibleInterval?: { lower: NativeScore; upper: NativeScore }
+  criteria?: Record<string, NativeScore> // Criterion consensus scores
+}
+
+// How the panel's label votes decide the verdict
+// plurality: most votes; supermajority: at least the supermajority share; unanimous: every vote
+export type VerdictRule = 'plurality' | 'supermajority' | 'unanimous'
+
+// Tie between top labels - weighted: reputation-weighted votes; label_order: first declared label; none: undecided
+export type VerdictTieBreak = 'weighted' | 'label_order' | 'none'
+
+export interface VerdictConfig {
+  labels: string[] // e.g. pass, fail, needs-revision - declaration order is the label_order tie-break
+  rule?: VerdictRule // Defaults to 'plurality'
+  supermajority?: number // Share of votes the supermajority rule needs, defaults to 2/3
+  tieBreak?: VerdictTieBreak // Defaults to 'weighted'
+  fallbackLabel?: string // Label declared when the rule is not met, otherwise the verdict stays undecided
+}
+
+// Outcome of the label vote
+export interface VerdictConsensus {
+  label?: string // Winning label, the fallback label when the rule is not met, otherwise undefined
+  decided: boolean // The rule was met
+  rule: VerdictRule
+  distribution: Record<string, number> // Votes per label, every declared label included
+  agreement: number // Share of votes for the winning (or leading) label, 0-1
+  votes: Record<string, string> // Agent id to the label it voted for
+  tieBroken?: VerdictTieBreak // Set when a tie between top labels was broken
+  fallback?: boolean // The rule was not met and the fallback label was declared
+  panelLabel?: string // Hierarchical workflow: label of the panel vote, replaced by the chief judge's label
+}
+
+// JSON Schema of one consensus algorithm parameter
+export interface ConsensusParameterSchema {
+  type: 'number' | 'integer' | 'boolean' | 'string'
+  description: string
+  default?: number | boolean | string
+  minimum?: number
+  maximum?: number
+  exclusiveMaximum?: number
+  enum?: Array<number | string>
+}
+
+// Consensus algorithm as listed by GET /orchestrator/algorithms
+export interface ConsensusAlgorithmInfo {
+  name: string
+  description: string
+  builtIn: boolean
+  // What the algorithm reads besides the final scores
+  requires: { rounds: boolean; weights: boolean; messages: boolean }
+  parameters: {
+    type: 'object'
+    properties: Record<string, ConsensusParameterSchema>
+    additionalProperties: false
+  }
+}
+
+// Another judge's review shown to an agent before it scores
+export interface PeerReview {
+  agentId: string
+  agentName: string
+  score: number
+  reasoning: string
+  aspects?: Record<string, number>
+  label?: string // Verdict mode
+}
+
+// Reviews an agent gets to see: previous judges (sequential) or the whole panel (chief judge)
+export interface ReviewContext {
+  role: 'sequential' | 'chief'
+  reviews: PeerReview[]
+}
+
+// Binding verdict of the chief judge in the hierarchical workflow
+export interface ChiefVerdict {
+  agentId: string
+  agentName: string
+  score: number
+  justification: string
+  aspects?: Record<string, number>
+  label?: string // Verdict mode: overrides the panel's winning label
+  panelScore: number // Panel consensus the chief judge reviewed
+  hcsTxId?: string
+}
+
+// Consensus settings that can be changed when recomputing a finished evaluation
+export type ConsensusRecomputeOptions = Pick<OrchestratorConfig, 'consensusAlgorithm'> &
+  Partial<Pick<OrchestratorConfig, 'consensusParams' | 'outlierDetection' | 'outlierStrategy' | 'outlierZScoreThreshold' | 'trimFraction' | 'biasCorrection'>>
+
+// Alternative consensus computed from a finished evaluation's transcript
+export interface ConsensusRecomputation {
+  evaluationId: string
+  transcriptSource: 'database' | 'hcs'
+  settings: ConsensusRecomputeOptions // Effective settings of the recomputation
+  original: ConsensusResult
+  recomputed: ConsensusResult
+  computedAt: number
 }
 
 export interface EvaluationProgress {
-  status: 'initializing' | 'scoring' | 'discussing' | 'converging' | 'completed' | 'failed'
+  status: 'initializing' | 'scoring' | 'discussing' | 'converging' | 'completed' | 'failed' | 'interrupted' | 'cancelled'
   currentRound: number
   totalRounds: number
   scoresReceived: number
@@ -140,6 +465,70 @@ export interface EvaluationProgress {
   variance?: number
 }
 
+// Dry-run cost of an evaluation (POST /orchestrator/estimate), amounts in HBAR
+// Agents are paid for their scoring call only; discussion rounds are platform LLM calls
+export interface EvaluationCostEstimate {
+  agents: Array<{
+    agentId: string
+    agentName: string
+    pricePerJudgment: number
+    expectedCalls: number
+    maxCalls: number // Paid calls are not retried, so at most one
+    maxCost: number
+  }>
+  paidCalls: { expected: number; worstCase: number }
+  discussionRounds: number // Worst case, including an outlier extra round
+  llmTokens: { scoring: number; discussion: number; total: number } // Rough prompt + completion estimate
+  hcs: { messages: number; topicFee: number; messageFees: number; total: number }
+  expectedTotal: number
+  worstCaseTotal: number
+  quota?: { userAddress: string; monthlyCap: number; remainingQuota: number; worstCaseUsd: number; covered: boolean } // Quota amounts in USD
+  wallet?: { orchestratorId: string; accountId?: string; balance?: number; covered: boolean; error?: string }
+  covered: boolean // worstCaseTotal fits the quota and wallet balance that were checked
+}
+
+// x402 payment made to an agent during an evaluation
+export interface EvaluationPaymentRecord {
+  agentId: string
+  agentName: string
+  paymentTx?: string
+  // 'unconfirmed' = paid request was in flight when the evaluation was cancelled or the agent timed out
+  status: 'settled' | 'unconfirmed'
+}
+
+// Evaluation lifecycle events (streamed over SSE and persisted for replay)
+export interface EvaluationEventPayloads {
+  topic_created: { topicId: string }
+  agent_scored: { agentId: string; agentName: string; score: number; nativeScore?: NativeScore; aspects?: Record<string, number>; label?: string; hcsTxId?: string }
+  round_started: { round: number }
+  discussion_message: { agentId: string; agentName: string; round: number; discussion: string; hcsTxId?: string }
+  score_adjusted: { agentId: string; agentName: string; round: number; originalScore: number; adjustedScore: number; nativeAdjustedScore?: NativeScore; aspects?: Record<string, number>; hcsTxId?: string }
+  agent_abstained: { agentId: string; agentName: string; round: number; reason: string; hcsTxId?: string }
+  agent_failed: { agentId: string; agentName: string; round: number; reason: string; hcsTxId?: string }
+  outliers_detected: { outliers: OutlierReport; hcsTxId?: string }
+  bias_corrected: { biasCorrection: BiasCorrectionReport; hcsTxId?: string }
+  round_completed: { round: number; variance: number; scores: Record<string, number>; statistics?: DelphiStatistics }
+  round_converged: { round: number; variance: number; threshold: number; iqr?: number } // Delphi rounds converge on the IQR
+  consensus_computed: { consensus: ConsensusResult }
+  chief_verdict: { agentId: string; agentName: string; score: number; nativeScore?: NativeScore; panelScore: number; justification: string; label?: string; hcsTxId?: string }
+  payment_settled: { agentId: string; agentName: string; paymentTx: string }
+  evaluation_completed: { finalScore: number; nativeScore?: NativeScore; confidence: number }
+  evaluation_failed: { error: string }
+  evaluation_cancelled: { reason: string; payments: EvaluationPaymentRecord[]; hcsTxId?: string }
+}
+
+export type EvaluationEventType = keyof EvaluationEventPayloads
+
+export type EvaluationEvent = {
+  [K in EvaluationEventType]: {
+    type: K
+    evaluationId: string
+    timestamp: number
+    sequence?: number // Persisted event id, used as the SSE event id
+    data: EvaluationEventPayloads[K]
+  }
+}[EvaluationEventType]
+
 export interface ConsensusResult {
   finalScore: number
   algorithm: string
@@ -148,6 +537,116 @@ export interface ConsensusResult {
   confidence: number
   variance: number
   convergenceRounds: number
+  outliers?: OutlierReport // Present when outlier detection is enabled
+  biasCorrection?: BiasCorrectionReport // Present when judge bias correction is enabled
+  criteria?: CriterionConsensus[] // Per-criterion breakdown of the agents' criterion scores
+  chiefVerdict?: ChiefVerdict // Hierarchical workflow: overrides the panel's finalScore
+  verdict?: VerdictConsensus // Verdict mode: label vote of the judges
+  credibleInterval?: CredibleInterval // Bayesian aggregation only, of the panel score a chief verdict replaces
+  reliability?: EvaluationReliability // Agreement of the panel on the criteria
+  native?: NativeConsensus // Set when the evaluation declares a score scale
+}
+
+// Anonymized spread of the scores at the end of a Delphi round
+export interface DelphiStatistics {
+  median: number
+  q1: number
+  q3: number
+  iqr: number // q3 - q1, the rounds stop once it falls below the iqrThreshold parameter
+  respondents: number
+}
+
+// Agreement of two judges over the criteria both scored
+export interface PairwiseAgreement {
+  agentA: string
+  agentB: string
+  items: number // Criteria both judges scored
+  meanAbsoluteDifference: number
+  agreement: number // Share of those criteria scored at most one point apart
+}
+
+// How much the judges agree on their per-criterion scores - null when a statistic cannot be computed
+export interface InterRaterReliability {
+  raters: number
+  items: string[] // Criteria the statistics are computed over
+  krippendorffAlpha: number | null // Interval metric
+  icc: { single: number | null; average: number | null } // ICC(2,1) and ICC(2,k), absolute agreement
+  kendallW: number | null // Agreement on how the criteria rank
+  pairwise: PairwiseAgreement[]
+  meanAgreement: number | null // Mean pairwise agreement
+}
+
+// Reliability of the final scores and of the scores as they stood after each round
+export interface EvaluationReliability {
+  final: InterRaterReliability
+  rounds: Array<InterRaterReliability & { round: number }> // Round 0 holds the independent scores
+}
+
+// Reliability of the completed evaluations of one judge panel or rubric
+export interface ReliabilityGroupSummary {
+  evaluations: number
+  krippendorffAlpha: number | null // Means over the evaluations where the statistic could be computed
+  iccSingle: number | null
+  iccAverage: number | null
+  kendallW: number | null
+  meanAgreement: number | null
+}
+
+export interface PlatformReliability {
+  evaluations: number
+  byPanel: Array<ReliabilityGroupSummary & { agentIds: string[] }>
+  byRubric: Array<ReliabilityGroupSummary & { rubricId: string | null }> // null groups evaluations without a rubric
+}
+
+// What a judge's score was compared against
+export type CalibrationSource = 'consensus' | 'feedback'
+
+// One judge's deviation in one evaluation
+export interface CalibrationSample {
+  agentId: string
+  evaluationId: string
+  source: CalibrationSource
+  score: number // The judge's final score
+  reference: number // Final consensus score, or the score the user gave
+  deviation: number // |score - reference|
+  submittedBy?: string // Feedback only
+  recordedAt: number
+}
+
+// Weight learned from a judge's track record, used by weighted_average with weighting: 'calibrated'
+export interface JudgeCalibration {
+  agentId: string
+  weight: number // 0-1, judges without history get the weight of a judge one point off
+  meanDeviation: number | null // Decayed mean deviation, null without history
+  effectiveSamples: number // Sum of the decayed sample weights
+  consensusSamples: number
+  feedbackSamples: number
+  lastSampleAt?: number
+}
+
+// Body of POST /orchestrator/:evaluationId/feedback
+export interface EvaluationFeedback {
+  score: NativeScore // What the user thinks the content deserved, on the evaluation's scale
+  submittedBy: string // The evaluation's requester; their later feedback replaces the earlier
+}
+
+// Interval holding the true score with the given posterior probability
+export interface CredibleInterval {
+  lower: number
+  upper: number
+  level: number // e.g. 0.95
+  stdDev: number // Posterior standard deviation
+}
+
+// Consensus reached on a single evaluation criterion
+export interface CriterionConsensus {
+  criterion: string
+  weight?: number // Normalized rubric weight
+  finalScore: number
+  individualScores: Record<string, number>
+  variance: number
+  confidence: number
+  credibleInterval?: CredibleInterval // Bayesian aggregation only
 }
 
 export interface Judge {
@@ -183,6 +682,7 @@ export interface ConversationMessage {
   phase: 'scoring' | 'discussion' | 'consensus'
   round?: number
   hcsTxId?: string // Hedera Consensus Service message transaction id
+  consensusTimestamp?: string // HCS consensus timestamp (seconds.nanoseconds)
 }
 
 export interface EvaluationTranscript {
@@ -190,6 +690,7 @@ export interface EvaluationTranscript {
   rounds: Array<{
     round: number
     variance?: number
+    statistics?: DelphiStatistics // Delphi rounds only
     messages: ConversationMessage[]
   }>
 }
@@ -198,6 +699,10 @@ export interface EvaluationTranscript {
 export interface AgentChatRequest {
   content: string
   criteria?: string[]
+  rubric?: Rubric
+  comparison?: { candidateA: string; candidateB: string } // Pairwise mode - content is the task prompt
+  review?: ReviewContext // Sequential and hierarchical workflows
+  labels?: string[] // Verdict mode: label set the agent picks its verdict from
   metadata?: Record<string, any>
 }
 
@@ -206,9 +711,27 @@ export interface AgentChatResponse {
   reasoning: string
   confidence: number
   aspects?: Record<string, number>
+  strengths?: string[]
+  improvements?: string[]
+  label?: string // Verdict mode
   paymentTx?: string // X402 payment transaction ID
 }
 
+// Everything a judge returned during an evaluation
+export interface AgentJudgeResponse {
+  score: number // Score the agent gave before any discussion, on the internal 0-10 scale
+  nativeScore?: NativeScore // The same score on the evaluation's scale, when one is declared
+  reasoning: string
+  confidence: number
+  aspects: Record<string, number>
+  strengths: string[]
+  improvements: string[]
+  label?: string // Verdict mode: label the agent voted for
+  source: 'agent' | 'openai_fallback' // Paid agent endpoint, or direct OpenAI after the agent call failed
+  paymentTx?: string
+  hcsTxIds: string[] // HCS messages the agent published: score, discussion, adjustments, verdict
+}
+
 export interface X402PaymentRequired {
   error: string
   paymentRequired: {
@@ -230,11 +753,51 @@ export interface OrchestratorOutput {
   consensus: ConsensusResult
   individualResults: Array<{
     agentId: string
-    score: number
+    status: AgentOutcomeStatus
+    reason?: string // Why the agent was excluded from consensus
+    attempts?: number
+    score?: number // Missing when the agent never scored
     feedback: string
     strengths: string[]
     improvements: string[]
     completedAt: number
     paymentTx?: string
+    response?: AgentJudgeResponse // Missing when the agent never scored
   }>
 }
+
+// Completion callbacks: the final result (or failure) is POSTed to the caller's callbackUrl
+// waiting: evaluation still running; pending: being delivered or waiting for a retry
+export type CallbackDeliveryStatus = 'waiting' | 'pending' | 'delivered' | 'failed'
+export type CallbackEventType = 'evaluation.completed' | 'evaluation.failed'
+
+export interface CallbackPayload {
+  event: CallbackEventType
+  evaluationId: string
+  status: 'completed' | 'failed' | 'cancelled' | 'interrupted'
+  result?: OrchestratorOutput // evaluation.completed
+  error?: string // evaluation.failed
+  payments?: EvaluationPaymentRecord[]
+  timestamp: number
+}
+
+export interface CallbackAttempt {
+  attempt: number
+  statusCode?: number // Missing when the request never got a response
+  error?: string
+  durationMs: number
+  attemptedAt: number
+}
+
+export interface CallbackDelivery {
+  id: string
+  evaluationId: string
+  url: string // The secret is never returned
+  status: CallbackDeliveryStatus
+  event?: CallbackEventType
+  attemptCount: number
+  lastError?: string
+  attempts: CallbackAttempt[]
+  createdAt: number
+  deliveredAt?: number
+}